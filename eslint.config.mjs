@@ -29,7 +29,8 @@ export default [
         setTimeout: 'readonly',
         clearTimeout: 'readonly',
         setInterval: 'readonly',
-        clearInterval: 'readonly'
+        clearInterval: 'readonly',
+        crypto: 'readonly'
       }
     },
     plugins: {
@@ -78,6 +79,13 @@ export default [
         MediaRecorderOptions: 'readonly',
         AudioNode: 'readonly',
         DOMException: 'readonly',
+        AbortController: 'readonly',
+        RequestInit: 'readonly',
+        XMLHttpRequest: 'readonly',
+        Response: 'readonly',
+        URL: 'readonly',
+        crypto: 'readonly',
+        Headers: 'readonly',
         // Jest globals
         jest: 'readonly',
         describe: 'readonly',
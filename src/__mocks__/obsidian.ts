@@ -422,6 +422,12 @@ export interface MenuItem {
   onClick(callback: () => void): this;
 }
 
+export const Platform = {
+  isDesktopApp: true,
+  isMobileApp: false,
+  isMobile: false
+};
+
 export function normalizePath(path: string): string {
   // パスの正規化
   return path.replace(/\\/g, '/').replace(/\/+/g, '/');
@@ -2,6 +2,8 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { AudioRecorder, type RecorderState } from '../recorder/AudioRecorder';
+import { MemoryRecordingSink } from '../recorder/RecordingSink';
+import { setMockInputAmplitude } from './setup';
 
 describe('AudioRecorder', () => {
   let recorder: AudioRecorder;
@@ -33,6 +35,11 @@ describe('AudioRecorder', () => {
       const state = recorder.getState();
       expect(state.audioLevel).toBe(0);
     });
+
+    it('systemAudioLevel が 0', () => {
+      const state = recorder.getState();
+      expect(state.systemAudioLevel).toBe(0);
+    });
   });
 
   describe('録音開始', () => {
@@ -200,6 +207,324 @@ describe('AudioRecorder', () => {
     });
   });
 
+  describe('入力デバイス', () => {
+    it('選択したマイクとエコーキャンセルなどの設定で音声を取得する', async () => {
+      recorder = new AudioRecorder({
+        deviceId: 'usb-mic',
+        echoCancellation: false,
+        noiseSuppression: true,
+        autoGainControl: false
+      });
+
+      await recorder.start();
+
+      expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({
+        audio: expect.objectContaining({
+          deviceId: { exact: 'usb-mic' },
+          echoCancellation: false,
+          noiseSuppression: true,
+          autoGainControl: false
+        })
+      });
+      expect(recorder.isUsingFallbackDevice()).toBe(false);
+    });
+
+    it('選択したマイクが見つからない場合はデフォルトのマイクで録音する', async () => {
+      const getUserMedia = vi.mocked(navigator.mediaDevices.getUserMedia);
+      getUserMedia.mockRejectedValueOnce(new DOMException('Not found', 'OverconstrainedError'));
+      recorder = new AudioRecorder({ deviceId: 'unplugged' });
+
+      await recorder.start();
+
+      expect(getUserMedia).toHaveBeenCalledTimes(2);
+      expect(getUserMedia.mock.calls[1][0]).toEqual({ audio: expect.not.objectContaining({ deviceId: expect.anything() }) });
+      expect(recorder.isUsingFallbackDevice()).toBe(true);
+      expect(recorder.getState().status).toBe('recording');
+    });
+
+    it('入力ゲインを指定した場合はゲインを掛けた音声を録音する', async () => {
+      const createGain = vi.spyOn(AudioContext.prototype, 'createGain');
+      recorder = new AudioRecorder({ gain: 2 });
+
+      await recorder.start();
+
+      expect(createGain.mock.results[0].value.gain.value).toBe(2);
+    });
+
+    it('入力ゲインが 1 の場合はそのまま録音する', async () => {
+      const createGain = vi.spyOn(AudioContext.prototype, 'createGain');
+
+      await recorder.start();
+
+      expect(createGain).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('システム音声', () => {
+    const audioTrack = { stop: vi.fn() };
+    const videoTrack = { stop: vi.fn() };
+
+    function mockGetDisplayMedia(audioTracks: unknown[] = [audioTrack]): ReturnType<typeof vi.fn> {
+      const getDisplayMedia = vi.fn().mockResolvedValue({
+        getAudioTracks: () => audioTracks,
+        getVideoTracks: () => [videoTrack]
+      });
+      Object.defineProperty(navigator.mediaDevices, 'getDisplayMedia', { value: getDisplayMedia, configurable: true });
+      return getDisplayMedia;
+    }
+
+    afterEach(() => {
+      Object.defineProperty(navigator.mediaDevices, 'getDisplayMedia', { value: undefined, configurable: true });
+    });
+
+    it('マイクとシステム音声を混ぜて録音する', async () => {
+      const getDisplayMedia = mockGetDisplayMedia();
+      const createSource = vi.spyOn(AudioContext.prototype, 'createMediaStreamSource');
+      const createDestination = vi.spyOn(AudioContext.prototype, 'createMediaStreamDestination');
+      recorder = new AudioRecorder({ captureSystemAudio: true });
+
+      await recorder.start();
+
+      expect(getDisplayMedia).toHaveBeenCalledWith({ audio: true, video: true });
+      expect(videoTrack.stop).toHaveBeenCalled();
+      expect(createSource).toHaveBeenCalledTimes(2);
+      expect(createSource.mock.results[1].value.connect).toHaveBeenCalledWith(createDestination.mock.results[0].value);
+      expect(recorder.isCapturingSystemAudio()).toBe(true);
+      expect(recorder.isSystemAudioUnavailable()).toBe(false);
+    });
+
+    it('録音中はシステム音声の音量レベルも通知する', async () => {
+      vi.useFakeTimers();
+      mockGetDisplayMedia();
+      const states: RecorderState[] = [];
+      recorder = new AudioRecorder({ captureSystemAudio: true });
+      recorder.onStateChange = (state: RecorderState): void => {
+        states.push(state);
+      };
+
+      await recorder.start();
+      vi.advanceTimersByTime(100);
+      vi.useRealTimers();
+
+      expect(states.some(state => state.systemAudioLevel > 0)).toBe(true);
+    });
+
+    it('停止するとシステム音声の共有を終了する', async () => {
+      mockGetDisplayMedia();
+      recorder = new AudioRecorder({ captureSystemAudio: true });
+
+      await recorder.start();
+      await recorder.stop();
+
+      expect(audioTrack.stop).toHaveBeenCalled();
+      expect(recorder.isCapturingSystemAudio()).toBe(false);
+    });
+
+    it('画面共有が拒否された場合はマイクのみで録音する', async () => {
+      const getDisplayMedia = mockGetDisplayMedia();
+      getDisplayMedia.mockRejectedValueOnce(new DOMException('Denied', 'NotAllowedError'));
+      recorder = new AudioRecorder({ captureSystemAudio: true });
+
+      await recorder.start();
+
+      expect(recorder.isSystemAudioUnavailable()).toBe(true);
+      expect(recorder.isCapturingSystemAudio()).toBe(false);
+      expect(recorder.getState().status).toBe('recording');
+    });
+
+    it('共有した画面に音声がない場合はマイクのみで録音する', async () => {
+      mockGetDisplayMedia([]);
+      const createSource = vi.spyOn(AudioContext.prototype, 'createMediaStreamSource');
+      recorder = new AudioRecorder({ captureSystemAudio: true });
+
+      await recorder.start();
+
+      expect(recorder.isSystemAudioUnavailable()).toBe(true);
+      expect(createSource).toHaveBeenCalledTimes(1);
+    });
+
+    it('getDisplayMedia がない場合はマイクのみで録音する', async () => {
+      recorder = new AudioRecorder({ captureSystemAudio: true });
+
+      await recorder.start();
+
+      expect(recorder.isSystemAudioUnavailable()).toBe(true);
+      expect(recorder.getState().systemAudioLevel).toBe(0);
+    });
+
+    it('システム音声を録音しない設定では画面共有を求めない', async () => {
+      const getDisplayMedia = mockGetDisplayMedia();
+
+      await recorder.start();
+
+      expect(getDisplayMedia).not.toHaveBeenCalled();
+      expect(recorder.isSystemAudioUnavailable()).toBe(false);
+    });
+  });
+
+  describe('無音での自動一時停止・自動停止', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('無音が autoPauseDuration 続いたら一時停止し、発話で再開する', async () => {
+      vi.useFakeTimers();
+      recorder = new AudioRecorder({ autoPauseDuration: 1 });
+
+      await recorder.start();
+      setMockInputAmplitude(0.001);  // -60 dB
+      await vi.advanceTimersByTimeAsync(1100);
+
+      expect(recorder.getState().status).toBe('paused');
+      expect(recorder.isAutoPaused()).toBe(true);
+
+      setMockInputAmplitude(0.5);
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(recorder.getState().status).toBe('recording');
+      expect(recorder.isAutoPaused()).toBe(false);
+    });
+
+    it('閾値以上の音量が続く間は一時停止しない', async () => {
+      vi.useFakeTimers();
+      recorder = new AudioRecorder({ autoPauseDuration: 1, silenceThresholdDb: -70 });
+
+      await recorder.start();
+      setMockInputAmplitude(0.001);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(recorder.getState().status).toBe('recording');
+    });
+
+    it('手動で一時停止した場合は発話で再開しない', async () => {
+      vi.useFakeTimers();
+      recorder = new AudioRecorder({ autoPauseDuration: 1 });
+
+      await recorder.start();
+      recorder.pause();
+      await vi.advanceTimersByTimeAsync(500);
+
+      expect(recorder.getState().status).toBe('paused');
+      expect(recorder.isAutoPaused()).toBe(false);
+    });
+
+    it('無音が autoStopDuration 続いたら停止して onAutoStop を呼ぶ', async () => {
+      vi.useFakeTimers();
+      const onAutoStop = vi.fn();
+      recorder = new AudioRecorder({ autoPauseDuration: 1, autoStopDuration: 3 });
+      recorder.onAutoStop = onAutoStop;
+
+      await recorder.start();
+      setMockInputAmplitude(0);
+      await vi.advanceTimersByTimeAsync(3100);
+
+      expect(recorder.getState().status).toBe('stopped');
+      expect(onAutoStop).toHaveBeenCalledTimes(1);
+      expect(onAutoStop.mock.calls[0][0]).toBeInstanceOf(Blob);
+      // 自動一時停止していた間は録音時間に含めない
+      expect(recorder.getState().duration).toBeCloseTo(1, 0);
+    });
+
+    it('autoPauseDuration・autoStopDuration が 0 の場合は無音でも録音を続ける', async () => {
+      vi.useFakeTimers();
+
+      await recorder.start();
+      setMockInputAmplitude(0);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(recorder.getState().status).toBe('recording');
+    });
+  });
+
+  describe('パートの切り替え', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('partDuration ごとに新しいパートに切り替える', async () => {
+      vi.useFakeTimers();
+      const sink = new MemoryRecordingSink();
+      const endPart = vi.spyOn(sink, 'endPart');
+      const onPartComplete = vi.fn();
+      recorder = new AudioRecorder({ partDuration: 1 }, sink);
+      recorder.onPartComplete = onPartComplete;
+
+      await recorder.start();
+      await vi.advanceTimersByTimeAsync(1100);
+
+      expect(recorder.getPartCount()).toBe(2);
+      expect(endPart).toHaveBeenCalledWith(0);
+      expect(onPartComplete).toHaveBeenCalledWith(0);
+
+      await vi.advanceTimersByTimeAsync(500);
+      await recorder.stop();
+
+      expect(endPart).toHaveBeenLastCalledWith(1);
+      expect(recorder.getPartDurations()).toHaveLength(2);
+      expect(recorder.getPartDurations()[0]).toBeCloseTo(1, 0);
+    });
+
+    it('録音中はパートごとの録音時間を保存先に伝える', async () => {
+      vi.useFakeTimers();
+      const sink = new MemoryRecordingSink();
+      const setPartDurations = vi.spyOn(sink, 'setPartDurations');
+      recorder = new AudioRecorder({ partDuration: 1 }, sink);
+
+      await recorder.start();
+      await vi.advanceTimersByTimeAsync(1500);
+
+      const durations = setPartDurations.mock.calls[setPartDurations.mock.calls.length - 1][0];
+      expect(durations).toHaveLength(2);
+      expect(durations[0] + durations[1]).toBeCloseTo(1.5, 0);
+    });
+
+    it('MediaRecorder が選んだ形式で録音データを返し、保存先に伝える', async () => {
+      const isTypeSupported = vi.spyOn(MediaRecorder, 'isTypeSupported').mockReturnValue(false);
+      const sink = new MemoryRecordingSink();
+      const setMimeType = vi.spyOn(sink, 'setMimeType');
+      recorder = new AudioRecorder({}, sink);
+
+      await recorder.start();
+      const blob = await recorder.stop();
+
+      expect(recorder.getMimeType()).toBe('audio/mp4');
+      expect(setMimeType).toHaveBeenCalledWith('audio/mp4');
+      expect(blob.type).toBe('audio/mp4');
+      isTypeSupported.mockRestore();
+    });
+
+    it('partDuration が 0 の場合は切り替えない', async () => {
+      vi.useFakeTimers();
+      await recorder.start();
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(recorder.getPartCount()).toBe(1);
+    });
+
+    it('キャンセルすると保存先の録音データを破棄する', async () => {
+      const sink = new MemoryRecordingSink();
+      const remove = vi.spyOn(sink, 'remove');
+      recorder = new AudioRecorder({}, sink);
+
+      await recorder.start();
+      recorder.cancel();
+      await vi.waitFor(() => expect(remove).toHaveBeenCalled());
+    });
+
+    it('停止後に録音データだけを破棄できる', async () => {
+      const sink = new MemoryRecordingSink();
+      const remove = vi.spyOn(sink, 'remove');
+      recorder = new AudioRecorder({}, sink);
+
+      await recorder.start();
+      await recorder.stop();
+      await recorder.discardData();
+
+      expect(remove).toHaveBeenCalled();
+      expect(recorder.getState().status).toBe('stopped');
+    });
+  });
+
   describe('エラーハンドリング', () => {
     it('onError コールバックが設定できる', () => {
       const errorCallback = vi.fn();
@@ -230,6 +555,7 @@ describe('AudioRecorder', () => {
       expect(config.sampleRate).toBe(16000);
       expect(config.channelCount).toBe(1);
       expect(config.mimeType).toBe('audio/webm;codecs=opus');
+      expect(config.partDuration).toBe(0);
     });
   });
 });
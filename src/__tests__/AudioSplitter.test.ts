@@ -0,0 +1,93 @@
+// AudioSplitter モジュールのテスト
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AudioSplitter, DEFAULT_SPLIT_CONFIG } from '../trimmer/AudioSplitter';
+
+describe('AudioSplitter', () => {
+  let splitter: AudioSplitter;
+
+  beforeEach(() => {
+    splitter = new AudioSplitter({ resolution: 1000, searchWindow: 10 });
+  });
+
+  describe('getMaxChunkDuration', () => {
+    it('ビットレートから1チャンクの最大秒数を計算する', () => {
+      const defaultSplitter = new AudioSplitter();
+      // 64kbps = 8000 bytes/秒、5%の余裕を差し引く
+      expect(defaultSplitter.getMaxChunkDuration(8000 * 100)).toBeCloseTo(95, 5);
+    });
+
+    it('20MBで約40分になる', () => {
+      const defaultSplitter = new AudioSplitter();
+      const seconds = defaultSplitter.getMaxChunkDuration(20 * 1024 * 1024);
+      expect(seconds).toBeGreaterThan(40 * 60);
+      expect(seconds).toBeLessThan(45 * 60);
+    });
+  });
+
+  describe('calculateLevels', () => {
+    it('解像度ごとにdBを計算する', () => {
+      const sampleRate = 10;
+      const data = new Float32Array(20);
+      data.fill(0.1, 0, 10);
+      data.fill(0, 10, 20);
+
+      const levels = splitter.calculateLevels(data, sampleRate);
+
+      expect(levels).toHaveLength(2);
+      expect(levels[0]).toBeCloseTo(-20, 1);
+      expect(levels[1]).toBe(-Infinity);
+    });
+  });
+
+  describe('calculateSplitRanges', () => {
+    it('最大秒数以下なら分割しない', () => {
+      const levels = new Array(30).fill(-20);
+      const ranges = splitter.calculateSplitRanges(levels, 30, 60);
+
+      expect(ranges).toEqual([{ start: 0, end: 30 }]);
+    });
+
+    it('上限手前の最も静かな位置で分割する', () => {
+      const levels = new Array(100).fill(-20);
+      levels[55] = -50; // 探索範囲（50〜60秒）内の無音
+
+      const ranges = splitter.calculateSplitRanges(levels, 100, 60);
+
+      expect(ranges[0]).toEqual({ start: 0, end: 55.5 });
+      expect(ranges[1].start).toBe(55.5);
+      expect(ranges[ranges.length - 1].end).toBe(100);
+    });
+
+    it('探索範囲外の無音は分割点にならない', () => {
+      const levels = new Array(100).fill(-20);
+      levels[20] = -60; // 探索範囲より前
+
+      const ranges = splitter.calculateSplitRanges(levels, 100, 60);
+
+      expect(ranges[0].end).toBeGreaterThanOrEqual(50);
+      expect(ranges[0].end).toBeLessThanOrEqual(60);
+    });
+
+    it('全チャンクが最大秒数以下で、隙間なく連続する', () => {
+      const levels = Array.from({ length: 600 }, (_, i) => (i % 37 === 0 ? -45 : -20));
+      const ranges = splitter.calculateSplitRanges(levels, 600, 60);
+
+      expect(ranges[0].start).toBe(0);
+      expect(ranges[ranges.length - 1].end).toBe(600);
+      for (let i = 0; i < ranges.length; i++) {
+        expect(ranges[i].end - ranges[i].start).toBeLessThanOrEqual(60);
+        if (i > 0) {
+          expect(ranges[i].start).toBe(ranges[i - 1].end);
+        }
+      }
+    });
+  });
+
+  describe('DEFAULT_SPLIT_CONFIG', () => {
+    it('16kHz / 64kbps で再エンコードする', () => {
+      expect(DEFAULT_SPLIT_CONFIG.sampleRate).toBe(16000);
+      expect(DEFAULT_SPLIT_CONFIG.kbps).toBe(64);
+    });
+  });
+});
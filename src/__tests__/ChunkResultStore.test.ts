@@ -0,0 +1,129 @@
+// ChunkResultStore モジュールのテスト
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ChunkResultStore,
+  hashAudio,
+  createChunkResultKey,
+  createChunkResultSignature,
+  type ChunkResultEntry,
+  type ChunkResultRecord
+} from '../api/ChunkResultStore';
+import type { TranscriptionConfig } from '../api/TranscriptionService';
+
+const record = (index: number, text: string): ChunkResultRecord => ({
+  index,
+  startTime: index * 100,
+  endTime: (index + 1) * 100,
+  result: { text, segments: [], duration: 100, language: 'ja' }
+});
+
+describe('hashAudio', () => {
+  it('同じ内容の音声は同じハッシュになる', async () => {
+    const a = await hashAudio(new Blob(['audio']));
+    const b = await hashAudio(new Blob(['audio']));
+    const c = await hashAudio(new Blob(['other']));
+
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it('キーにはチャンクサイズを含める', () => {
+    expect(createChunkResultKey('abc', 1024)).not.toBe(createChunkResultKey('abc', 2048));
+  });
+});
+
+describe('createChunkResultSignature', () => {
+  const config: TranscriptionConfig = {
+    provider: 'openai',
+    apiKey: 'key',
+    apiUrl: 'https://api.openai.com/v1/audio/transcriptions',
+    model: 'whisper-1',
+    language: 'ja',
+    timeout: 300000,
+    temperature: 0,
+    initialPrompt: '',
+    chunkSizeMB: 20,
+    timestampGranularity: 'none',
+    diarization: false,
+    maxRetries: 0,
+    retryBaseDelay: 0
+  };
+
+  it('プロンプト・用語・temperature・直前のチャンクの設定が変わると署名が変わる', () => {
+    const signature = createChunkResultSignature(config);
+
+    expect(createChunkResultSignature({ ...config, initialPrompt: '会議の録音' })).not.toBe(signature);
+    expect(createChunkResultSignature({ ...config, vocabulary: ['Acme'] })).not.toBe(signature);
+    expect(createChunkResultSignature({ ...config, noteContext: ['議事録'] })).not.toBe(signature);
+    expect(createChunkResultSignature({ ...config, temperature: 0.5 })).not.toBe(signature);
+    expect(createChunkResultSignature({ ...config, previousChunkPrompt: true })).not.toBe(signature);
+    expect(createChunkResultSignature({ ...config, task: 'translate' })).not.toBe(signature);
+  });
+
+  it('同じモデル名でも送信先のサーバーが変わると署名が変わる', () => {
+    expect(createChunkResultSignature({ ...config, apiUrl: 'http://127.0.0.1:8080/v1/audio/transcriptions' }))
+      .not.toBe(createChunkResultSignature(config));
+  });
+
+  it('結果に影響しない設定では署名は変わらない', () => {
+    expect(createChunkResultSignature({ ...config, apiKey: 'other', maxRetries: 3 }))
+      .toBe(createChunkResultSignature(config));
+  });
+});
+
+describe('ChunkResultStore', () => {
+  let persist: ReturnType<typeof vi.fn>;
+  let store: ChunkResultStore;
+
+  beforeEach(() => {
+    persist = vi.fn().mockResolvedValue(undefined);
+    store = new ChunkResultStore([], persist);
+  });
+
+  it('保存したチャンクの結果を取得できる', async () => {
+    await store.save('key', 'sig', record(0, 'パート1'));
+
+    expect(store.find('key', 'sig', 0, { startTime: 0, endTime: 100 })?.text).toBe('パート1');
+    expect(store.find('key', 'sig', 1, { startTime: 100, endTime: 200 })).toBeNull();
+    expect(persist).toHaveBeenCalledWith([expect.objectContaining({ key: 'key', chunks: [record(0, 'パート1')] })]);
+  });
+
+  it('分割位置が一致しない場合は再利用しない', async () => {
+    await store.save('key', 'sig', record(0, 'パート1'));
+
+    expect(store.find('key', 'sig', 0, { startTime: 0, endTime: 95 })).toBeNull();
+  });
+
+  it('設定が変わった場合は再利用せず、保存時にそれまでの結果を破棄する', async () => {
+    await store.save('key', 'sig', record(0, 'パート1'));
+
+    expect(store.find('key', 'other', 0, { startTime: 0, endTime: 100 })).toBeNull();
+
+    await store.save('key', 'other', record(1, 'パート2'));
+    expect(store.getEntries()[0].chunks).toEqual([record(1, 'パート2')]);
+  });
+
+  it('完了した音声の結果を削除する', async () => {
+    await store.save('key', 'sig', record(0, 'パート1'));
+    persist.mockClear();
+
+    await store.remove('key');
+    await store.remove('missing');
+
+    expect(store.getEntries()).toEqual([]);
+    expect(persist).toHaveBeenCalledTimes(1);
+  });
+
+  it('保持期間を過ぎた結果は読み込まない', () => {
+    const entries: ChunkResultEntry[] = [
+      { key: 'old', signature: 'sig', updatedAt: 0, chunks: [] },
+      { key: 'new', signature: 'sig', updatedAt: 9000, chunks: [] }
+    ];
+
+    store = new ChunkResultStore(entries, persist, 5000, 10000);
+
+    expect(store.getEntries().map(entry => entry.key)).toEqual(['new']);
+  });
+});
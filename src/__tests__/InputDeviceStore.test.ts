@@ -0,0 +1,85 @@
+// 入力デバイスのテスト
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  InputDeviceStore,
+  listInputDevices,
+  clampInputGain,
+  INPUT_DEVICE_STORAGE_KEY
+} from '../recorder/InputDeviceStore';
+
+describe('clampInputGain', () => {
+  it('入力ゲインを範囲内に収める', () => {
+    expect(clampInputGain(1.5)).toBe(1.5);
+    expect(clampInputGain(0)).toBe(0.5);
+    expect(clampInputGain(10)).toBe(4);
+    expect(clampInputGain(NaN)).toBe(1);
+  });
+});
+
+describe('InputDeviceStore', () => {
+  let store: InputDeviceStore;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    store = new InputDeviceStore(window.localStorage);
+  });
+
+  it('保存していない場合はデフォルトのマイクと等倍のゲイン', () => {
+    expect(store.getDeviceId()).toBe('');
+    expect(store.getGain()).toBe(1);
+  });
+
+  it('選択したマイクを保存する', () => {
+    store.setDeviceId('usb-mic');
+
+    expect(new InputDeviceStore(window.localStorage).getDeviceId()).toBe('usb-mic');
+  });
+
+  it('入力ゲインはマイクごとに保存する', () => {
+    store.setGain(2, 'usb-mic');
+    store.setDeviceId('usb-mic');
+    store.setGain(1.5, '');
+
+    expect(store.getGain()).toBe(2);
+    expect(store.getGain('')).toBe(1.5);
+    expect(store.getGain('other')).toBe(1);
+  });
+
+  it('保存した内容が壊れている場合はデフォルトを使う', () => {
+    window.localStorage.setItem(INPUT_DEVICE_STORAGE_KEY, '{"deviceId":');
+
+    expect(store.get()).toEqual({ deviceId: '', gains: {} });
+  });
+});
+
+describe('listInputDevices', () => {
+  const devices = (labels: boolean) => [
+    { kind: 'audioinput', deviceId: 'default', label: labels ? 'Default' : '' },
+    { kind: 'audioinput', deviceId: 'usb-mic', label: labels ? 'USB Mic' : '' },
+    { kind: 'audiooutput', deviceId: 'speaker', label: labels ? 'Speaker' : '' },
+    { kind: 'audioinput', deviceId: 'builtin', label: labels ? 'Built-in' : '' }
+  ];
+
+  beforeEach(() => {
+    (navigator.mediaDevices as unknown as { enumerateDevices: unknown }).enumerateDevices = vi.fn()
+      .mockResolvedValueOnce(devices(false))
+      .mockResolvedValue(devices(true));
+  });
+
+  it('マイクのみを返し、OS の仮想デバイスは除く', async () => {
+    expect(await listInputDevices()).toEqual([
+      { deviceId: 'usb-mic', label: '' },
+      { deviceId: 'builtin', label: '' }
+    ]);
+    expect(navigator.mediaDevices.getUserMedia).not.toHaveBeenCalled();
+  });
+
+  it('権限を求める場合は名前が取得できるよう取得し直す', async () => {
+    expect(await listInputDevices(true)).toEqual([
+      { deviceId: 'usb-mic', label: 'USB Mic' },
+      { deviceId: 'builtin', label: 'Built-in' }
+    ]);
+    expect(navigator.mediaDevices.getUserMedia).toHaveBeenCalledWith({ audio: true });
+  });
+});
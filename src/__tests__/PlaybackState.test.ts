@@ -0,0 +1,43 @@
+// 再生状態モジュールのテスト
+
+import { describe, it, expect, vi } from 'vitest';
+import { PlaybackState } from '../player/PlaybackState';
+
+describe('PlaybackState', () => {
+  it('初期状態は停止中', () => {
+    expect(new PlaybackState().get()).toEqual({ audioPath: null, currentTime: 0, playing: false });
+  });
+
+  it('更新時にリスナーへ通知する', () => {
+    const playback = new PlaybackState();
+    const listener = vi.fn();
+    playback.subscribe(listener);
+
+    playback.update({ audioPath: 'recordings/a.webm', currentTime: 12 });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(playback.isActiveFor('recordings/a.webm')).toBe(true);
+  });
+
+  it('値が変わらない場合は通知しない', () => {
+    const playback = new PlaybackState();
+    playback.update({ currentTime: 5 });
+    const listener = vi.fn();
+    playback.subscribe(listener);
+
+    playback.update({ currentTime: 5 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('購読解除後は通知しない', () => {
+    const playback = new PlaybackState();
+    const listener = vi.fn();
+    const unsubscribe = playback.subscribe(listener);
+    unsubscribe();
+
+    playback.update({ playing: true });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -25,6 +25,10 @@ describe('PluginSettings', () => {
       expect(DEFAULT_SETTINGS).toHaveProperty('chunkSizeMB');
     });
 
+    it('デフォルトプロバイダーはOpenAI互換', () => {
+      expect(DEFAULT_SETTINGS.provider).toBe('openai');
+    });
+
     it('apiKeyは空文字列', () => {
       expect(DEFAULT_SETTINGS.apiKey).toBe('');
     });
@@ -56,6 +60,7 @@ describe('PluginSettings', () => {
 
   describe('exportSettings', () => {
     const testSettings: PluginSettings = {
+      provider: 'openai',
       apiKey: 'secret-api-key',
       apiUrl: 'https://custom.api.com/v1/transcriptions',
       model: 'gpt-4o-mini-transcribe',
@@ -70,7 +75,38 @@ describe('PluginSettings', () => {
       autoSkipDuration: 20,
       defaultThresholdDb: -40,
       minSilenceDuration: 0.6,
-      silenceMargin: 0.2
+      silenceMargin: 0.2,
+      timestampGranularity: 'segment',
+      templatePath: '',
+      customFrontmatter: '',
+      tags: 'transcription',
+      audioFilenamePattern: 'YYYY-MM-DD_HHmmss',
+      transcriptFilenamePattern: 'YYYY-MM-DD_HHmmss[_transcription]',
+      outputMode: 'new-note',
+      diarization: false,
+      postProcessEnabled: false,
+      postProcessApiUrl: 'https://api.openai.com/v1/chat/completions',
+      postProcessApiKey: '',
+      postProcessModel: 'gpt-4o-mini',
+      postProcessPresets: [],
+      maxRetries: 3,
+      retryBaseDelay: 2,
+      profiles: [],
+      folderProfiles: [],
+      translationLanguage: '',
+      translationOutput: 'both',
+      glossary: '',
+      glossaryNotePath: '',
+      previousChunkPrompt: true,
+      noteContextPrompt: false,
+      recordingPartMinutes: 0,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      captureSystemAudio: false,
+      silenceThresholdDb: -50,
+      autoPauseSeconds: 0,
+      autoStopMinutes: 0
     };
 
     it('API Keyを除外してエクスポートする', () => {
@@ -78,6 +114,21 @@ describe('PluginSettings', () => {
       expect(exported.settings).not.toHaveProperty('apiKey');
     });
 
+    it('後処理のAPI Keyも除外する', () => {
+      const exported = exportSettings({ ...testSettings, postProcessApiKey: 'sk-llm' }, '1.0.0');
+      expect(exported.settings).not.toHaveProperty('postProcessApiKey');
+    });
+
+    it('プロファイルのAPI Keyも除外する', () => {
+      const profile = {
+        id: 'profile_1', name: 'Local', provider: 'whisper-cpp' as const, apiKey: 'sk-profile',
+        apiUrl: 'http://localhost:8080/inference', model: '', language: 'en', initialPrompt: ''
+      };
+      const exported = exportSettings({ ...testSettings, profiles: [profile] }, '1.0.0');
+      expect(exported.settings.profiles?.[0]).not.toHaveProperty('apiKey');
+      expect(exported.settings.profiles?.[0].name).toBe('Local');
+    });
+
     it('バージョンが含まれる', () => {
       const exported = exportSettings(testSettings, '1.2.3');
       expect(exported.version).toBe('1.2.3');
@@ -99,6 +150,7 @@ describe('PluginSettings', () => {
 
   describe('importSettings', () => {
     const currentSettings: PluginSettings = {
+      provider: 'openai',
       apiKey: 'my-secret-key',
       apiUrl: 'https://api.openai.com/v1/audio/transcriptions',
       model: 'whisper-1',
@@ -113,12 +165,44 @@ describe('PluginSettings', () => {
       autoSkipDuration: 20,
       defaultThresholdDb: -40,
       minSilenceDuration: 0.6,
-      silenceMargin: 0.2
+      silenceMargin: 0.2,
+      timestampGranularity: 'segment',
+      templatePath: '',
+      customFrontmatter: '',
+      tags: 'transcription',
+      audioFilenamePattern: 'YYYY-MM-DD_HHmmss',
+      transcriptFilenamePattern: 'YYYY-MM-DD_HHmmss[_transcription]',
+      outputMode: 'new-note',
+      diarization: false,
+      postProcessEnabled: false,
+      postProcessApiUrl: 'https://api.openai.com/v1/chat/completions',
+      postProcessApiKey: '',
+      postProcessModel: 'gpt-4o-mini',
+      postProcessPresets: [],
+      maxRetries: 3,
+      retryBaseDelay: 2,
+      profiles: [],
+      folderProfiles: [],
+      translationLanguage: '',
+      translationOutput: 'both',
+      glossary: '',
+      glossaryNotePath: '',
+      previousChunkPrompt: true,
+      noteContextPrompt: false,
+      recordingPartMinutes: 0,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      captureSystemAudio: false,
+      silenceThresholdDb: -50,
+      autoPauseSeconds: 0,
+      autoStopMinutes: 0
     };
 
     const exported: SettingsExport = {
       version: '1.0.0',
       settings: {
+        provider: 'openai',
         apiUrl: 'https://custom.api.com/v1/transcriptions',
         model: 'gpt-4o-mini-transcribe',
         language: 'en',
@@ -132,7 +216,38 @@ describe('PluginSettings', () => {
         autoSkipDuration: 20,
         defaultThresholdDb: -40,
         minSilenceDuration: 0.6,
-        silenceMargin: 0.2
+        silenceMargin: 0.2,
+        timestampGranularity: 'segment',
+        templatePath: '',
+        customFrontmatter: '',
+        tags: 'transcription',
+        audioFilenamePattern: 'YYYY-MM-DD_HHmmss',
+        transcriptFilenamePattern: 'YYYY-MM-DD_HHmmss[_transcription]',
+        outputMode: 'new-note',
+        diarization: false,
+        postProcessEnabled: false,
+        postProcessApiUrl: 'https://api.openai.com/v1/chat/completions',
+        postProcessApiKey: '',
+        postProcessModel: 'gpt-4o-mini',
+        postProcessPresets: [],
+        maxRetries: 3,
+        retryBaseDelay: 2,
+        profiles: [],
+        folderProfiles: [],
+        translationLanguage: '',
+        translationOutput: 'both',
+        glossary: '',
+        glossaryNotePath: '',
+        previousChunkPrompt: true,
+        noteContextPrompt: false,
+        recordingPartMinutes: 0,
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        captureSystemAudio: false,
+        silenceThresholdDb: -50,
+        autoPauseSeconds: 0,
+        autoStopMinutes: 0
       }
     };
 
@@ -141,6 +256,29 @@ describe('PluginSettings', () => {
       expect(imported.apiKey).toBe('my-secret-key');
     });
 
+    it('プロファイルのAPI Keyは同じIDのプロファイルから引き継ぐ', () => {
+      const profile = {
+        id: 'profile_1', name: 'Local', provider: 'openai' as const,
+        apiUrl: 'https://api.openai.com/v1/audio/transcriptions', model: 'whisper-1', language: 'en', initialPrompt: ''
+      };
+      const imported = importSettings(
+        { ...exported, settings: { ...exported.settings, profiles: [profile, { ...profile, id: 'profile_2' }] } },
+        { ...currentSettings, profiles: [{ ...profile, name: 'Old', apiKey: 'sk-profile' }] }
+      );
+      expect(imported.profiles.map(p => [p.name, p.apiKey])).toEqual([['Local', 'sk-profile'], ['Local', '']]);
+    });
+
+    it('プロファイルを含まない設定をインポートしても現在のプロファイルを維持する', () => {
+      const current = { ...currentSettings, profiles: [{
+        id: 'profile_1', name: 'Local', provider: 'openai' as const, apiKey: 'sk-profile',
+        apiUrl: 'https://api.openai.com/v1/audio/transcriptions', model: 'whisper-1', language: 'en', initialPrompt: ''
+      }] };
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { profiles: _profiles, ...legacy } = exported.settings;
+      const imported = importSettings({ ...exported, settings: legacy }, current);
+      expect(imported.profiles).toEqual(current.profiles);
+    });
+
     it('エクスポートした設定をインポートする', () => {
       const imported = importSettings(exported, currentSettings);
       expect(imported.apiUrl).toBe('https://custom.api.com/v1/transcriptions');
@@ -171,7 +309,38 @@ describe('PluginSettings', () => {
           autoSkipDuration: 20,
           defaultThresholdDb: -40,
           minSilenceDuration: 0.6,
-          silenceMargin: 0.2
+          silenceMargin: 0.2,
+          timestampGranularity: 'segment',
+          templatePath: '',
+          customFrontmatter: '',
+          tags: 'transcription',
+          audioFilenamePattern: 'YYYY-MM-DD_HHmmss',
+          transcriptFilenamePattern: 'YYYY-MM-DD_HHmmss[_transcription]',
+          outputMode: 'new-note',
+          diarization: false,
+          postProcessEnabled: false,
+          postProcessApiUrl: 'https://api.openai.com/v1/chat/completions',
+          postProcessApiKey: '',
+          postProcessModel: 'gpt-4o-mini',
+          postProcessPresets: [],
+          maxRetries: 3,
+          retryBaseDelay: 2,
+          profiles: [],
+          folderProfiles: [],
+          translationLanguage: '',
+          translationOutput: 'both',
+          glossary: '',
+          glossaryNotePath: '',
+          previousChunkPrompt: true,
+          noteContextPrompt: false,
+          recordingPartMinutes: 0,
+          echoCancellation: true,
+          noiseSuppression: true,
+          autoGainControl: true,
+          captureSystemAudio: false,
+          silenceThresholdDb: -50,
+          autoPauseSeconds: 0,
+          autoStopMinutes: 0
         }
       };
       const imported = importSettings(partialExport, currentSettings);
@@ -182,6 +351,7 @@ describe('PluginSettings', () => {
 
   describe('validateSettings', () => {
     const validSettings: PluginSettings = {
+      provider: 'openai',
       apiKey: 'sk-test-api-key',
       apiUrl: 'https://api.openai.com/v1/audio/transcriptions',
       model: 'whisper-1',
@@ -196,7 +366,38 @@ describe('PluginSettings', () => {
       autoSkipDuration: 20,
       defaultThresholdDb: -40,
       minSilenceDuration: 0.6,
-      silenceMargin: 0.2
+      silenceMargin: 0.2,
+      timestampGranularity: 'segment',
+      templatePath: '',
+      customFrontmatter: '',
+      tags: 'transcription',
+      audioFilenamePattern: 'YYYY-MM-DD_HHmmss',
+      transcriptFilenamePattern: 'YYYY-MM-DD_HHmmss[_transcription]',
+      outputMode: 'new-note',
+      diarization: false,
+      postProcessEnabled: false,
+      postProcessApiUrl: 'https://api.openai.com/v1/chat/completions',
+      postProcessApiKey: '',
+      postProcessModel: 'gpt-4o-mini',
+      postProcessPresets: [],
+      maxRetries: 3,
+      retryBaseDelay: 2,
+      profiles: [],
+      folderProfiles: [],
+      translationLanguage: '',
+      translationOutput: 'both',
+      glossary: '',
+      glossaryNotePath: '',
+      previousChunkPrompt: true,
+      noteContextPrompt: false,
+      recordingPartMinutes: 0,
+      echoCancellation: true,
+      noiseSuppression: true,
+      autoGainControl: true,
+      captureSystemAudio: false,
+      silenceThresholdDb: -50,
+      autoPauseSeconds: 0,
+      autoStopMinutes: 0
     };
 
     it('有効な設定でエラーなし', () => {
@@ -210,12 +411,34 @@ describe('PluginSettings', () => {
       expect(errors).toContain('API Key is required');
     });
 
+    it('whisper.cppではAPI Keyとモデルが空でもエラーなし', () => {
+      const settings: PluginSettings = { ...validSettings, provider: 'whisper-cpp', apiKey: '', model: '' };
+      const errors = validateSettings(settings);
+      expect(errors).toHaveLength(0);
+    });
+
     it('無効なAPI URLでエラー', () => {
       const settings = { ...validSettings, apiUrl: 'not-a-valid-url' };
       const errors = validateSettings(settings);
       expect(errors).toContain('Invalid API URL format');
     });
 
+    it('プロファイルの無効なAPI URLでエラー', () => {
+      const settings = { ...validSettings, profiles: [{
+        id: 'profile_1', name: 'Local', provider: 'whisper-cpp' as const, apiKey: '',
+        apiUrl: 'localhost', model: '', language: 'en', initialPrompt: ''
+      }] };
+      const errors = validateSettings(settings);
+      expect(errors).toContain('Invalid API URL format in profile "Local"');
+    });
+
+    it('後処理が有効な場合のみ後処理のURLを検証する', () => {
+      const settings = { ...validSettings, postProcessApiUrl: 'not-a-valid-url' };
+      expect(validateSettings(settings)).toHaveLength(0);
+      expect(validateSettings({ ...settings, postProcessEnabled: true }))
+        .toContain('Invalid post-processing API URL format');
+    });
+
     it('モデルが空の場合エラー', () => {
       const settings = { ...validSettings, model: '' };
       const errors = validateSettings(settings);
@@ -252,6 +475,18 @@ describe('PluginSettings', () => {
       expect(errors).toContain('Chunk size must be between 1 and 24 MB');
     });
 
+    it('録音を分割する間隔が範囲外でエラー', () => {
+      const errors = validateSettings({ ...validSettings, recordingPartMinutes: -1 });
+      expect(errors).toContain('Recording part length must be between 0 and 600 minutes');
+    });
+
+    it('無音の自動一時停止・自動停止の設定が範囲外でエラー', () => {
+      const errors = validateSettings({ ...validSettings, silenceThresholdDb: -70, autoPauseSeconds: 61, autoStopMinutes: -1 });
+      expect(errors).toContain('Silence threshold must be between -60 and -10 dB');
+      expect(errors).toContain('Auto pause must be between 0 and 60 seconds');
+      expect(errors).toContain('Auto stop must be between 0 and 120 minutes');
+    });
+
     it('チャンクサイズが24MB超でエラー', () => {
       const settings = { ...validSettings, chunkSizeMB: 25 };
       const errors = validateSettings(settings);
@@ -0,0 +1,110 @@
+// PostProcessor モジュールのテスト
+
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import {
+  PostProcessor,
+  formatTranscriptForPrompt,
+  DEFAULT_POST_PROCESS_URL,
+  type PostProcessConfig
+} from '../postprocess/PostProcessor';
+import type { TranscriptionResult } from '../api/TranscriptionService';
+import { MalformedResponseError } from '../api/errors';
+
+const config: PostProcessConfig = {
+  apiUrl: 'http://localhost:11434/v1/chat/completions',
+  apiKey: '',
+  model: 'llama3',
+  timeout: 60000,
+  presets: [
+    { id: 'summary', name: 'Summary', prompt: 'Summarize.', enabled: true },
+    { id: 'cleanup', name: 'Clean', prompt: 'Clean up.', enabled: false },
+    { id: 'action_items', name: 'Action Items', prompt: 'Extract tasks.', enabled: true },
+    { id: 'empty', name: 'Empty', prompt: '  ', enabled: true }
+  ]
+};
+
+const result: TranscriptionResult = { text: '今日は会議です。', segments: [], duration: 5, language: 'ja' };
+
+// Chat Completions のレスポンスを返すモック
+const completion = (content: string): { ok: boolean; json: () => Promise<unknown> } => ({
+  ok: true,
+  json: async () => ({ choices: [{ message: { role: 'assistant', content } }] })
+});
+
+describe('formatTranscriptForPrompt', () => {
+  it('話者がなければ全文をそのまま使う', () => {
+    expect(formatTranscriptForPrompt(result)).toBe('今日は会議です。');
+  });
+
+  it('話者があれば「話者: 発言」の形式にする', () => {
+    const text = formatTranscriptForPrompt({
+      ...result,
+      segments: [
+        { start: 0, end: 1, text: 'はい。', speaker: '田中' },
+        { start: 1, end: 2, text: 'そうです。', speaker: '田中' },
+        { start: 2, end: 3, text: '了解。', speaker: '鈴木' }
+      ]
+    });
+    expect(text).toBe('田中: はい。そうです。\n鈴木: 了解。');
+  });
+});
+
+describe('PostProcessor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('有効でプロンプトのあるプリセットのみ対象にする', () => {
+    const ids = new PostProcessor(config).getEnabledPresets().map(preset => preset.id);
+    expect(ids).toEqual(['summary', 'action_items']);
+  });
+
+  it('プリセットを順に実行し、セクションとして返す', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce(completion(' 要約です。\n'))
+      .mockResolvedValueOnce(completion('- [ ] 資料を送る'));
+    const onPreset = vi.fn();
+
+    const outputs = await new PostProcessor(config).process(result, onPreset);
+
+    expect(outputs).toEqual([
+      { id: 'summary', name: 'Summary', content: '要約です。' },
+      { id: 'action_items', name: 'Action Items', content: '- [ ] 資料を送る' }
+    ]);
+    expect(onPreset).toHaveBeenNthCalledWith(2, expect.objectContaining({ id: 'action_items' }), 1, 2);
+
+    const [url, options] = (global.fetch as Mock).mock.calls[0];
+    const body = JSON.parse(options.body);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(body.model).toBe('llama3');
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages[0].content).toContain('Summarize.');
+    expect(body.messages[1]).toEqual({ role: 'user', content: '今日は会議です。' });
+    // API Keyが空ならAuthorizationヘッダーを送らない
+    expect(options.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('API KeyがあればBearerトークンを送る', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce(completion('ok'));
+
+    await new PostProcessor({ ...config, apiUrl: DEFAULT_POST_PROCESS_URL, apiKey: 'sk-test' }).complete('p', 't');
+
+    expect((global.fetch as Mock).mock.calls[0][1].headers.Authorization).toBe('Bearer sk-test');
+  });
+
+  it('エラーレスポンスはエラーにする', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: async () => ({ error: { message: 'Invalid API key' } })
+    });
+
+    await expect(new PostProcessor(config).process(result)).rejects.toThrow('Invalid API key');
+  });
+
+  it('応答にテキストがなければエラーにする', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: true, json: async () => ({ choices: [] }) });
+
+    await expect(new PostProcessor(config).complete('p', 't')).rejects.toBeInstanceOf(MalformedResponseError);
+  });
+});
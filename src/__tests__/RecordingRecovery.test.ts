@@ -0,0 +1,151 @@
+// 中断された録音の復元のテスト
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { RecordingRecovery, parseFragmentName, groupFragments } from '../recorder/RecordingRecovery';
+
+// 一時ファイルのフォルダを持つモックアダプター
+const createMockAdapter = (folders: Record<string, Record<string, string>>) => {
+  const files = new Map<string, string>();
+  for (const [folder, contents] of Object.entries(folders)) {
+    for (const [name, content] of Object.entries(contents)) {
+      files.set(`${folder}/${name}`, content);
+    }
+  }
+  return {
+    files,
+    exists: vi.fn(async (path: string) => files.has(path) || path in folders || path === 'recordings/.recording'),
+    list: vi.fn(async (path: string) => ({
+      files: [...files.keys()].filter(file => file.slice(0, file.lastIndexOf('/')) === path),
+      folders: path === 'recordings/.recording' ? Object.keys(folders) : []
+    })),
+    stat: vi.fn(async (path: string) => ({ type: 'file', size: files.get(path)?.length ?? 0, ctime: 0, mtime: 0 })),
+    read: vi.fn(async (path: string) => files.get(path) ?? ''),
+    readBinary: vi.fn(async (path: string) => new Blob([files.get(path) ?? '']).arrayBuffer()),
+    rmdir: vi.fn(async (path: string) => {
+      for (const file of [...files.keys()]) {
+        if (file.startsWith(`${path}/`)) files.delete(file);
+      }
+      delete folders[path];
+    })
+  };
+};
+
+describe('parseFragmentName', () => {
+  it('断片ファイル名からパートと連番を取得する', () => {
+    expect(parseFragmentName('recordings/.recording/1/part2-0013.webm')).toEqual({ part: 1, sequence: 13 });
+    expect(parseFragmentName('recordings/.recording/1/recording.json')).toBeNull();
+  });
+});
+
+describe('groupFragments', () => {
+  it('パートごとに連番順に並べる', () => {
+    expect(groupFragments([
+      'a/part2-0001.webm',
+      'a/part1-0010.webm',
+      'a/recording.json',
+      'a/part1-0002.webm'
+    ])).toEqual([
+      ['a/part1-0002.webm', 'a/part1-0010.webm'],
+      ['a/part2-0001.webm']
+    ]);
+  });
+
+  it('断片がないパートは空にする', () => {
+    expect(groupFragments(['a/part3-0001.webm'])).toEqual([[], [], ['a/part3-0001.webm']]);
+  });
+});
+
+describe('RecordingRecovery', () => {
+  let adapter: ReturnType<typeof createMockAdapter>;
+  let recovery: RecordingRecovery;
+
+  beforeEach(() => {
+    adapter = createMockAdapter({
+      'recordings/.recording/200': {
+        'part1-0001.webm': 'ab',
+        'part1-0002.webm': 'c',
+        'part2-0001.webm': 'de',
+        'recording.json': JSON.stringify({ startedAt: 200, partDurations: [600, 30.5] })
+      },
+      'recordings/.recording/100': {
+        'part1-0001.webm': 'x'
+      },
+      'recordings/.recording/empty': {}
+    });
+    recovery = new RecordingRecovery(adapter as never, 'recordings/.recording');
+  });
+
+  it('残っている一時ファイルを中断された録音として古い順に返す', async () => {
+    const recordings = await recovery.find();
+
+    expect(recordings.map(recording => recording.folder)).toEqual([
+      'recordings/.recording/100',
+      'recordings/.recording/200'
+    ]);
+    expect(recordings[1]).toEqual({
+      folder: 'recordings/.recording/200',
+      parts: [
+        ['recordings/.recording/200/part1-0001.webm', 'recordings/.recording/200/part1-0002.webm'],
+        ['recordings/.recording/200/part2-0001.webm']
+      ],
+      startedAt: 200,
+      duration: 630.5,
+      partDurations: [600, 30.5],
+      mimeType: 'audio/webm',
+      size: 5
+    });
+  });
+
+  it('録音の情報がない場合は開始日時を null、録音時間を 0 にする', async () => {
+    const [recording] = await recovery.find();
+
+    expect(recording.startedAt).toBeNull();
+    expect(recording.duration).toBe(0);
+  });
+
+  it('録音の情報が壊れている場合も録音データは返す', async () => {
+    adapter.files.set('recordings/.recording/200/recording.json', '{"startedAt": 2');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const recordings = await recovery.find();
+
+    expect(recordings).toHaveLength(2);
+    expect(recordings.every(recording => recording.startedAt === null)).toBe(true);
+  });
+
+  it('断片ファイルがないフォルダは削除する', async () => {
+    await recovery.find();
+
+    expect(adapter.rmdir).toHaveBeenCalledWith('recordings/.recording/empty', true);
+  });
+
+  it('一時フォルダがない場合は空を返す', async () => {
+    recovery = new RecordingRecovery(adapter as never, 'other/.recording');
+
+    expect(await recovery.find()).toEqual([]);
+  });
+
+  it('パートの断片を連番順に連結して読み込む', async () => {
+    const recording = (await recovery.find())[1];
+
+    const blob = await recovery.readPart(recording, 0);
+    expect(await blob.text()).toBe('abc');
+    expect(blob.type).toBe('audio/webm');
+    expect(await (await recovery.readPart(recording, 1)).text()).toBe('de');
+  });
+
+  it('録音の情報にある形式で読み込む', async () => {
+    adapter.files.set('recordings/.recording/200/recording.json', JSON.stringify({ startedAt: 200, mimeType: 'audio/mp4' }));
+    const recording = (await recovery.find())[1];
+
+    expect(recording.mimeType).toBe('audio/mp4');
+    expect((await recovery.readPart(recording, 0)).type).toBe('audio/mp4');
+  });
+
+  it('一時ファイルのフォルダを削除する', async () => {
+    await recovery.remove('recordings/.recording/200');
+
+    expect(adapter.rmdir).toHaveBeenCalledWith('recordings/.recording/200', true);
+    expect([...adapter.files.keys()].some(path => path.startsWith('recordings/.recording/200/'))).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+// 録音データの保存先のテスト
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MemoryRecordingSink, FileRecordingSink } from '../recorder/RecordingSink';
+
+// 書き込んだファイルを保持するモックアダプター
+const createMockAdapter = () => {
+  const files = new Map<string, ArrayBuffer>();
+  const texts = new Map<string, string>();
+  return {
+    files,
+    texts,
+    exists: vi.fn(async (path: string) => path === 'recordings/.recording/1' && files.size > 0),
+    mkdir: vi.fn().mockResolvedValue(undefined),
+    writeBinary: vi.fn(async (path: string, data: ArrayBuffer) => {
+      files.set(path, data);
+    }),
+    write: vi.fn(async (path: string, data: string) => {
+      texts.set(path, data);
+    }),
+    readBinary: vi.fn(async (path: string) => files.get(path) ?? new ArrayBuffer(0)),
+    rmdir: vi.fn(async () => {
+      files.clear();
+    })
+  };
+};
+
+// 書き込んだファイルの内容をテキストとして取得
+const readFile = (adapter: ReturnType<typeof createMockAdapter>, path: string): Promise<string> =>
+  new Blob([adapter.files.get(path) ?? new ArrayBuffer(0)]).text();
+
+describe('MemoryRecordingSink', () => {
+  it('パートごとに録音データを保持する', async () => {
+    const sink = new MemoryRecordingSink();
+    await sink.write(0, new Blob(['a']));
+    await sink.write(1, new Blob(['b']));
+    await sink.write(0, new Blob(['c']));
+
+    expect(await (await sink.readPart(0, 'audio/webm')).text()).toBe('ac');
+    expect((await sink.readPart(1, 'audio/webm')).type).toBe('audio/webm');
+
+    await sink.remove();
+    expect((await sink.readPart(0, 'audio/webm')).size).toBe(0);
+  });
+});
+
+describe('FileRecordingSink', () => {
+  let adapter: ReturnType<typeof createMockAdapter>;
+  let sink: FileRecordingSink;
+
+  beforeEach(() => {
+    adapter = createMockAdapter();
+    sink = new FileRecordingSink(adapter as never, 'recordings/.recording/1', 10000);
+  });
+
+  it('書き出し間隔ごとに未書き出しのデータを断片ファイルに書き出す', async () => {
+    await sink.write(0, new Blob(['a']), 0);
+    await sink.write(0, new Blob(['b']), 5000);
+    expect(adapter.writeBinary).not.toHaveBeenCalled();
+
+    await sink.write(0, new Blob(['c']), 10000);
+
+    expect(adapter.mkdir).toHaveBeenCalledWith('recordings/.recording/1');
+    expect([...adapter.files.keys()]).toEqual(['recordings/.recording/1/part1-0001.webm']);
+    expect(await readFile(adapter, 'recordings/.recording/1/part1-0001.webm')).toBe('abc');
+  });
+
+  it('パートの終了時に残りを書き出し、断片を連結して読み込む', async () => {
+    await sink.write(0, new Blob(['a']), 0);
+    await sink.write(0, new Blob(['b']), 10000);
+    await sink.write(0, new Blob(['c']), 11000);
+    await sink.write(1, new Blob(['d']), 12000);
+    await sink.endPart(0);
+
+    expect([...adapter.files.keys()]).toEqual([
+      'recordings/.recording/1/part1-0001.webm',
+      'recordings/.recording/1/part1-0002.webm'
+    ]);
+    // 書き出し前のデータも含める
+    expect(await (await sink.readPart(0, 'audio/webm')).text()).toBe('abc');
+    expect(await (await sink.readPart(1, 'audio/webm')).text()).toBe('d');
+  });
+
+  it('断片を書き出すたびに録音の情報を書き出す', async () => {
+    sink = new FileRecordingSink(adapter as never, 'recordings/.recording/1', 10000, 1700000000000);
+    await sink.write(0, new Blob(['a']), 0);
+    sink.setPartDurations([600, 12.5]);
+    expect(adapter.write).not.toHaveBeenCalled();
+
+    await sink.endPart(0);
+
+    expect(JSON.parse(adapter.texts.get('recordings/.recording/1/recording.json') ?? '')).toEqual({
+      startedAt: 1700000000000,
+      partDurations: [600, 12.5]
+    });
+  });
+
+  it('録音の形式を録音の情報に書き出す', async () => {
+    sink = new FileRecordingSink(adapter as never, 'recordings/.recording/1', 10000, 1700000000000);
+    sink.setMimeType('audio/mp4');
+    await sink.write(0, new Blob(['a']), 0);
+
+    await sink.endPart(0);
+
+    expect(JSON.parse(adapter.texts.get('recordings/.recording/1/recording.json') ?? '').mimeType).toBe('audio/mp4');
+  });
+
+  it('書き出しに失敗したデータは次の書き出しで再試行する', async () => {
+    adapter.writeBinary.mockRejectedValueOnce(new Error('disk full'));
+    await sink.write(0, new Blob(['a']), 0);
+
+    await expect(sink.write(0, new Blob(['b']), 10000)).rejects.toThrow('disk full');
+    await sink.endPart(0);
+
+    expect(await readFile(adapter, 'recordings/.recording/1/part1-0001.webm')).toBe('ab');
+  });
+
+  it('破棄すると一時ファイルのフォルダを削除する', async () => {
+    await sink.write(0, new Blob(['a']), 0);
+    await sink.endPart(0);
+
+    await sink.remove();
+
+    expect(adapter.rmdir).toHaveBeenCalledWith('recordings/.recording/1', true);
+    expect((await sink.readPart(0, 'audio/webm')).size).toBe(0);
+  });
+});
@@ -16,7 +16,8 @@ const createMockVault = () => ({
     exists: vi.fn().mockResolvedValue(false),
     mkdir: vi.fn().mockResolvedValue(undefined),
     write: vi.fn().mockResolvedValue(undefined),
-    writeBinary: vi.fn().mockResolvedValue(undefined)
+    writeBinary: vi.fn().mockResolvedValue(undefined),
+    read: vi.fn().mockResolvedValue('')
   },
   getAbstractFileByPath: vi.fn().mockReturnValue(null),
   create: vi.fn().mockResolvedValue({ path: 'test.md' }),
@@ -33,7 +34,12 @@ describe('StorageService', () => {
     mockVault = createMockVault();
     mockConfig = {
       audioFolder: 'recordings',
-      transcriptFolder: 'transcripts'
+      transcriptFolder: 'transcripts',
+      templatePath: '',
+      customFrontmatter: '',
+      tags: 'transcription',
+      audioFilenamePattern: 'YYYY-MM-DD_HHmmss',
+      transcriptFilenamePattern: 'YYYY-MM-DD_HHmmss[_transcription]'
     };
     service = new StorageService(mockVault as unknown as StorageService['vault'], mockConfig);
     vi.clearAllMocks();
@@ -70,6 +76,36 @@ describe('StorageService', () => {
       expect(result.duration).toBe(90);
     });
 
+    it('ファイル名パターンのサブフォルダとタイトルを反映する', async () => {
+      service.updateConfig({ audioFilenamePattern: 'YYYY/MM/YYYY-MM-DD_{{title}}' });
+      const mockBlob = new Blob(['test'], { type: 'audio/webm' });
+
+      const result = await service.saveAudio(mockBlob, 60, { title: '定例会議' });
+
+      expect(result.path).toMatch(/^recordings\/\d{4}\/\d{2}\/\d{4}-\d{2}-\d{2}_定例会議\.webm$/);
+      expect(result.filename).toMatch(/^\d{4}-\d{2}-\d{2}_定例会議\.webm$/);
+      expect(mockVault.createFolder).toHaveBeenCalledWith(expect.stringMatching(/^recordings\/\d{4}\/\d{2}$/));
+    });
+
+    it('パート番号を指定するとファイル名に _part{n} を付ける', async () => {
+      const result = await service.saveAudio(new Blob(['test'], { type: 'audio/webm' }), 60, {}, 2);
+
+      expect(result.filename).toMatch(/^\d{4}-\d{2}-\d{2}_\d{6}_part2\.webm$/);
+    });
+
+    it('録音の形式に合わせた拡張子で保存する', async () => {
+      const result = await service.saveAudio(new Blob(['test'], { type: 'audio/mp4' }), 60);
+
+      expect(result.filename).toMatch(/^\d{4}-\d{2}-\d{2}_\d{6}\.m4a$/);
+    });
+
+    it('日付を指定するとその日時でファイル名を作る', async () => {
+      const date = new Date(2026, 1, 10, 14, 30, 52);
+      const result = await service.saveAudio(new Blob(['test'], { type: 'audio/webm' }), 60, {}, undefined, date);
+
+      expect(result.filename).toBe('2026-02-10_143052.webm');
+    });
+
     it('フォルダが存在しない場合は作成される', async () => {
       mockVault.adapter.exists.mockResolvedValue(false);
       const mockBlob = new Blob(['test'], { type: 'audio/webm' });
@@ -128,6 +164,412 @@ describe('StorageService', () => {
       expect(content).toContain('language: ja');
       expect(content).toContain('model: whisper-1');
     });
+
+    it('セグメントはタイムスタンプ付きで出力され、単語があれば最初の単語の開始時間を使う', async () => {
+      const result: TranscriptionResult = {
+        text: '前半 後半',
+        segments: [
+          { start: 0, end: 5, text: '前半' },
+          { start: 5, end: 70, text: '後半', words: [{ start: 62.4, end: 63, word: '後半' }] }
+        ],
+        duration: 70,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'whisper-1',
+        duration: 70,
+        audioFile: 'recordings/2026-02-10_143052.webm'
+      };
+
+      await service.saveTranscript(result, metadata);
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain('[00:00:00](recordings/2026-02-10_143052.webm) 前半');
+      expect(content).toContain('[00:01:02](recordings/2026-02-10_143052.webm) 後半');
+    });
+
+    it('空白を含む音声パスは山括弧で囲む', async () => {
+      const result: TranscriptionResult = {
+        text: 'テスト',
+        segments: [{ start: 0, end: 5, text: 'テスト' }],
+        duration: 5,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'whisper-1',
+        duration: 5,
+        audioFile: 'my recordings/2026-02-10_143052.webm'
+      };
+
+      await service.saveTranscript(result, metadata);
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain('[00:00:00](<my recordings/2026-02-10_143052.webm>) テスト');
+    });
+
+    it('文字起こしファイル名に言語とタイトルを使える', async () => {
+      service.updateConfig({ transcriptFilenamePattern: '{{title}} ({{language}})' });
+      const result: TranscriptionResult = {
+        text: 'テスト',
+        segments: [],
+        duration: 5,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'whisper-1',
+        duration: 5,
+        audioFile: 'recordings/a.webm',
+        title: '定例会議'
+      };
+
+      const path = await service.saveTranscript(result, metadata);
+
+      expect(path).toBe('transcripts/定例会議 (ja).md');
+    });
+
+    it('テンプレート未指定ではデフォルト形式で出力する', async () => {
+      const result: TranscriptionResult = {
+        text: 'こんにちは',
+        segments: [{ start: 90, end: 95, text: 'こんにちは' }],
+        duration: 95,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'whisper-1',
+        duration: 95,
+        audioFile: 'recordings/a.webm'
+      };
+
+      await service.saveTranscript(result, metadata);
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toBe(
+        '---\n' +
+        'date: 2026-02-10T14:30:52+09:00\n' +
+        'language: ja\n' +
+        'model: whisper-1\n' +
+        'duration: 95\n' +
+        'audio_file: "[[recordings/a.webm]]"\n' +
+        'tags:\n' +
+        '  - transcription\n' +
+        '---\n' +
+        '\n' +
+        '[00:01:30](recordings/a.webm) こんにちは\n\n'
+      );
+    });
+
+    it('テンプレートファイル・追加フロントマター・タグを反映する', async () => {
+      service.updateConfig({
+        templatePath: 'templates/meeting',
+        customFrontmatter: 'type: meeting\nlength: {{duration_formatted}}',
+        tags: 'transcription, meeting'
+      });
+      mockVault.adapter.exists.mockResolvedValue(true);
+      mockVault.adapter.read.mockResolvedValue(
+        '{{frontmatter}}\n# 会議メモ\n\n{{audio_embed}}\n\n{{#segments}}- **{{time}}** {{text}}\n{{/segments}}'
+      );
+
+      const result: TranscriptionResult = {
+        text: 'A B',
+        segments: [
+          { start: 0, end: 5, text: 'A' },
+          { start: 65, end: 70, text: 'B' }
+        ],
+        duration: 70,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'whisper-1',
+        duration: 70,
+        audioFile: 'recordings/a.webm'
+      };
+
+      await service.saveTranscript(result, metadata);
+
+      expect(mockVault.adapter.read).toHaveBeenCalledWith('templates/meeting.md');
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain('type: meeting\nlength: 00:01:10\ntags:\n  - transcription\n  - meeting\n---\n');
+      expect(content).toContain('# 会議メモ\n\n![[recordings/a.webm]]\n\n- **00:00:00** A\n- **00:01:05** B\n');
+    });
+
+    it('テンプレートファイルが見つからない場合はデフォルト形式で出力する', async () => {
+      service.updateConfig({ templatePath: 'templates/missing.md' });
+      mockVault.adapter.exists.mockResolvedValue(false);
+
+      const result: TranscriptionResult = {
+        text: 'テキストのみ',
+        segments: [],
+        duration: 5,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'whisper-1',
+        duration: 5,
+        audioFile: 'recordings/a.webm'
+      };
+
+      await service.saveTranscript(result, metadata);
+
+      expect(mockVault.adapter.read).not.toHaveBeenCalled();
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content.endsWith('---\n\nテキストのみ')).toBe(true);
+    });
+  });
+
+  describe('話者分離', () => {
+    it('デフォルト形式では話者の交代ごとにまとめて出力する', async () => {
+      const result: TranscriptionResult = {
+        text: 'はい。そうです。いいえ。',
+        segments: [
+          { start: 0, end: 2, text: 'はい。', speaker: '田中' },
+          { start: 2, end: 4, text: 'そうです。', speaker: '田中' },
+          { start: 65, end: 67, text: 'いいえ。', speaker: 'Speaker 2' }
+        ],
+        duration: 67,
+        language: 'ja'
+      };
+      const metadata: TranscriptMetadata = {
+        date: '2026-02-10T14:30:52+09:00',
+        language: 'ja',
+        model: 'nova-2',
+        duration: 67,
+        audioFile: 'recordings/a.webm'
+      };
+
+      await service.saveTranscript(result, metadata);
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain('speakers:\n  - "田中"\n  - "Speaker 2"\n');
+      expect(content.endsWith(
+        '---\n\n' +
+        '**田中** [00:00:00](recordings/a.webm)\nはい。そうです。\n\n' +
+        '**Speaker 2** [00:01:05](recordings/a.webm)\nいいえ。\n\n'
+      )).toBe(true);
+    });
+
+    it('テンプレートでセグメントごとの話者を参照できる', async () => {
+      service.updateConfig({ templatePath: 'templates/speakers.md' });
+      mockVault.adapter.exists.mockResolvedValue(true);
+      mockVault.adapter.read.mockResolvedValue('{{speakers}}\n{{#segments}}- {{speaker}}: {{text}}\n{{/segments}}');
+
+      await service.saveTranscript(
+        {
+          text: '',
+          segments: [
+            { start: 0, end: 1, text: 'A', speaker: '田中' },
+            { start: 1, end: 2, text: 'B', speaker: '鈴木' }
+          ],
+          duration: 2,
+          language: 'ja'
+        },
+        { date: '2026-02-10T14:30:52+09:00', language: 'ja', model: 'm', duration: 2, audioFile: 'a.webm' }
+      );
+
+      expect(mockVault.create.mock.calls[0][1]).toBe('田中, 鈴木\n- 田中: A\n- 鈴木: B\n');
+    });
+  });
+
+  describe('言語の自動検出', () => {
+    it('チャンクごとの言語をフロントマターに出力し、異なる言語のセグメントに言語を付ける', async () => {
+      await service.saveTranscript(
+        {
+          text: 'Hello こんにちは',
+          segments: [
+            { start: 0, end: 1, text: 'Hello', language: 'en' },
+            { start: 1, end: 2, text: 'こんにちは', language: 'ja' }
+          ],
+          duration: 2,
+          language: 'ja',
+          chunkLanguages: ['en', 'ja']
+        },
+        { date: '2026-02-10T14:30:52+09:00', language: 'ja', model: 'whisper-1', duration: 2, audioFile: 'recordings/a.webm' }
+      );
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain('chunk_languages:\n  - en\n  - ja\ntags:');
+      expect(content.endsWith(
+        '---\n\n' +
+        '[00:00:00](recordings/a.webm) [en] Hello\n\n' +
+        '[00:00:01](recordings/a.webm) こんにちは\n\n'
+      )).toBe(true);
+    });
+  });
+
+  describe('録音パート', () => {
+    const metadata: TranscriptMetadata = {
+      date: '2026-02-10T14:30:52+09:00',
+      language: 'ja',
+      model: 'whisper-1',
+      duration: 1800,
+      audioFile: 'recordings/a_part1.webm',
+      audioParts: ['recordings/a_part1.webm', 'recordings/a_part2.webm']
+    };
+
+    it('すべてのパートをフロントマターに出力し、タイムスタンプはパートの音声ファイルとパート内の時間にする', async () => {
+      await service.saveTranscript(
+        {
+          text: '前半\n後半',
+          segments: [
+            { start: 10, end: 20, text: '前半' },
+            { start: 905, end: 910, text: '後半' }
+          ],
+          duration: 1800,
+          language: 'ja',
+          partStarts: [0, 900]
+        },
+        metadata
+      );
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain(
+        'audio_file: "[[recordings/a_part1.webm]]"\n' +
+        'audio_parts:\n  - "[[recordings/a_part1.webm]]"\n  - "[[recordings/a_part2.webm]]"\n'
+      );
+      expect(content.endsWith(
+        '---\n\n' +
+        '[00:00:10](recordings/a_part1.webm) 前半\n\n' +
+        '[00:00:05](recordings/a_part2.webm) 後半\n\n'
+      )).toBe(true);
+    });
+
+    it('既存ノートへの挿入ではすべてのパートを埋め込む', async () => {
+      const content = await service.generateInsertContent(
+        { text: '本文', segments: [], duration: 1800, language: 'ja', partStarts: [0, 900] },
+        metadata
+      );
+
+      expect(content.startsWith('![[recordings/a_part1.webm]]\n![[recordings/a_part2.webm]]\n\n')).toBe(true);
+    });
+  });
+
+  describe('翻訳', () => {
+    const metadata: TranscriptMetadata = {
+      date: '2026-02-10T14:30:52+09:00', language: 'ja', model: 'whisper-1', duration: 5, audioFile: 'recordings/a.webm'
+    };
+
+    it('デフォルト形式では各セグメントの下に翻訳を引用で並べる', async () => {
+      await service.saveTranscript(
+        {
+          text: 'こんにちは。',
+          segments: [
+            { start: 0, end: 2, text: 'こんにちは。', translation: 'Hello.' },
+            { start: 2, end: 5, text: 'えーと', translation: '' }
+          ],
+          duration: 5,
+          language: 'ja',
+          translation: { language: 'en', text: 'Hello.' }
+        },
+        metadata
+      );
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content).toContain('translation_language: en\ntags:');
+      expect(content.endsWith(
+        '---\n\n' +
+        '[00:00:00](recordings/a.webm) こんにちは。\n> Hello.\n\n' +
+        '[00:00:02](recordings/a.webm) えーと\n\n'
+      )).toBe(true);
+    });
+
+    it('セグメントがない場合は全文の後に翻訳を出力する', async () => {
+      await service.saveTranscript(
+        { text: 'こんにちは。', segments: [], duration: 5, language: 'ja', translation: { language: 'en', text: 'Hello.' } },
+        metadata
+      );
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content.endsWith('---\n\nこんにちは。\n\n## Translation\n\nHello.')).toBe(true);
+    });
+  });
+
+  describe('後処理', () => {
+    const result: TranscriptionResult = { text: '本文', segments: [], duration: 5, language: 'ja' };
+    const metadata: TranscriptMetadata = {
+      date: '2026-02-10T14:30:52+09:00',
+      language: 'ja',
+      model: 'whisper-1',
+      duration: 5,
+      audioFile: 'recordings/a.webm',
+      sections: [
+        { id: 'summary', name: 'Summary', content: '要約です。' },
+        { id: 'action_items', name: 'Action Items', content: '- [ ] 資料を送る' }
+      ]
+    };
+
+    it('デフォルト形式ではセクションの後に元の文字起こしを出力する', async () => {
+      await service.saveTranscript(result, metadata);
+
+      const content = mockVault.create.mock.calls[0][1] as string;
+      expect(content.endsWith(
+        '---\n\n' +
+        '## Summary\n\n要約です。\n\n' +
+        '## Action Items\n\n- [ ] 資料を送る\n\n' +
+        '## Transcript\n\n本文'
+      )).toBe(true);
+    });
+
+    it('テンプレートで {{post.<id>}} を参照できる', async () => {
+      service.updateConfig({ templatePath: 'templates/post.md' });
+      mockVault.adapter.exists.mockResolvedValue(true);
+      mockVault.adapter.read.mockResolvedValue('> {{post.summary}}\n\n{{text}}');
+
+      await service.saveTranscript(result, metadata);
+
+      expect(mockVault.create.mock.calls[0][1]).toBe('> 要約です。\n\n本文');
+    });
+  });
+
+  describe('generateInsertContent', () => {
+    const metadata: TranscriptMetadata = {
+      date: '2026-02-10T14:30:52+09:00',
+      language: 'ja',
+      model: 'whisper-1',
+      duration: 70,
+      audioFile: 'recordings/a.webm'
+    };
+
+    it('フロントマターを除き、音声の埋め込みを先頭に付ける', async () => {
+      const result: TranscriptionResult = {
+        text: 'A B',
+        segments: [
+          { start: 0, end: 5, text: 'A' },
+          { start: 65, end: 70, text: 'B' }
+        ],
+        duration: 70,
+        language: 'ja'
+      };
+
+      const content = await service.generateInsertContent(result, metadata);
+
+      expect(content).toBe(
+        '![[recordings/a.webm]]\n\n' +
+        '[00:00:00](recordings/a.webm) A\n\n' +
+        '[00:01:05](recordings/a.webm) B\n'
+      );
+      expect(mockVault.create).not.toHaveBeenCalled();
+    });
+
+    it('テンプレートに音声の埋め込みがあれば重複させない', async () => {
+      service.updateConfig({ templatePath: 'templates/embed.md' });
+      mockVault.adapter.exists.mockResolvedValue(true);
+      mockVault.adapter.read.mockResolvedValue('{{frontmatter}}\n{{audio_embed}}\n{{text}}');
+
+      const content = await service.generateInsertContent({ text: '本文', segments: [], duration: 70, language: 'ja' }, metadata);
+
+      expect(content).toBe('![[recordings/a.webm]]\n本文\n');
+    });
   });
 
   describe('ensureFolder', () => {
@@ -225,4 +667,18 @@ describe('generateFrontmatter', () => {
     expect(frontmatter.startsWith('---\n')).toBe(true);
     expect(frontmatter.endsWith('---\n')).toBe(true);
   });
+
+  it('話者があればタグの前に一覧を出力する', () => {
+    const metadata: TranscriptMetadata = {
+      date: '2026-02-10T14:30:52+09:00',
+      language: 'ja',
+      model: 'whisper-1',
+      duration: 100,
+      audioFile: 'recordings/test.webm'
+    };
+
+    const frontmatter = generateFrontmatter(metadata, { speakers: ['田中', 'Speaker 2'] });
+
+    expect(frontmatter).toContain('speakers:\n  - "田中"\n  - "Speaker 2"\ntags:\n  - transcription\n---\n');
+  });
 });
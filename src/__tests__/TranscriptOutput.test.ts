@@ -0,0 +1,177 @@
+// TranscriptOutput モジュールのテスト
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TranscriptOutput, appendBlock } from '../output/TranscriptOutput';
+import type { StorageService, TranscriptMetadata } from '../storage';
+import type { TranscriptionResult } from '../api/TranscriptionService';
+
+const result: TranscriptionResult = { text: '本文', segments: [], duration: 5, language: 'ja' };
+const metadata: TranscriptMetadata = {
+  date: '2026-02-10T14:30:52+09:00',
+  language: 'ja',
+  model: 'whisper-1',
+  duration: 5,
+  audioFile: 'recordings/a.webm'
+};
+const INSERT = '![[recordings/a.webm]]\n\n本文\n';
+
+const pad = (n: number): string => n.toString().padStart(2, '0');
+const today = (): string => {
+  const d = new Date();
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+};
+
+describe('appendBlock', () => {
+  it('既存テキストの末尾に空行を挟んで追記する', () => {
+    expect(appendBlock('# メモ\n\n', '追記\n')).toBe('# メモ\n\n追記\n');
+  });
+
+  it('空のノートにはそのまま書き込む', () => {
+    expect(appendBlock('', '追記\n')).toBe('追記\n');
+  });
+});
+
+describe('TranscriptOutput', () => {
+  let storageService: {
+    saveTranscript: ReturnType<typeof vi.fn>;
+    generateInsertContent: ReturnType<typeof vi.fn>;
+    ensureFolder: ReturnType<typeof vi.fn>;
+  };
+  let files: Record<string, string>;
+  let app: {
+    workspace: {
+      activeEditor: { editor?: { replaceSelection: ReturnType<typeof vi.fn> }; file?: { path: string } } | null;
+      getActiveFile: ReturnType<typeof vi.fn>;
+    };
+    vault: {
+      getFileByPath: ReturnType<typeof vi.fn>;
+      read: ReturnType<typeof vi.fn>;
+      create: ReturnType<typeof vi.fn>;
+      process: ReturnType<typeof vi.fn>;
+    };
+    internalPlugins?: unknown;
+  };
+  let output: TranscriptOutput;
+
+  beforeEach(() => {
+    files = {};
+    storageService = {
+      saveTranscript: vi.fn().mockResolvedValue('transcripts/new.md'),
+      generateInsertContent: vi.fn().mockResolvedValue(INSERT),
+      ensureFolder: vi.fn().mockResolvedValue(undefined)
+    };
+    app = {
+      workspace: {
+        activeEditor: null,
+        getActiveFile: vi.fn().mockReturnValue(null)
+      },
+      vault: {
+        getFileByPath: vi.fn((path: string) => (path in files ? { path, extension: 'md' } : null)),
+        read: vi.fn(async (file: { path: string }) => files[file.path]),
+        create: vi.fn(async (path: string, data: string) => {
+          files[path] = data;
+          return { path, extension: 'md' };
+        }),
+        process: vi.fn(async (file: { path: string }, fn: (data: string) => string) => {
+          files[file.path] = fn(files[file.path] ?? '');
+          return files[file.path];
+        })
+      }
+    };
+    output = new TranscriptOutput(
+      app as unknown as ConstructorParameters<typeof TranscriptOutput>[0],
+      storageService as unknown as StorageService
+    );
+  });
+
+  it('new-note: 新規ノートとして保存する', async () => {
+    const written = await output.write('new-note', result, metadata, { title: '会議' });
+
+    expect(storageService.saveTranscript).toHaveBeenCalledWith(result, metadata, { title: '会議' });
+    expect(written).toEqual({ mode: 'new-note', path: 'transcripts/new.md' });
+  });
+
+  it('cursor: アクティブなエディタのカーソル位置に挿入する', async () => {
+    const replaceSelection = vi.fn();
+    app.workspace.activeEditor = { editor: { replaceSelection }, file: { path: 'notes/memo.md' } };
+
+    const written = await output.write('cursor', result, metadata);
+
+    expect(replaceSelection).toHaveBeenCalledWith(INSERT);
+    expect(storageService.saveTranscript).not.toHaveBeenCalled();
+    expect(written).toEqual({ mode: 'cursor', path: 'notes/memo.md' });
+  });
+
+  it('cursor: エディタがない場合は新規ノートにフォールバックする', async () => {
+    const written = await output.write('cursor', result, metadata);
+
+    expect(storageService.saveTranscript).toHaveBeenCalled();
+    expect(written.mode).toBe('new-note');
+  });
+
+  it('append-active: アクティブノートの末尾に追記する', async () => {
+    files['notes/memo.md'] = '# メモ\n';
+    app.workspace.getActiveFile.mockReturnValue({ path: 'notes/memo.md', extension: 'md' });
+
+    const written = await output.write('append-active', result, metadata);
+
+    expect(files['notes/memo.md']).toBe(`# メモ\n\n${INSERT}`);
+    expect(written).toEqual({ mode: 'append-active', path: 'notes/memo.md' });
+  });
+
+  it('append-active: Markdown以外のファイルには追記しない', async () => {
+    app.workspace.getActiveFile.mockReturnValue({ path: 'docs/a.pdf', extension: 'pdf' });
+
+    const written = await output.write('append-active', result, metadata);
+
+    expect(app.vault.process).not.toHaveBeenCalled();
+    expect(written.mode).toBe('new-note');
+  });
+
+  it('daily-note: デイリーノートがなければテンプレートから作成して追記する', async () => {
+    files['templates/daily.md'] = '# Daily\n';
+    app.internalPlugins = {
+      getPluginById: (id: string) => id === 'daily-notes'
+        ? { enabled: true, instance: { options: { folder: 'journal/', format: 'YYYY-MM-DD', template: 'templates/daily' } } }
+        : null
+    };
+
+    const written = await output.write('daily-note', result, metadata);
+
+    const path = `journal/${today()}.md`;
+    expect(storageService.ensureFolder).toHaveBeenCalledWith('journal');
+    expect(app.vault.create).toHaveBeenCalledWith(path, '# Daily\n');
+    expect(files[path]).toBe(`# Daily\n\n${INSERT}`);
+    expect(written).toEqual({ mode: 'daily-note', path });
+  });
+
+  it('daily-note: Vault 直下のデイリーノートはフォルダを作成せずに作成する', async () => {
+    const written = await output.write('daily-note', result, metadata);
+
+    const path = `${today()}.md`;
+    expect(storageService.ensureFolder).not.toHaveBeenCalled();
+    expect(app.vault.create).toHaveBeenCalledWith(path, '');
+    expect(files[path]).toBe(INSERT);
+    expect(written).toEqual({ mode: 'daily-note', path });
+  });
+
+  it('daily-note: 既存のデイリーノートに追記する（プラグイン無効時はデフォルト形式）', async () => {
+    const path = `${today()}.md`;
+    files[path] = '- 予定\n';
+
+    await output.write('daily-note', result, metadata);
+
+    expect(app.vault.create).not.toHaveBeenCalled();
+    expect(files[path]).toBe(`- 予定\n\n${INSERT}`);
+  });
+
+  it('clipboard: クリップボードにコピーする', async () => {
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    Object.defineProperty(navigator, 'clipboard', { value: { writeText }, configurable: true });
+
+    const written = await output.write('clipboard', result, metadata);
+
+    expect(writeText).toHaveBeenCalledWith(INSERT);
+    expect(written).toEqual({ mode: 'clipboard', path: null });
+  });
+});
@@ -0,0 +1,67 @@
+// 文字起こしテンプレートモジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import {
+  renderTemplate,
+  parseTags,
+  parseFrontmatterFields
+} from '../storage/TranscriptTemplate';
+
+describe('renderTemplate', () => {
+  it('変数を置換する', () => {
+    expect(renderTemplate('{{date}} / {{ duration }}秒', { date: '2026-02-10', duration: 90 }))
+      .toBe('2026-02-10 / 90秒');
+  });
+
+  it('未定義の変数はそのまま残す', () => {
+    expect(renderTemplate('{{title}} {{text}}', { text: '本文' })).toBe('{{title}} 本文');
+  });
+
+  it('セクションは配列の要素ごとに描画し、要素の値を優先する', () => {
+    const output = renderTemplate(
+      '{{#segments}}- {{time}} {{text}} ({{audio_file}})\n{{/segments}}',
+      {
+        text: '全文',
+        audio_file: 'a.webm',
+        segments: [
+          { time: '00:00:00', text: '一つ目' },
+          { time: '00:00:05', text: '二つ目' }
+        ]
+      }
+    );
+
+    expect(output).toBe('- 00:00:00 一つ目 (a.webm)\n- 00:00:05 二つ目 (a.webm)\n');
+  });
+
+  it('空の配列のセクションは描画せず、反転セクションを描画する', () => {
+    const template = '{{#segments}}{{text}}{{/segments}}{{^segments}}セグメントなし: {{text}}{{/segments}}';
+
+    expect(renderTemplate(template, { text: '全文', segments: [] })).toBe('セグメントなし: 全文');
+    expect(renderTemplate(template, { text: '全文', segments: [{ text: 'A' }] })).toBe('A');
+  });
+
+  it('値に含まれるプレースホルダーは再解釈しない', () => {
+    expect(renderTemplate('{{text}}', { text: '{{date}}', date: '2026' })).toBe('{{date}}');
+  });
+});
+
+describe('parseTags', () => {
+  it('カンマ区切りのタグを配列にし、先頭の # を除く', () => {
+    expect(parseTags('transcription, #meeting,, 議事録 ')).toEqual(['transcription', 'meeting', '議事録']);
+  });
+
+  it('空文字列は空配列', () => {
+    expect(parseTags('')).toEqual([]);
+  });
+});
+
+describe('parseFrontmatterFields', () => {
+  it('"key: value" 形式の行をフィールドにする', () => {
+    expect(parseFrontmatterFields('type: meeting\nattendees: [A, B]\n\ninvalid line\nurl: https://example.com'))
+      .toEqual([
+        ['type', 'meeting'],
+        ['attendees', '[A, B]'],
+        ['url', 'https://example.com']
+      ]);
+  });
+});
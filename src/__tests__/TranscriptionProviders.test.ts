@@ -0,0 +1,524 @@
+// 文字起こしプロバイダーのテスト
+
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import type { TranscriptionConfig } from '../api/TranscriptionService';
+import {
+  createProvider,
+  OpenAIProvider,
+  WhisperCppProvider,
+  DeepgramProvider,
+  AssemblyAIProvider,
+  DEFAULT_PROVIDER_URLS
+} from '../api/providers';
+import { TranscriptionCancelledError } from '../api/http';
+
+const baseConfig: TranscriptionConfig = {
+  provider: 'openai',
+  apiKey: 'test-api-key',
+  apiUrl: DEFAULT_PROVIDER_URLS.openai,
+  model: 'whisper-1',
+  language: 'ja',
+  timeout: 300000,
+  temperature: 0,
+  initialPrompt: '',
+  chunkSizeMB: 20,
+  timestampGranularity: 'none',
+  diarization: false,
+  maxRetries: 0,
+  retryBaseDelay: 0
+};
+
+describe('createProvider', () => {
+  it('種別に応じたプロバイダーを作成する', () => {
+    expect(createProvider('openai')).toBeInstanceOf(OpenAIProvider);
+    expect(createProvider('whisper-cpp')).toBeInstanceOf(WhisperCppProvider);
+    expect(createProvider('deepgram')).toBeInstanceOf(DeepgramProvider);
+    expect(createProvider('assemblyai')).toBeInstanceOf(AssemblyAIProvider);
+  });
+
+  it('未指定の場合はOpenAI互換', () => {
+    expect(createProvider(undefined)).toBeInstanceOf(OpenAIProvider);
+  });
+});
+
+describe('OpenAIProvider', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('タイムスタンプなしの場合は json で送信する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ text: 'test' })
+    });
+
+    await new OpenAIProvider().transcribe(new Blob(['test']), baseConfig);
+
+    const body = (global.fetch as Mock).mock.calls[0][1].body as FormData;
+    expect(body.get('response_format')).toBe('json');
+    expect(body.getAll('timestamp_granularities[]')).toEqual([]);
+  });
+
+  it('セグメント単位の場合は verbose_json で segment を要求する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        text: 'こんにちは',
+        duration: 2,
+        segments: [{ id: 0, start: 0, end: 2, text: ' こんにちは', avg_logprob: -0.2 }]
+      })
+    });
+
+    const result = await new OpenAIProvider().transcribe(
+      new Blob(['test']),
+      { ...baseConfig, timestampGranularity: 'segment' }
+    );
+
+    const body = (global.fetch as Mock).mock.calls[0][1].body as FormData;
+    expect(body.get('response_format')).toBe('verbose_json');
+    expect(body.getAll('timestamp_granularities[]')).toEqual(['segment']);
+    expect(result.segments).toEqual([{ start: 0, end: 2, text: 'こんにちは' }]);
+  });
+
+  it('単語単位の場合は segment と word を要求し、単語をセグメントに割り当てる', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        text: 'Hello world',
+        duration: 2,
+        segments: [{ start: 0, end: 2, text: ' Hello world' }],
+        words: [
+          { word: 'Hello', start: 0.3, end: 0.8 },
+          { word: 'world', start: 0.9, end: 1.4 }
+        ]
+      })
+    });
+
+    const result = await new OpenAIProvider().transcribe(
+      new Blob(['test']),
+      { ...baseConfig, timestampGranularity: 'word' }
+    );
+
+    const body = (global.fetch as Mock).mock.calls[0][1].body as FormData;
+    expect(body.getAll('timestamp_granularities[]')).toEqual(['segment', 'word']);
+    expect(result.segments[0].words).toEqual([
+      { word: 'Hello', start: 0.3, end: 0.8 },
+      { word: 'world', start: 0.9, end: 1.4 }
+    ]);
+  });
+
+  it('話者分離の場合は diarized_json で送信し、話者ラベルを正規化する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        text: 'Hi. Hello.',
+        segments: [
+          { type: 'transcript.text.segment', id: 'seg_0', start: 0, end: 1, text: ' Hi.', speaker: 'A' },
+          { type: 'transcript.text.segment', id: 'seg_1', start: 1.2, end: 2, text: ' Hello.', speaker: 'B' }
+        ]
+      })
+    });
+
+    const result = await new OpenAIProvider().transcribe(
+      new Blob(['test']),
+      { ...baseConfig, model: 'gpt-4o-transcribe-diarize', timestampGranularity: 'word', initialPrompt: 'x', diarization: true }
+    );
+
+    const body = (global.fetch as Mock).mock.calls[0][1].body as FormData;
+    expect(body.get('response_format')).toBe('diarized_json');
+    expect(body.get('chunking_strategy')).toBe('auto');
+    expect(body.getAll('timestamp_granularities[]')).toEqual([]);
+    expect(body.get('prompt')).toBeNull();
+    expect(result.segments).toEqual([
+      { start: 0, end: 1, text: 'Hi.', speaker: 'Speaker 1' },
+      { start: 1.2, end: 2, text: 'Hello.', speaker: 'Speaker 2' }
+    ]);
+  });
+
+  it('翻訳の場合は /audio/translations に送信し、言語・タイムスタンプ粒度は指定しない', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        text: 'Hello',
+        language: 'japanese',
+        segments: [{ start: 0, end: 1, text: ' Hello' }]
+      })
+    });
+
+    const result = await new OpenAIProvider().transcribe(
+      new Blob(['test']),
+      { ...baseConfig, timestampGranularity: 'word', task: 'translate' }
+    );
+
+    const [url, init] = (global.fetch as Mock).mock.calls[0];
+    const body = init.body as FormData;
+    expect(url).toBe('https://api.openai.com/v1/audio/translations');
+    expect(body.get('response_format')).toBe('verbose_json');
+    expect(body.get('language')).toBeNull();
+    expect(body.getAll('timestamp_granularities[]')).toEqual([]);
+    expect(result).toMatchObject({ text: 'Hello', language: 'en', segments: [{ start: 0, end: 1, text: 'Hello' }] });
+  });
+
+  it('文字起こしのURLから翻訳のURLを作れる場合のみ翻訳に対応する', () => {
+    const provider = new OpenAIProvider();
+    expect(provider.canTranslate(baseConfig)).toBe(true);
+    expect(provider.canTranslate({ ...baseConfig, diarization: true })).toBe(false);
+    expect(provider.canTranslate({ ...baseConfig, apiUrl: 'http://localhost:8000/transcribe' })).toBe(false);
+  });
+});
+
+describe('言語の自動検出', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('OpenAI互換は言語を送信せず、検出された言語をコードにする', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ text: 'Hello', language: 'english' })
+    });
+
+    const result = await new OpenAIProvider().transcribe(new Blob(['test']), { ...baseConfig, language: 'auto' });
+
+    const body = (global.fetch as Mock).mock.calls[0][1].body as FormData;
+    expect(body.has('language')).toBe(false);
+    expect(result.language).toBe('en');
+  });
+
+  it('Deepgram は detect_language を指定する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ results: { channels: [{ detected_language: 'en', alternatives: [{ transcript: 'hi' }] }] } })
+    });
+
+    const result = await new DeepgramProvider().transcribe(
+      new Blob(['test']),
+      { ...baseConfig, provider: 'deepgram', apiUrl: DEFAULT_PROVIDER_URLS.deepgram, language: 'auto' }
+    );
+
+    const url = (global.fetch as Mock).mock.calls[0][0] as string;
+    expect(url).toContain('detect_language=true');
+    expect(url).not.toContain('language=auto');
+    expect(result.language).toBe('en');
+  });
+
+  it('AssemblyAI は language_detection を指定する', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', text: 'hi', language_code: 'en_us' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ sentences: [] }) });
+
+    const result = await new AssemblyAIProvider(0).transcribe(
+      new Blob(['test']),
+      { ...baseConfig, provider: 'assemblyai', apiUrl: DEFAULT_PROVIDER_URLS.assemblyai, language: 'auto' }
+    );
+
+    const body = JSON.parse((global.fetch as Mock).mock.calls[1][1].body);
+    expect(body.language_detection).toBe(true);
+    expect(body).not.toHaveProperty('language_code');
+    expect(result.language).toBe('en');
+  });
+});
+
+describe('WhisperCppProvider', () => {
+  const config: TranscriptionConfig = {
+    ...baseConfig,
+    provider: 'whisper-cpp',
+    apiKey: '',
+    apiUrl: DEFAULT_PROVIDER_URLS['whisper-cpp']
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('/inference に verbose_json で送信し、modelは送信しない', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ text: 'test' })
+    });
+
+    await new WhisperCppProvider().transcribe(new Blob(['test'], { type: 'audio/webm' }), config);
+
+    const [url, options] = (global.fetch as Mock).mock.calls[0];
+    const body = options.body as FormData;
+    expect(url).toBe('http://127.0.0.1:8080/inference');
+    expect(body.get('response_format')).toBe('verbose_json');
+    expect(body.get('model')).toBeNull();
+    expect(options.headers).toEqual({});
+  });
+
+  it('t0/t1（10ms単位）のセグメントを秒に正規化する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        text: ' こんにちは 世界',
+        segments: [
+          { t0: 0, t1: 150, text: ' こんにちは' },
+          { t0: 150, t1: 320, text: ' 世界' }
+        ]
+      })
+    });
+
+    const result = await new WhisperCppProvider().transcribe(new Blob(['test']), config);
+
+    expect(result.text).toBe('こんにちは 世界');
+    expect(result.segments).toEqual([
+      { start: 0, end: 1.5, text: 'こんにちは' },
+      { start: 1.5, end: 3.2, text: '世界' }
+    ]);
+    expect(result.duration).toBe(3.2);
+  });
+});
+
+describe('DeepgramProvider', () => {
+  const config: TranscriptionConfig = {
+    ...baseConfig,
+    provider: 'deepgram',
+    apiUrl: DEFAULT_PROVIDER_URLS.deepgram,
+    model: 'nova-2'
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('音声バイナリをTokenヘッダー付きで送信する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ results: { channels: [{ alternatives: [{ transcript: 'hello' }] }] } })
+    });
+
+    const blob = new Blob(['test'], { type: 'audio/webm' });
+    await new DeepgramProvider().transcribe(blob, config);
+
+    const [url, options] = (global.fetch as Mock).mock.calls[0];
+    expect(url).toContain('https://api.deepgram.com/v1/listen?');
+    expect(url).toContain('model=nova-2');
+    expect(url).toContain('language=ja');
+    expect(url).toContain('utterances=true');
+    expect(options.headers.Authorization).toBe('Token test-api-key');
+    expect(options.body).toBe(blob);
+  });
+
+  it('初期プロンプトと用語集の用語をキーワードとして送信する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ results: { channels: [{ alternatives: [{ transcript: 'hello' }] }] } })
+    });
+
+    await new DeepgramProvider().transcribe(new Blob(['test']), {
+      ...config,
+      initialPrompt: 'Acme, 山田',
+      vocabulary: ['Acme', 'Kubernetes']
+    });
+
+    const url = new URL((global.fetch as Mock).mock.calls[0][0]);
+    expect(url.searchParams.getAll('keywords')).toEqual(['Acme', '山田', 'Kubernetes']);
+  });
+
+  it('utterancesをセグメントに正規化する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        metadata: { duration: 12.5 },
+        results: {
+          channels: [{ alternatives: [{ transcript: 'Hello. World.' }] }],
+          utterances: [
+            { start: 0.1, end: 1.2, transcript: 'Hello.' },
+            { start: 5, end: 6.3, transcript: 'World.' }
+          ]
+        }
+      })
+    });
+
+    const result = await new DeepgramProvider().transcribe(new Blob(['test']), config);
+
+    expect(result.text).toBe('Hello. World.');
+    expect(result.segments).toEqual([
+      { start: 0.1, end: 1.2, text: 'Hello.' },
+      { start: 5, end: 6.3, text: 'World.' }
+    ]);
+    expect(result.duration).toBe(12.5);
+  });
+
+  it('話者分離の場合は diarize を指定し、utteranceの話者をラベルにする', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        results: {
+          channels: [{ alternatives: [{ transcript: 'Hello. World.' }] }],
+          utterances: [
+            { start: 0.1, end: 1.2, transcript: 'Hello.', speaker: 0 },
+            { start: 5, end: 6.3, transcript: 'World.', speaker: 2 }
+          ]
+        }
+      })
+    });
+
+    const result = await new DeepgramProvider().transcribe(new Blob(['test']), { ...config, diarization: true });
+
+    expect((global.fetch as Mock).mock.calls[0][0]).toContain('diarize=true');
+    expect(result.segments.map(segment => segment.speaker)).toEqual(['Speaker 1', 'Speaker 3']);
+  });
+});
+
+describe('AssemblyAIProvider', () => {
+  const config: TranscriptionConfig = {
+    ...baseConfig,
+    provider: 'assemblyai',
+    apiUrl: DEFAULT_PROVIDER_URLS.assemblyai,
+    model: ''
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('アップロード → ジョブ作成 → ポーリング → 文取得の順に処理する', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1', status: 'queued' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'processing' }) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ status: 'completed', text: 'こんにちは。', audio_duration: 8, language_code: 'ja' })
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ sentences: [{ start: 500, end: 2500, text: 'こんにちは。' }] })
+      });
+
+    const result = await new AssemblyAIProvider(0).transcribe(new Blob(['test']), config);
+
+    const urls = (global.fetch as Mock).mock.calls.map(call => call[0]);
+    expect(urls).toEqual([
+      'https://api.assemblyai.com/v2/upload',
+      'https://api.assemblyai.com/v2/transcript',
+      'https://api.assemblyai.com/v2/transcript/tx-1',
+      'https://api.assemblyai.com/v2/transcript/tx-1',
+      'https://api.assemblyai.com/v2/transcript/tx-1/sentences'
+    ]);
+    const createBody = JSON.parse((global.fetch as Mock).mock.calls[1][1].body);
+    expect(createBody).toEqual({ audio_url: 'https://cdn.example/audio', language_code: 'ja' });
+
+    expect(result).toEqual({
+      text: 'こんにちは。',
+      segments: [{ start: 0.5, end: 2.5, text: 'こんにちは。' }],
+      duration: 8,
+      language: 'ja'
+    });
+  });
+
+  it('ジョブがエラーになった場合はエラーを返す', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'error', error: 'Audio too short' }) });
+
+    await expect(new AssemblyAIProvider(0).transcribe(new Blob(['test']), config))
+      .rejects.toMatchObject({ code: 'api', detail: 'Audio too short' });
+  });
+
+  it('ポーリングの待機中にキャンセルすると中断する', async () => {
+    const controller = new AbortController();
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+      .mockImplementationOnce(async () => {
+        setTimeout(() => controller.abort(), 0);
+        return { ok: true, json: async () => ({ status: 'processing' }) };
+      });
+
+    // ポーリング間隔が長くても待たずに中断される
+    await expect(new AssemblyAIProvider(60000).transcribe(new Blob(['test']), config, controller.signal))
+      .rejects.toBeInstanceOf(TranscriptionCancelledError);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('ポーリングが 5xx・429 で失敗した場合は状態の取得だけを再試行する', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+      .mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({ error: 'Service unavailable' }) })
+      .mockResolvedValueOnce({ ok: false, status: 429, json: async () => ({ error: 'Too many requests' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', text: 'こんにちは。' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ sentences: [] }) });
+
+    const result = await new AssemblyAIProvider(0).transcribe(new Blob(['test']), { ...config, maxRetries: 2 });
+
+    const urls = (global.fetch as Mock).mock.calls.map(call => call[0]);
+    expect(urls).toEqual([
+      'https://api.assemblyai.com/v2/upload',
+      'https://api.assemblyai.com/v2/transcript',
+      'https://api.assemblyai.com/v2/transcript/tx-1',
+      'https://api.assemblyai.com/v2/transcript/tx-1',
+      'https://api.assemblyai.com/v2/transcript/tx-1',
+      'https://api.assemblyai.com/v2/transcript/tx-1/sentences'
+    ]);
+    expect(result.text).toBe('こんにちは。');
+  });
+
+  it('アップロード・ジョブ作成が 5xx で失敗した場合はそのリクエストだけを再試行する', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: false, status: 502, json: async () => ({ error: 'Bad gateway' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({ error: 'Internal error' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', text: 'こんにちは。' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ sentences: [] }) });
+    const onRetry = vi.fn();
+
+    const result = await new AssemblyAIProvider(0)
+      .transcribe(new Blob(['test']), { ...config, maxRetries: 1 }, undefined, undefined, onRetry);
+
+    const urls = (global.fetch as Mock).mock.calls.map(call => call[0]);
+    expect(urls).toEqual([
+      'https://api.assemblyai.com/v2/upload',
+      'https://api.assemblyai.com/v2/upload',
+      'https://api.assemblyai.com/v2/transcript',
+      'https://api.assemblyai.com/v2/transcript',
+      'https://api.assemblyai.com/v2/transcript/tx-1',
+      'https://api.assemblyai.com/v2/transcript/tx-1/sentences'
+    ]);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(result.text).toBe('こんにちは。');
+  });
+
+  it('話者分離の場合は speaker_labels を指定し、文の話者をラベルにする', async () => {
+    (global.fetch as Mock)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ status: 'completed', text: 'はい。いいえ。' }) })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          sentences: [
+            { start: 0, end: 1000, text: 'はい。', speaker: 'A' },
+            { start: 1000, end: 2000, text: 'いいえ。', speaker: 'B' }
+          ]
+        })
+      });
+
+    const result = await new AssemblyAIProvider(0).transcribe(new Blob(['test']), { ...config, diarization: true });
+
+    const createBody = JSON.parse((global.fetch as Mock).mock.calls[1][1].body);
+    expect(createBody.speaker_labels).toBe(true);
+    expect(result.segments).toEqual([
+      { start: 0, end: 1, text: 'はい。', speaker: 'Speaker 1' },
+      { start: 1, end: 2, text: 'いいえ。', speaker: 'Speaker 2' }
+    ]);
+  });
+
+  it('401でAssemblyAI形式のエラーメッセージを返す', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({
+      ok: false,
+      status: 401,
+      json: async () => ({ error: 'Authentication error, API token missing/invalid' })
+    });
+
+    await expect(new AssemblyAIProvider(0).transcribe(new Blob(['test']), config))
+      .rejects.toMatchObject({ code: 'auth', detail: 'Authentication error, API token missing/invalid' });
+  });
+});
@@ -0,0 +1,222 @@
+// TranscriptionQueue モジュールのテスト
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  TranscriptionQueue,
+  calculateBackoffDelay,
+  DEFAULT_QUEUE_CONFIG,
+  type QueueJob,
+  type QueueJobOptions
+} from '../queue/TranscriptionQueue';
+import { AuthenticationError, NetworkError } from '../api/errors';
+
+const mockOptions: QueueJobOptions = {
+  trim: null,
+  transcription: {
+    model: 'whisper-1',
+    language: 'ja',
+    temperature: 0,
+    initialPrompt: ''
+  }
+};
+
+describe('TranscriptionQueue', () => {
+  let persist: ReturnType<typeof vi.fn>;
+  let queue: TranscriptionQueue;
+
+  beforeEach(() => {
+    persist = vi.fn().mockResolvedValue(undefined);
+    queue = new TranscriptionQueue([], persist, {
+      maxAttempts: 3,
+      baseDelayMs: 1000,
+      maxDelayMs: 10000
+    });
+  });
+
+  describe('enqueue', () => {
+    it('ジョブが pending で追加され永続化される', async () => {
+      const job = await queue.enqueue('recordings/a.webm', 60, mockOptions, 1000);
+
+      expect(job.status).toBe('pending');
+      expect(job.attempts).toBe(0);
+      expect(job.nextAttemptAt).toBe(1000);
+      expect(queue.getJobs()).toHaveLength(1);
+      expect(persist).toHaveBeenCalledWith([expect.objectContaining({ audioPath: 'recordings/a.webm' })]);
+    });
+
+    it('トリミング・文字起こし設定が保持される', async () => {
+      const options: QueueJobOptions = {
+        ...mockOptions,
+        trim: { thresholdDb: -35, minSilenceDuration: 0.6, silenceMargin: 0.2 }
+      };
+      await queue.enqueue('recordings/a.webm', 60, options);
+
+      expect(queue.getJobs()[0].options).toEqual(options);
+    });
+  });
+
+  describe('初期化', () => {
+    it('処理中のまま保存されたジョブは pending に戻る', () => {
+      const stored: QueueJob = {
+        id: 'job-1',
+        audioPath: 'recordings/a.webm',
+        duration: 10,
+        createdAt: 0,
+        status: 'processing',
+        attempts: 1,
+        nextAttemptAt: 0,
+        options: mockOptions
+      };
+      const restored = new TranscriptionQueue([stored], persist);
+
+      expect(restored.getJobs()[0].status).toBe('pending');
+    });
+  });
+
+  describe('process', () => {
+    it('成功したジョブは削除される', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      const handler = vi.fn().mockResolvedValue(undefined);
+
+      const succeeded = await queue.process(handler, () => 1000);
+
+      expect(succeeded).toBe(1);
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(queue.getJobs()).toHaveLength(0);
+    });
+
+    it('失敗したジョブはバックオフして再スケジュールされる', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      const error = new NetworkError('Failed to fetch');
+      const handler = vi.fn().mockRejectedValue(error);
+
+      await queue.process(handler, () => 5000);
+
+      const job = queue.getJobs()[0];
+      expect(job.status).toBe('pending');
+      expect(job.attempts).toBe(1);
+      expect(job.nextAttemptAt).toBe(6000);
+      expect(job.lastError).toBe(error.message);
+    });
+
+    it('再送しても結果が変わらないエラーはすぐに failed になる', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      await queue.enqueue('recordings/b.webm', 60, mockOptions, 0);
+      const handler = vi.fn()
+        .mockRejectedValueOnce(new AuthenticationError(401, 'Invalid API key'))
+        .mockRejectedValueOnce(new Error('File not found'));
+
+      await queue.process(handler, () => 0);
+
+      const jobs = queue.getJobs();
+      expect(jobs.map(job => job.status)).toEqual(['failed', 'failed']);
+      expect(jobs.map(job => job.attempts)).toEqual([1, 1]);
+    });
+
+    it('送信予定時刻前のジョブは処理しない', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      const failing = vi.fn().mockRejectedValue(new NetworkError());
+      await queue.process(failing, () => 0);
+
+      const handler = vi.fn().mockResolvedValue(undefined);
+      await queue.process(handler, () => 500);
+
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('最大試行回数に達すると failed になる', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      const handler = vi.fn().mockRejectedValue(new NetworkError());
+
+      await queue.process(handler, () => 0);
+      await queue.process(handler, () => 100000);
+      await queue.process(handler, () => 200000);
+
+      const job = queue.getJobs()[0];
+      expect(job.status).toBe('failed');
+      expect(job.attempts).toBe(3);
+
+      // failed のジョブは処理されない
+      await queue.process(handler, () => 300000);
+      expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it('処理中の多重実行は無視される', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      let resolveHandler: () => void = () => {};
+      const handler = vi.fn().mockImplementation(() => new Promise<void>(resolve => {
+        resolveHandler = resolve;
+      }));
+
+      const first = queue.process(handler, () => 0);
+      await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+      const second = await queue.process(handler, () => 0);
+      resolveHandler();
+      await first;
+
+      expect(second).toBe(0);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retryNow', () => {
+    it('failed のジョブを pending に戻す', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      const handler = vi.fn().mockRejectedValue(new NetworkError());
+      await queue.process(handler, () => 0);
+      await queue.process(handler, () => 100000);
+      await queue.process(handler, () => 200000);
+
+      const id = queue.getJobs()[0].id;
+      await queue.retryNow(id, 300000);
+
+      const job = queue.getJobs()[0];
+      expect(job.status).toBe('pending');
+      expect(job.attempts).toBe(0);
+      expect(job.nextAttemptAt).toBe(300000);
+    });
+  });
+
+  describe('resetBackoff', () => {
+    it('待機中ジョブを即時送信対象にする', async () => {
+      await queue.enqueue('recordings/a.webm', 60, mockOptions, 0);
+      await queue.process(vi.fn().mockRejectedValue(new NetworkError()), () => 0);
+      expect(queue.getDueJobs(10)).toHaveLength(0);
+
+      await queue.resetBackoff(10);
+
+      expect(queue.getDueJobs(10)).toHaveLength(1);
+    });
+  });
+
+  describe('remove / subscribe', () => {
+    it('削除時にリスナーへ通知される', async () => {
+      const job = await queue.enqueue('recordings/a.webm', 60, mockOptions);
+      const listener = vi.fn();
+      const unsubscribe = queue.subscribe(listener);
+
+      await queue.remove(job.id);
+
+      expect(queue.getJobs()).toHaveLength(0);
+      expect(listener).toHaveBeenCalledTimes(1);
+
+      unsubscribe();
+      await queue.enqueue('recordings/b.webm', 60, mockOptions);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('calculateBackoffDelay', () => {
+  it('失敗回数ごとに倍増する', () => {
+    const config = { ...DEFAULT_QUEUE_CONFIG, baseDelayMs: 1000, maxDelayMs: 100000 };
+    expect(calculateBackoffDelay(1, config)).toBe(1000);
+    expect(calculateBackoffDelay(2, config)).toBe(2000);
+    expect(calculateBackoffDelay(3, config)).toBe(4000);
+  });
+
+  it('最大待機時間でクランプされる', () => {
+    const config = { ...DEFAULT_QUEUE_CONFIG, baseDelayMs: 1000, maxDelayMs: 5000 };
+    expect(calculateBackoffDelay(10, config)).toBe(5000);
+  });
+});
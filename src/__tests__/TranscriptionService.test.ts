@@ -7,6 +7,16 @@ import {
   type TranscriptionProgress,
   type TranscriptionResult 
 } from '../api/TranscriptionService';
+import {
+  TranscriptionCancelledError,
+  AuthenticationError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  ServerError
+} from '../api/errors';
+import { ChunkResultStore } from '../api/ChunkResultStore';
+import type { AudioChunkSplitter } from '../trimmer/AudioSplitter';
 
 describe('TranscriptionService', () => {
   let service: TranscriptionService;
@@ -14,6 +24,7 @@ describe('TranscriptionService', () => {
 
   beforeEach(() => {
     mockConfig = {
+      provider: 'openai',
       apiKey: 'test-api-key',
       apiUrl: 'https://api.openai.com/v1/audio/transcriptions',
       model: 'whisper-1',
@@ -21,7 +32,11 @@ describe('TranscriptionService', () => {
       timeout: 300000,
       temperature: 0,
       initialPrompt: '',
-      chunkSizeMB: 20
+      chunkSizeMB: 20,
+  timestampGranularity: 'none',
+  diarization: false,
+  maxRetries: 0,
+  retryBaseDelay: 0
     };
     service = new TranscriptionService(mockConfig);
     vi.clearAllMocks();
@@ -68,9 +83,25 @@ describe('TranscriptionService', () => {
   });
 
   describe('チャンク送信', () => {
+    // デコード・再エンコードを行わず、指定した時間範囲のチャンクを返すスプリッター
+    const createMockSplitter = (ranges: { start: number; end: number }[]): AudioChunkSplitter => ({
+      split: vi.fn().mockResolvedValue(
+        ranges.map(range => ({
+          blob: new Blob(['x'.repeat(1024)], { type: 'audio/mpeg' }),
+          startTime: range.start,
+          endTime: range.end
+        }))
+      )
+    });
+
     it('20MB以上のファイルは分割送信される', async () => {
       // 30MBのモックBlob
       const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      const splitter = createMockSplitter([
+        { start: 0, end: 1800 },
+        { start: 1800, end: 2700 }
+      ]);
+      service = new TranscriptionService(mockConfig, splitter);
       
       (global.fetch as Mock)
         .mockResolvedValueOnce({
@@ -84,14 +115,104 @@ describe('TranscriptionService', () => {
 
       const result = await service.transcribe(mockBlob);
       
-      // 2回呼ばれるはず（30MB / 20MB = 2チャンク）
+      expect(splitter.split).toHaveBeenCalledWith(mockBlob, 20 * 1024 * 1024);
       expect(global.fetch).toHaveBeenCalledTimes(2);
       expect(result.text).toContain('最初のチャンク');
       expect(result.text).toContain('次のチャンク');
     });
 
+    it('言語が auto の場合はチャンクごとに検出された言語を記録する', async () => {
+      const mockBlob = new Blob(['x'.repeat(45 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService({ ...mockConfig, language: 'auto' }, createMockSplitter([
+        { start: 0, end: 1000 },
+        { start: 1000, end: 2000 },
+        { start: 2000, end: 2500 }
+      ]));
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ text: 'Hello', language: 'english', segments: [{ start: 0, end: 1, text: 'Hello' }] })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ text: 'こんにちは', language: 'japanese', segments: [{ start: 0, end: 1, text: 'こんにちは' }] })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ text: 'Bye', language: 'english', segments: [{ start: 0, end: 1, text: 'Bye' }] })
+        });
+
+      const result = await service.transcribe(mockBlob);
+
+      expect(result.language).toBe('en');
+      expect(result.chunkLanguages).toEqual(['en', 'ja', 'en']);
+      expect(result.segments.map(segment => segment.language)).toEqual(['en', 'ja', 'en']);
+    });
+
+    it('言語を指定した場合はチャンクごとの言語を記録しない', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(mockConfig, createMockSplitter([
+        { start: 0, end: 1000 },
+        { start: 1000, end: 2000 }
+      ]));
+
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ text: 'テスト', segments: [{ start: 0, end: 1, text: 'テスト' }] })
+      });
+
+      const result = await service.transcribe(mockBlob);
+
+      expect(result.language).toBe('ja');
+      expect(result.chunkLanguages).toBeUndefined();
+      expect(result.segments[0]).not.toHaveProperty('language');
+    });
+
+    it('直前のチャンクの文字起こしをプロンプトに加える', async () => {
+      const mockBlob = new Blob(['x'.repeat(45 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(
+        { ...mockConfig, initialPrompt: '会議', noteContext: ['定例会'], previousChunkPrompt: true },
+        createMockSplitter([
+          { start: 0, end: 1000 },
+          { start: 1000, end: 2000 },
+          { start: 2000, end: 2500 }
+        ])
+      );
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート1' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート2' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート3' }) });
+
+      await service.transcribe(mockBlob);
+
+      const prompts = (global.fetch as Mock).mock.calls.map(call => (call[1].body as FormData).get('prompt'));
+      expect(prompts).toEqual(['会議\n定例会', '会議\n定例会\nパート1', '会議\n定例会\nパート1\nパート2']);
+    });
+
+    it('previousChunkPrompt が無効な場合は初期プロンプトのみ', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService({ ...mockConfig, initialPrompt: '会議' }, createMockSplitter([
+        { start: 0, end: 1000 },
+        { start: 1000, end: 2000 }
+      ]));
+
+      (global.fetch as Mock).mockResolvedValue({ ok: true, json: async () => ({ text: 'テスト' }) });
+
+      await service.transcribe(mockBlob);
+
+      const prompts = (global.fetch as Mock).mock.calls.map(call => (call[1].body as FormData).get('prompt'));
+      expect(prompts).toEqual(['会議', '会議']);
+    });
+
     it('分割結果がマージされる', async () => {
       const mockBlob = new Blob(['x'.repeat(45 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(mockConfig, createMockSplitter([
+        { start: 0, end: 1000 },
+        { start: 1000, end: 2000 },
+        { start: 2000, end: 2500 }
+      ]));
       
       (global.fetch as Mock)
         .mockResolvedValueOnce({
@@ -112,6 +233,100 @@ describe('TranscriptionService', () => {
       expect(global.fetch).toHaveBeenCalledTimes(3);
       expect(result.text).toBe('パート1\nパート2\nパート3');
     });
+
+    it('各チャンクのセグメントが開始時間分オフセットされる', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(mockConfig, createMockSplitter([
+        { start: 0, end: 1795.5 },
+        { start: 1795.5, end: 2400 }
+      ]));
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            text: 'A',
+            segments: [{ start: 0, end: 5, text: 'A' }]
+          })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            text: 'B',
+            segments: [{ start: 2, end: 4.5, text: 'B' }]
+          })
+        });
+
+      const result = await service.transcribe(mockBlob);
+
+      expect(result.segments).toEqual([
+        { start: 0, end: 5, text: 'A' },
+        { start: 1797.5, end: 1800, text: 'B' }
+      ]);
+      expect(result.duration).toBe(2400);
+    });
+
+    it('単語タイムスタンプもチャンクの開始時間分オフセットされる', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(
+        { ...mockConfig, timestampGranularity: 'word' },
+        createMockSplitter([
+          { start: 0, end: 1800 },
+          { start: 1800, end: 2400 }
+        ])
+      );
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ text: '' })
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            text: 'B',
+            segments: [{ start: 2, end: 4, text: 'B' }],
+            words: [{ word: 'B', start: 2.5, end: 3 }]
+          })
+        });
+
+      const result = await service.transcribe(mockBlob);
+
+      expect(result.segments).toEqual([
+        { start: 1802, end: 1804, text: 'B', words: [{ word: 'B', start: 1802.5, end: 1803 }] }
+      ]);
+    });
+
+    it('チャンクはMP3として送信される', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(mockConfig, createMockSplitter([
+        { start: 0, end: 1800 },
+        { start: 1800, end: 2700 }
+      ]));
+
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ text: 'test' })
+      });
+
+      await service.transcribe(mockBlob);
+
+      const body = (global.fetch as Mock).mock.calls[1][1].body as FormData;
+      expect((body.get('file') as File).name).toBe('audio.mp3');
+    });
+
+    it('分割に失敗した場合はエラーを返す', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      const errorCallback = vi.fn();
+      service = new TranscriptionService(mockConfig, {
+        split: vi.fn().mockRejectedValue(new Error('Unable to decode audio data'))
+      });
+      service.onError = errorCallback;
+
+      await expect(service.transcribe(mockBlob)).rejects.toThrow('Unable to decode audio data');
+      expect(errorCallback).toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
   });
 
   describe('接続テスト', () => {
@@ -149,7 +364,7 @@ describe('TranscriptionService', () => {
         json: async () => ({ error: { message: 'Invalid API key' } })
       });
 
-      await expect(service.transcribe(mockBlob)).rejects.toThrow('認証エラー');
+      await expect(service.transcribe(mockBlob)).rejects.toBeInstanceOf(AuthenticationError);
     });
 
     it('429エラーでレート制限エラーを返す', async () => {
@@ -161,7 +376,7 @@ describe('TranscriptionService', () => {
         json: async () => ({ error: { message: 'Rate limit exceeded' } })
       });
 
-      await expect(service.transcribe(mockBlob)).rejects.toThrow('レート制限');
+      await expect(service.transcribe(mockBlob)).rejects.toBeInstanceOf(RateLimitError);
     });
 
     it('タイムアウトエラーを返す', async () => {
@@ -180,7 +395,7 @@ describe('TranscriptionService', () => {
         timeout: 50
       });
 
-      await expect(shortTimeoutService.transcribe(mockBlob)).rejects.toThrow();
+      await expect(shortTimeoutService.transcribe(mockBlob)).rejects.toBeInstanceOf(TimeoutError);
     });
 
     it('ネットワークエラーを返す', async () => {
@@ -188,7 +403,7 @@ describe('TranscriptionService', () => {
       
       (global.fetch as Mock).mockRejectedValueOnce(new Error('Network error'));
 
-      await expect(service.transcribe(mockBlob)).rejects.toThrow('ネットワークエラー');
+      await expect(service.transcribe(mockBlob)).rejects.toBeInstanceOf(NetworkError);
     });
 
     it('onErrorコールバックが呼ばれる', async () => {
@@ -203,6 +418,197 @@ describe('TranscriptionService', () => {
     });
   });
 
+  describe('チャンク送信の再開', () => {
+    const splitter = (): AudioChunkSplitter => ({
+      split: vi.fn().mockResolvedValue([0, 1, 2].map(i => ({
+        blob: new Blob(['x'.repeat(1024)], { type: 'audio/mpeg' }),
+        startTime: i * 100,
+        endTime: (i + 1) * 100
+      })))
+    });
+
+    it('途中で失敗した音声を再送信すると、失敗したチャンクから再開する', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      const store = new ChunkResultStore([], vi.fn().mockResolvedValue(undefined));
+
+      // 1回目: 2チャンク目で失敗
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ text: 'パート1', segments: [{ start: 1, end: 2, text: 'パート1' }] })
+        })
+        .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({}) });
+
+      service = new TranscriptionService(mockConfig, splitter(), store);
+      await expect(service.transcribe(mockBlob)).rejects.toBeInstanceOf(AuthenticationError);
+      expect(store.getEntries()[0].chunks).toHaveLength(1);
+
+      // 2回目: 2チャンク目から送信
+      (global.fetch as Mock).mockClear();
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート2' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート3' }) });
+
+      service = new TranscriptionService(mockConfig, splitter(), store);
+      const result = await service.transcribe(mockBlob);
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.text).toBe('パート1\nパート2\nパート3');
+      expect(result.segments).toEqual([{ start: 1, end: 2, text: 'パート1' }]);
+      // 完了したら保存した結果は削除する
+      expect(store.getEntries()).toEqual([]);
+    });
+
+    it('設定が変わった場合は最初から送信する', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      const store = new ChunkResultStore([], vi.fn().mockResolvedValue(undefined));
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート1' }) })
+        .mockResolvedValueOnce({ ok: false, status: 401, json: async () => ({}) });
+      service = new TranscriptionService(mockConfig, splitter(), store);
+      await expect(service.transcribe(mockBlob)).rejects.toThrow();
+
+      (global.fetch as Mock).mockClear();
+      (global.fetch as Mock).mockResolvedValue({ ok: true, json: async () => ({ text: 'test' }) });
+      service = new TranscriptionService({ ...mockConfig, model: 'gpt-4o-transcribe' }, splitter(), store);
+      await service.transcribe(mockBlob);
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('再試行', () => {
+    it('レート制限のチャンクだけを再送し、送信済みのチャンクは維持する', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService({ ...mockConfig, maxRetries: 2 }, {
+        split: vi.fn().mockResolvedValue([0, 1].map(i => ({
+          blob: new Blob(['x'.repeat(1024)], { type: 'audio/mpeg' }),
+          startTime: i * 100,
+          endTime: (i + 1) * 100
+        })))
+      });
+      const retrying: TranscriptionProgress[] = [];
+      service.onProgress = (progress: TranscriptionProgress) => {
+        if (progress.phase === 'retrying') retrying.push(progress);
+      };
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート1' }) })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          headers: new Headers({ 'Retry-After': '0' }),
+          json: async () => ({ error: { message: 'Rate limit exceeded' } })
+        })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ text: 'パート2' }) });
+
+      const result = await service.transcribe(mockBlob);
+
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect(result.text).toBe('パート1\nパート2');
+      expect(retrying).toEqual([{
+        phase: 'retrying',
+        uploadedBytes: 1024,
+        totalBytes: 2048,
+        percentage: 50,
+        currentChunk: 2,
+        totalChunks: 2,
+        retryAttempt: 1,
+        maxRetries: 2,
+        retryDelay: 0
+      }]);
+    });
+
+    it('再試行回数を使い切ったらエラーを返す', async () => {
+      const mockBlob = new Blob(['test'], { type: 'audio/webm' });
+      service = new TranscriptionService({ ...mockConfig, maxRetries: 1 });
+
+      (global.fetch as Mock).mockResolvedValue({
+        ok: false,
+        status: 503,
+        json: async () => ({ error: { message: 'Service unavailable' } })
+      });
+
+      await expect(service.transcribe(mockBlob)).rejects.toBeInstanceOf(ServerError);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('AssemblyAI のポーリングが再試行を使い切っても音声をアップロードし直さない', async () => {
+      service = new TranscriptionService({
+        ...mockConfig,
+        provider: 'assemblyai',
+        apiUrl: 'https://api.assemblyai.com/v2',
+        maxRetries: 1
+      });
+
+      (global.fetch as Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ upload_url: 'https://cdn.example/audio' }) })
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ id: 'tx-1' }) })
+        .mockResolvedValue({ ok: false, status: 503, json: async () => ({ error: 'Service unavailable' }) });
+
+      await expect(service.transcribe(new Blob(['test'], { type: 'audio/webm' }))).rejects.toBeInstanceOf(ServerError);
+      expect((global.fetch as Mock).mock.calls.map(([url]) => url)).toEqual([
+        'https://api.assemblyai.com/v2/upload',
+        'https://api.assemblyai.com/v2/transcript',
+        'https://api.assemblyai.com/v2/transcript/tx-1',
+        'https://api.assemblyai.com/v2/transcript/tx-1'
+      ]);
+    });
+  });
+
+  describe('キャンセル', () => {
+    it('送信中に中断するとTranscriptionCancelledErrorを返す', async () => {
+      const mockBlob = new Blob(['test'], { type: 'audio/webm' });
+      const controller = new AbortController();
+
+      // 中断されるまで応答しないリクエスト
+      (global.fetch as Mock).mockImplementationOnce((_url: string, init: RequestInit) =>
+        new Promise((_, reject) => {
+          init.signal?.addEventListener('abort', () => {
+            reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+          });
+        })
+      );
+
+      const promise = service.transcribe(mockBlob, controller.signal);
+      controller.abort();
+
+      await expect(promise).rejects.toBeInstanceOf(TranscriptionCancelledError);
+    });
+
+    it('中断済みのシグナルではリクエストを送信しない', async () => {
+      const mockBlob = new Blob(['test'], { type: 'audio/webm' });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(service.transcribe(mockBlob, controller.signal)).rejects.toMatchObject({ code: 'cancelled' });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('チャンク送信中に中断すると残りのチャンクを送信しない', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      const controller = new AbortController();
+      service = new TranscriptionService(mockConfig, {
+        split: vi.fn().mockResolvedValue([0, 1, 2].map(i => ({
+          blob: new Blob(['x'], { type: 'audio/mpeg' }),
+          startTime: i * 100,
+          endTime: (i + 1) * 100
+        })))
+      });
+
+      // 1チャンク目の応答後に中断
+      (global.fetch as Mock).mockImplementationOnce(async () => {
+        controller.abort();
+        return { ok: true, json: async () => ({ text: 'パート1' }) };
+      });
+
+      await expect(service.transcribe(mockBlob, controller.signal))
+        .rejects.toBeInstanceOf(TranscriptionCancelledError);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('APIリクエスト形式', () => {
     it('正しいヘッダーでリクエストする', async () => {
       const mockBlob = new Blob(['test'], { type: 'audio/webm' });
@@ -262,6 +668,41 @@ describe('TranscriptionService', () => {
       
       expect(body.get('prompt')).toBe('テスト用語');
     });
+
+    it('用語集の用語をプロンプトに加える', async () => {
+      const serviceWithVocabulary = new TranscriptionService({
+        ...mockConfig,
+        initialPrompt: '会議の録音',
+        vocabulary: ['Acme', 'Kubernetes']
+      });
+
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ text: 'test' })
+      });
+
+      await serviceWithVocabulary.transcribe(new Blob(['test'], { type: 'audio/webm' }));
+
+      const body = (global.fetch as Mock).mock.calls[0][1].body as FormData;
+      expect(body.get('prompt')).toBe('会議の録音\nAcme, Kubernetes');
+    });
+
+    it('文字起こし結果に置換辞書を適用する', async () => {
+      const serviceWithReplacements = new TranscriptionService({
+        ...mockConfig,
+        replacements: [{ from: 'akme', to: 'Acme' }]
+      });
+
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ text: 'akme の会議', segments: [{ start: 0, end: 1, text: 'akme の会議' }] })
+      });
+
+      const result = await serviceWithReplacements.transcribe(new Blob(['test'], { type: 'audio/webm' }));
+
+      expect(result.text).toBe('Acme の会議');
+      expect(result.segments[0].text).toBe('Acme の会議');
+    });
   });
 
   describe('進捗通知', () => {
@@ -304,6 +745,117 @@ describe('TranscriptionService', () => {
       expect(phases).toContain('uploading');
       expect(phases[phases.length - 1]).toBe('completed');
     });
+
+    it('送信完了後はprocessingになる', async () => {
+      const mockBlob = new Blob(['test'], { type: 'audio/webm' });
+      const phases: string[] = [];
+      service.onProgress = (progress: TranscriptionProgress) => {
+        phases.push(progress.phase);
+      };
+
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ text: 'test' })
+      });
+
+      await service.transcribe(mockBlob);
+
+      expect(phases[0]).toBe('uploading');
+      expect(phases).toContain('processing');
+      expect(phases.indexOf('processing')).toBeLessThan(phases.indexOf('completed'));
+    });
+
+    it('送信中の進捗を音声サイズに按分して通知する', async () => {
+      const mockBlob = new Blob(['x'.repeat(1000)], { type: 'audio/webm' });
+      const progresses: TranscriptionProgress[] = [];
+      service.onProgress = (progress: TranscriptionProgress) => {
+        progresses.push(progress);
+      };
+
+      // フォームの区切りを含むリクエスト本文（2000バイト）の半分を送信した時点で進捗を通知
+      const originalSend = XMLHttpRequest.prototype.send;
+      const send = vi.spyOn(XMLHttpRequest.prototype, 'send').mockImplementation(function (
+        this: { upload: { onprogress: ((event: object) => void) | null } },
+        body
+      ) {
+        this.upload.onprogress?.({ lengthComputable: true, loaded: 1000, total: 2000 });
+        originalSend.call(this, body);
+      });
+
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ text: 'test' })
+      });
+
+      await service.transcribe(mockBlob);
+      send.mockRestore();
+
+      expect(progresses[1]).toEqual({
+        phase: 'uploading',
+        uploadedBytes: 500,
+        totalBytes: 1000,
+        percentage: 50
+      });
+    });
+
+    it('チャンク送信では各チャンクの送信完了時に全体の進捗を通知する', async () => {
+      const mockBlob = new Blob(['x'.repeat(30 * 1024 * 1024)], { type: 'audio/webm' });
+      service = new TranscriptionService(mockConfig, {
+        split: vi.fn().mockResolvedValue([0, 1].map(i => ({
+          blob: new Blob(['x'.repeat(1024)], { type: 'audio/mpeg' }),
+          startTime: i * 100,
+          endTime: (i + 1) * 100
+        })))
+      });
+      const processing: TranscriptionProgress[] = [];
+      service.onProgress = (progress: TranscriptionProgress) => {
+        if (progress.phase === 'processing') processing.push(progress);
+      };
+
+      (global.fetch as Mock).mockResolvedValue({
+        ok: true,
+        json: async () => ({ text: 'test' })
+      });
+
+      await service.transcribe(mockBlob);
+
+      expect(processing.map(({ percentage, currentChunk }) => [percentage, currentChunk])).toEqual([
+        [50, 1], [50, 1], [100, 2], [100, 2]
+      ]);
+    });
+  });
+
+  describe('翻訳', () => {
+    it('翻訳結果には置換辞書を適用しない', async () => {
+      const serviceWithReplacements = new TranscriptionService({
+        ...mockConfig,
+        replacements: [{ from: 'akme', to: 'Acme' }]
+      });
+
+      (global.fetch as Mock).mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ text: 'akme meeting' })
+      });
+
+      const result = await serviceWithReplacements.translate(new Blob(['test'], { type: 'audio/webm' }));
+
+      expect((global.fetch as Mock).mock.calls[0][0]).toBe('https://api.openai.com/v1/audio/translations');
+      expect(result.text).toBe('akme meeting');
+    });
+
+    it('翻訳中に呼ばれた文字起こしは翻訳の設定を引き継がない', async () => {
+      const response = { ok: true, json: async (): Promise<unknown> => ({ text: 'test' }) };
+      (global.fetch as Mock).mockResolvedValueOnce(response).mockResolvedValueOnce(response);
+
+      const blob = new Blob(['test'], { type: 'audio/webm' });
+      await Promise.all([service.translate(blob), service.transcribe(blob)]);
+
+      const urls = (global.fetch as Mock).mock.calls.map(([url]) => url);
+      expect(urls).toEqual([
+        'https://api.openai.com/v1/audio/translations',
+        'https://api.openai.com/v1/audio/transcriptions'
+      ]);
+    });
   });
 
   describe('updateConfig', () => {
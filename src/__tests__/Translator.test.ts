@@ -0,0 +1,185 @@
+// 翻訳モジュールのテスト
+
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import {
+  Translator,
+  alignTranslation,
+  replaceWithTranslation,
+  parseNumberedLines,
+  type TranslationConfig
+} from '../translation/Translator';
+import { PostProcessor } from '../postprocess/PostProcessor';
+import type { TranscriptionResult, TranscriptionService } from '../api/TranscriptionService';
+import { TranscriptionCancelledError } from '../api/errors';
+
+const postProcessor = new PostProcessor({
+  apiUrl: 'http://localhost:11434/v1/chat/completions',
+  apiKey: '',
+  model: 'llama3',
+  timeout: 60000,
+  presets: []
+});
+
+const original: TranscriptionResult = {
+  text: 'こんにちは。会議を始めます。',
+  segments: [
+    { start: 0, end: 2, text: 'こんにちは。', speaker: '田中' },
+    { start: 2, end: 5, text: '会議を始めます。', speaker: '田中' }
+  ],
+  duration: 5,
+  language: 'ja'
+};
+
+// Chat Completions のレスポンスを返すモック
+const completion = (content: string): { ok: boolean; json: () => Promise<unknown> } => ({
+  ok: true,
+  json: async () => ({ choices: [{ message: { role: 'assistant', content } }] })
+});
+
+// 文字起こし・翻訳の結果を返すサービスのモック
+function createMockService(canTranslate: boolean, translated?: TranscriptionResult): {
+  service: TranscriptionService;
+  transcribe: Mock;
+  translate: Mock;
+} {
+  const transcribe = vi.fn().mockResolvedValue(original);
+  const translate = vi.fn().mockResolvedValue(translated);
+  const service = { transcribe, translate, canTranslateTo: () => canTranslate } as unknown as TranscriptionService;
+  return { service, transcribe, translate };
+}
+
+describe('parseNumberedLines', () => {
+  it('番号ごとの翻訳を取り出し、見つからない番号は空にする', () => {
+    expect(parseNumberedLines('1: Hello.\n\n3) Bye.\nextra text\n9: out of range', 3)).toEqual(['Hello.', '', 'Bye.']);
+  });
+});
+
+describe('alignTranslation', () => {
+  it('時間が最も重なるセグメントに翻訳を割り当てる', () => {
+    const translations = alignTranslation(original.segments, [
+      { start: 0, end: 1.5, text: ' Hello.' },
+      { start: 1.8, end: 3, text: ' Let us' },
+      { start: 3, end: 5, text: ' start the meeting.' },
+      { start: 6, end: 7, text: ' Thanks.' }
+    ]);
+    expect(translations).toEqual(['Hello.', 'Let us start the meeting. Thanks.']);
+  });
+});
+
+describe('replaceWithTranslation', () => {
+  it('原文を翻訳で置き換え、タイムスタンプと話者は残す', () => {
+    const replaced = replaceWithTranslation({
+      ...original,
+      segments: [
+        { ...original.segments[0], translation: 'Hello.', language: 'ja' },
+        { ...original.segments[1], translation: '' }
+      ],
+      translation: { language: 'en', text: 'Hello.' }
+    });
+
+    expect(replaced).toEqual({
+      text: 'Hello.',
+      segments: [
+        { start: 0, end: 2, text: 'Hello.', speaker: '田中' },
+        { start: 2, end: 5, text: '会議を始めます。', speaker: '田中' }
+      ],
+      duration: 5,
+      language: 'en'
+    });
+  });
+});
+
+describe('Translator', () => {
+  const both: TranslationConfig = { targetLanguage: 'en', output: 'both' };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('翻訳先がなければ文字起こしのみ', async () => {
+    const { service, translate } = createMockService(true);
+
+    const result = await new Translator({ targetLanguage: '', output: 'both' }, postProcessor).transcribe(service, new Blob(['x']));
+
+    expect(result).toBe(original);
+    expect(translate).not.toHaveBeenCalled();
+  });
+
+  it('翻訳エンドポイントで翻訳のみの場合は文字起こしを省略する', async () => {
+    const translated = { text: 'Hello.', segments: [], duration: 5, language: 'en' };
+    const { service, transcribe } = createMockService(true, translated);
+
+    const translator = new Translator({ targetLanguage: 'en', output: 'translated' }, postProcessor);
+    const result = await translator.transcribe(service, new Blob(['x']));
+
+    expect(result).toBe(translated);
+    expect(transcribe).not.toHaveBeenCalled();
+    expect(translator.replacesOriginal()).toBe(true);
+  });
+
+  it('翻訳エンドポイントの結果を原文のセグメントに並べる', async () => {
+    const { service } = createMockService(true, {
+      text: 'Hello. Let us start the meeting.',
+      segments: [
+        { start: 0, end: 2, text: 'Hello.' },
+        { start: 2, end: 5, text: 'Let us start the meeting.' }
+      ],
+      duration: 5,
+      language: 'en'
+    });
+    const onStage = vi.fn();
+
+    const result = await new Translator(both, postProcessor).transcribe(service, new Blob(['x']), undefined, onStage);
+
+    expect(onStage.mock.calls).toEqual([['transcribing'], ['translating']]);
+    expect(result.translation).toEqual({ language: 'en', text: 'Hello. Let us start the meeting.' });
+    expect(result.segments.map(segment => segment.translation)).toEqual(['Hello.', 'Let us start the meeting.']);
+    expect(result.text).toBe(original.text);
+  });
+
+  it('翻訳エンドポイントがない場合は Chat Completions でセグメントごとに翻訳する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce(completion('1: Hello.\n2: Let us start the meeting.'));
+    const { service, translate } = createMockService(false);
+
+    const result = await new Translator(both, postProcessor).transcribe(service, new Blob(['x']));
+
+    expect(translate).not.toHaveBeenCalled();
+    const body = JSON.parse((global.fetch as Mock).mock.calls[0][1].body);
+    expect(body.messages[0].content).toContain('into English');
+    expect(body.messages[1].content).toBe('1: こんにちは。\n2: 会議を始めます。');
+    expect(result.segments.map(segment => segment.translation)).toEqual(['Hello.', 'Let us start the meeting.']);
+    expect(result.translation).toEqual({ language: 'en', text: 'Hello.\nLet us start the meeting.' });
+  });
+
+  it('セグメントがなければ全文を翻訳する', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce(completion('Bonjour.'));
+    const { service, transcribe } = createMockService(false);
+    transcribe.mockResolvedValueOnce({ ...original, segments: [] });
+
+    const result = await new Translator({ targetLanguage: 'fr', output: 'translated' }, postProcessor)
+      .transcribe(service, new Blob(['x']));
+
+    expect(result).toMatchObject({ text: 'Bonjour.', language: 'fr' });
+    expect(result.translation).toBeUndefined();
+  });
+
+  it('翻訳に失敗した場合は通知して原文を返す', async () => {
+    (global.fetch as Mock).mockResolvedValueOnce({ ok: false, status: 500, json: async () => ({}) });
+    const { service } = createMockService(false);
+    const onTranslationError = vi.fn();
+
+    const result = await new Translator(both, postProcessor)
+      .transcribe(service, new Blob(['x']), undefined, undefined, onTranslationError);
+
+    expect(result).toBe(original);
+    expect(onTranslationError).toHaveBeenCalledOnce();
+  });
+
+  it('キャンセルされた場合は原文を返さずに中断する', async () => {
+    const { service, translate } = createMockService(true);
+    translate.mockRejectedValueOnce(new TranscriptionCancelledError());
+
+    await expect(new Translator(both, postProcessor).transcribe(service, new Blob(['x'])))
+      .rejects.toBeInstanceOf(TranscriptionCancelledError);
+  });
+});
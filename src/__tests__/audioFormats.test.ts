@@ -0,0 +1,33 @@
+// 音声形式モジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import { getAudioMimeType, getAudioMimeTypeForPath, getAudioExtension } from '../storage/audioFormats';
+
+describe('getAudioMimeType', () => {
+  it('拡張子から MIME タイプを返す（大文字・小文字を区別しない）', () => {
+    expect(getAudioMimeType('m4a')).toBe('audio/mp4');
+    expect(getAudioMimeType('MP3')).toBe('audio/mpeg');
+  });
+
+  it('不明な拡張子は audio/webm にする', () => {
+    expect(getAudioMimeType('aac')).toBe('audio/webm');
+  });
+});
+
+describe('getAudioMimeTypeForPath', () => {
+  it('パスの拡張子から MIME タイプを返す', () => {
+    expect(getAudioMimeTypeForPath('recordings/2026.10/meeting_part1.m4a')).toBe('audio/mp4');
+    expect(getAudioMimeTypeForPath('recordings/meeting')).toBe('audio/webm');
+  });
+});
+
+describe('getAudioExtension', () => {
+  it('codecs などのパラメータを無視して拡張子を返す', () => {
+    expect(getAudioExtension('audio/webm;codecs=opus')).toBe('webm');
+    expect(getAudioExtension('audio/mp4; codecs="mp4a.40.2"')).toBe('m4a');
+  });
+
+  it('不明な形式は webm にする', () => {
+    expect(getAudioExtension('')).toBe('webm');
+  });
+});
@@ -0,0 +1,84 @@
+// エラーモジュールのテスト
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  ApiError,
+  AuthenticationError,
+  RateLimitError,
+  PayloadTooLargeError,
+  ServerError,
+  MalformedResponseError,
+  TimeoutError,
+  TranscriptionError,
+  createApiError,
+  getApiErrorCode
+} from '../api/errors';
+import { handleErrorResponse, parseJsonResponse } from '../api/http';
+import { setLocale, resetI18n } from '../i18n';
+
+describe('getApiErrorCode', () => {
+  it('ステータスコードから種類を判定する', () => {
+    expect(getApiErrorCode(401)).toBe('auth');
+    expect(getApiErrorCode(403)).toBe('auth');
+    expect(getApiErrorCode(429)).toBe('rate-limit');
+    expect(getApiErrorCode(413)).toBe('payload-too-large');
+    expect(getApiErrorCode(502)).toBe('server');
+    expect(getApiErrorCode(400)).toBe('api');
+  });
+});
+
+describe('createApiError', () => {
+  it('種類ごとのクラスを作成する', () => {
+    expect(createApiError(401)).toBeInstanceOf(AuthenticationError);
+    expect(createApiError(429, 'slow down', 3000)).toMatchObject({ retryAfter: 3000 });
+    expect(createApiError(429)).toBeInstanceOf(RateLimitError);
+    expect(createApiError(413)).toBeInstanceOf(PayloadTooLargeError);
+    expect(createApiError(500)).toBeInstanceOf(ServerError);
+    expect(createApiError(400)).toBeInstanceOf(ApiError);
+    expect(createApiError(400)).toBeInstanceOf(TranscriptionError);
+  });
+});
+
+describe('メッセージ', () => {
+  afterEach(() => {
+    resetI18n();
+  });
+
+  it('UIの言語でメッセージを作成し、APIの詳細は翻訳せずに付ける', () => {
+    setLocale('en');
+    expect(new AuthenticationError(401, 'Invalid API key').message).toBe('Authentication failed: Invalid API key');
+    expect(new ServerError(503).message).toBe('Server error (503)');
+
+    setLocale('ja');
+    expect(new AuthenticationError(401, 'Invalid API key').message).toBe('認証エラー: Invalid API key');
+    expect(new ApiError(400, 'Bad request').message).toBe('APIエラー (400): Bad request');
+  });
+
+  it('詳細がなければ種類のメッセージのみ', () => {
+    setLocale('en');
+    expect(new TimeoutError().message).toBe('The API request timed out');
+  });
+});
+
+describe('handleErrorResponse', () => {
+  it('エラーレスポンスからコード・ステータス・詳細を取り出す', async () => {
+    const response = new Response(JSON.stringify({ err_msg: 'Too many requests' }), {
+      status: 429,
+      headers: { 'Retry-After': '2' }
+    });
+
+    await expect(handleErrorResponse(response)).rejects.toMatchObject({
+      code: 'rate-limit',
+      status: 429,
+      detail: 'Too many requests',
+      retryAfter: 2000
+    });
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('JSONでない応答は MalformedResponseError にする', async () => {
+    await expect(parseJsonResponse(new Response('<html>'))).rejects.toBeInstanceOf(MalformedResponseError);
+    await expect(parseJsonResponse(new Response('{"text":"ok"}'))).resolves.toEqual({ text: 'ok' });
+  });
+});
@@ -0,0 +1,53 @@
+// ファイル名パターンモジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatFilenamePattern,
+  sanitizeFilename,
+  DEFAULT_AUDIO_FILENAME_PATTERN,
+  DEFAULT_TRANSCRIPT_FILENAME_PATTERN
+} from '../storage/filenamePattern';
+
+describe('formatFilenamePattern', () => {
+  const date = new Date(2026, 1, 10, 14, 30, 52);
+
+  it('デフォルトパターンは従来のファイル名と同じ', () => {
+    expect(formatFilenamePattern(DEFAULT_AUDIO_FILENAME_PATTERN, date)).toBe('2026-02-10_143052');
+    expect(formatFilenamePattern(DEFAULT_TRANSCRIPT_FILENAME_PATTERN, date)).toBe('2026-02-10_143052_transcription');
+  });
+
+  it('[リテラル] 内のトークンは置換しない', () => {
+    expect(formatFilenamePattern('[MM会議] YY-MM-DD', date)).toBe('MM会議 26-02-10');
+  });
+
+  it('"/" でサブフォルダを作る', () => {
+    expect(formatFilenamePattern('YYYY/MM/DD_HHmmss', date)).toBe('2026/02/10_143052');
+  });
+
+  it('変数を置換する', () => {
+    expect(formatFilenamePattern('YYYY-MM-DD {{title}} ({{language}})', date, {
+      title: '定例会議',
+      language: 'ja'
+    })).toBe('2026-02-10 定例会議 (ja)');
+  });
+
+  it('空の変数は前後の区切り文字ごと取り除く', () => {
+    expect(formatFilenamePattern('YYYY-MM-DD_{{title}}_HHmmss', date)).toBe('2026-02-10_143052');
+    expect(formatFilenamePattern('{{note}}_YYYY-MM-DD', date)).toBe('2026-02-10');
+    expect(formatFilenamePattern('YYYY-MM-DD - {{title}}', date)).toBe('2026-02-10');
+  });
+
+  it('変数に含まれるスラッシュや禁止文字はフォルダにしない', () => {
+    expect(formatFilenamePattern('{{title}}', date, { title: 'A/B: #1?' })).toBe('AB 1');
+  });
+
+  it('すべて空になった場合はデフォルトパターンを使う', () => {
+    expect(formatFilenamePattern('{{title}}', date)).toBe('2026-02-10_143052');
+  });
+});
+
+describe('sanitizeFilename', () => {
+  it('ファイル名に使えない文字を取り除く', () => {
+    expect(sanitizeFilename(' a\\b/c:d*e?f"g<h>i|j#k^l[m]n ')).toBe('abcdefghijklmn');
+  });
+});
@@ -0,0 +1,83 @@
+// 用語集モジュールのテスト
+
+import { describe, it, expect, vi } from 'vitest';
+import type { Vault } from 'obsidian';
+import { Glossary, parseGlossary, mergeGlossaries } from '../glossary/Glossary';
+
+// adapter のみを使う Vault のモック
+function createVault(files: Record<string, string>): Vault {
+  return {
+    adapter: {
+      exists: vi.fn(async (path: string) => path in files),
+      read: vi.fn(async (path: string) => files[path])
+    }
+  } as unknown as Vault;
+}
+
+describe('parseGlossary', () => {
+  it('1行ごと・カンマ区切りの用語を取り出す', () => {
+    expect(parseGlossary('Acme Cloud\nKubernetes, 山田、 鈴木\n\nAcme Cloud')).toEqual({
+      terms: ['Acme Cloud', 'Kubernetes', '山田', '鈴木'],
+      replacements: []
+    });
+  });
+
+  it('「誤 -> 正」を置換ルールにし、正しい表記を用語に加える', () => {
+    expect(parseGlossary('akme, acne -> Acme\nAcme => Acme\nくばねてす => Kubernetes\nbroken ->')).toEqual({
+      terms: ['Acme', 'Kubernetes'],
+      replacements: [
+        { from: 'akme', to: 'Acme' },
+        { from: 'acne', to: 'Acme' },
+        { from: 'くばねてす', to: 'Kubernetes' }
+      ]
+    });
+  });
+
+  it('ノートのフロントマター・見出し・リストの記号・内部リンクを無視する', () => {
+    const note = '---\ntags: [glossary]\n---\n# 製品\n- Acme Cloud\n* [[山田 太郎]]\n- [ ] SRE\n- akme -> Acme';
+    expect(parseGlossary(note)).toEqual({
+      terms: ['Acme Cloud', '山田 太郎', 'SRE', 'Acme'],
+      replacements: [{ from: 'akme', to: 'Acme' }]
+    });
+  });
+});
+
+describe('mergeGlossaries', () => {
+  it('先の用語を優先して重複を除き、置換ルールは順に連結する', () => {
+    const merged = mergeGlossaries(
+      { terms: ['Acme', 'SRE'], replacements: [{ from: 'akme', to: 'Acme' }] },
+      { terms: ['SRE', 'Kubernetes'], replacements: [{ from: 'sre', to: 'SRE' }] }
+    );
+    expect(merged.terms).toEqual(['Acme', 'SRE', 'Kubernetes']);
+    expect(merged.replacements).toHaveLength(2);
+  });
+});
+
+describe('Glossary', () => {
+  it('設定の用語集とノートの用語集をまとめる（拡張子は省略可）', async () => {
+    const glossary = new Glossary(createVault({ 'glossary.md': '- Kubernetes\n- akme -> Acme' }), {
+      text: 'Acme',
+      notePath: 'glossary'
+    });
+
+    expect(glossary.getEntries().terms).toEqual(['Acme']);
+    await glossary.load();
+    expect(glossary.getEntries()).toEqual({
+      terms: ['Acme', 'Kubernetes'],
+      replacements: [{ from: 'akme', to: 'Acme' }]
+    });
+  });
+
+  it('ノートが見つからない場合は設定の用語集のみ', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const glossary = new Glossary(createVault({ 'glossary.md': 'Kubernetes' }), { text: 'Acme', notePath: 'glossary.md' });
+    await glossary.load();
+
+    glossary.updateConfig({ notePath: 'missing.md' });
+    await glossary.load();
+
+    expect(glossary.getEntries().terms).toEqual(['Acme']);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,33 @@
+// 言語モジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import { getPrimaryLanguage, isAutoLanguage, normalizeLanguageCode } from '../api/languages';
+
+describe('isAutoLanguage', () => {
+  it('auto のみ自動検出とみなす', () => {
+    expect(isAutoLanguage('auto')).toBe(true);
+    expect(isAutoLanguage('ja')).toBe(false);
+  });
+});
+
+describe('normalizeLanguageCode', () => {
+  it('言語名・地域付きのコードを言語コードに揃える', () => {
+    expect(normalizeLanguageCode('japanese')).toBe('ja');
+    expect(normalizeLanguageCode('English')).toBe('en');
+    expect(normalizeLanguageCode('en_us')).toBe('en');
+    expect(normalizeLanguageCode('en-US')).toBe('en');
+    expect(normalizeLanguageCode('ja')).toBe('ja');
+    expect(normalizeLanguageCode(undefined)).toBe('');
+  });
+});
+
+describe('getPrimaryLanguage', () => {
+  it('最も多く検出された言語を返す', () => {
+    expect(getPrimaryLanguage(['en', 'ja', 'ja'])).toBe('ja');
+  });
+
+  it('同数の場合は先に現れた言語を返す', () => {
+    expect(getPrimaryLanguage(['en', 'ja'])).toBe('en');
+    expect(getPrimaryLanguage(['', ''])).toBe('');
+  });
+});
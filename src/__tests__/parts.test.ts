@@ -0,0 +1,84 @@
+// 録音パートの結果のマージのテスト
+
+import { describe, it, expect, vi } from 'vitest';
+import { mergePartResults, transcribeParts } from '../api/parts';
+import type { TranscriptionResult } from '../api/TranscriptionService';
+
+const first: TranscriptionResult = {
+  text: '前半',
+  segments: [{ start: 1, end: 2, text: '前半', words: [{ start: 1, end: 2, word: '前半' }] }],
+  duration: 600,
+  language: 'ja',
+  translation: { language: 'en', text: 'First half' }
+};
+
+const second: TranscriptionResult = {
+  text: '後半',
+  segments: [{ start: 3, end: 4, text: '後半' }],
+  duration: 300,
+  language: 'ja',
+  translation: { language: 'en', text: 'Second half' }
+};
+
+describe('mergePartResults', () => {
+  it('直前までのパートの長さだけ時間をずらしてマージする', () => {
+    expect(mergePartResults([first, second])).toEqual({
+      text: '前半\n後半',
+      segments: [
+        { start: 1, end: 2, text: '前半', words: [{ start: 1, end: 2, word: '前半' }] },
+        { start: 603, end: 604, text: '後半' }
+      ],
+      duration: 900,
+      language: 'ja',
+      translation: { language: 'en', text: 'First half\nSecond half' },
+      partStarts: [0, 600]
+    });
+  });
+
+  it('チャンクごとの言語を記録したパートがあれば、記録のないパートは全体の言語で補う', () => {
+    const merged = mergePartResults([
+      { ...first, language: 'en', chunkLanguages: ['en', 'ja'] },
+      { ...second, language: 'en' }
+    ]);
+    expect(merged.chunkLanguages).toEqual(['en', 'ja', 'en']);
+  });
+
+  it('録音時の長さがある場合は結果の duration ではなくそれだけずらす', () => {
+    const merged = mergePartResults([{ ...first, duration: 0 }, { ...second, duration: 0 }], [605.5, 300]);
+
+    expect(merged.partStarts).toEqual([0, 605.5]);
+    expect(merged.segments[1]).toEqual({ start: 608.5, end: 609.5, text: '後半' });
+    expect(merged.duration).toBe(905.5);
+  });
+
+  it('録音時の長さがないパートは結果の duration を使う', () => {
+    expect(mergePartResults([first, second], [0]).partStarts).toEqual([0, 600]);
+  });
+
+  it('パートが1つの場合はそのまま返す', () => {
+    expect(mergePartResults([first])).toBe(first);
+  });
+});
+
+describe('transcribeParts', () => {
+  it('パートを順に文字起こしする', async () => {
+    const transcribe = vi.fn()
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce(second);
+
+    const result = await transcribeParts(2, transcribe);
+
+    expect(transcribe.mock.calls).toEqual([[0], [1]]);
+    expect(result.partStarts).toEqual([0, 600]);
+  });
+
+  it('パートごとの録音時間でずらす', async () => {
+    const transcribe = vi.fn()
+      .mockResolvedValueOnce({ ...first, duration: 0 })
+      .mockResolvedValueOnce(second);
+
+    const result = await transcribeParts(2, transcribe, [610, 300]);
+
+    expect(result.partStarts).toEqual([0, 610]);
+  });
+});
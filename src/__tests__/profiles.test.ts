@@ -0,0 +1,84 @@
+// APIプロファイルのテスト
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, type PluginSettings } from '../settings/PluginSettings';
+import {
+  DEFAULT_PROFILE_ID,
+  applyProfile,
+  getFolderProfileId,
+  createProfile,
+  type ApiProfile
+} from '../settings/profiles';
+
+const profile = (id: string, overrides: Partial<ApiProfile> = {}): ApiProfile => ({
+  id,
+  name: id,
+  provider: 'whisper-cpp',
+  apiKey: '',
+  apiUrl: 'http://localhost:8080/inference',
+  model: '',
+  language: 'en',
+  initialPrompt: '',
+  ...overrides
+});
+
+const settings = (overrides: Partial<PluginSettings> = {}): PluginSettings => ({
+  ...DEFAULT_SETTINGS,
+  apiKey: 'sk-default',
+  ...overrides
+});
+
+describe('applyProfile', () => {
+  it('プロファイルのAPI設定で置き換える', () => {
+    const s = settings({ profiles: [profile('local', { initialPrompt: 'Obsidian' })] });
+    const applied = applyProfile(s, 'local');
+
+    expect(applied).toMatchObject({
+      provider: 'whisper-cpp',
+      apiKey: '',
+      apiUrl: 'http://localhost:8080/inference',
+      language: 'en',
+      initialPrompt: 'Obsidian'
+    });
+    // API設定以外はそのまま
+    expect(applied.timeout).toBe(s.timeout);
+  });
+
+  it('デフォルト・削除済みのプロファイルは元の設定のまま', () => {
+    const s = settings({ profiles: [profile('local')] });
+
+    expect(applyProfile(s, DEFAULT_PROFILE_ID)).toBe(s);
+    expect(applyProfile(s, 'deleted')).toBe(s);
+  });
+});
+
+describe('getFolderProfileId', () => {
+  const s = settings({
+    profiles: [profile('meetings'), profile('medical')],
+    folderProfiles: [
+      { folder: 'Work', profileId: 'meetings' },
+      { folder: '/Work/Clinic/', profileId: 'medical' },
+      { folder: 'Old', profileId: 'deleted' }
+    ]
+  });
+
+  it('最も深いフォルダーのプロファイルを使う', () => {
+    expect(getFolderProfileId(s, 'Work/standup.md')).toBe('meetings');
+    expect(getFolderProfileId(s, 'Work/Clinic/2026/visit.webm')).toBe('medical');
+  });
+
+  it('一致しない場合・プロファイルが削除済みの場合はデフォルト', () => {
+    expect(getFolderProfileId(s, 'Workshop/note.md')).toBe(DEFAULT_PROFILE_ID);
+    expect(getFolderProfileId(s, 'Old/note.md')).toBe(DEFAULT_PROFILE_ID);
+    expect(getFolderProfileId(s, null)).toBe(DEFAULT_PROFILE_ID);
+  });
+});
+
+describe('createProfile', () => {
+  it('現在のAPI設定を初期値とし、重複しないIDを付ける', () => {
+    const created = createProfile(settings({ profiles: [profile('profile_2')] }));
+
+    expect(created.id).toBe('profile_3');
+    expect(created).toMatchObject({ provider: 'openai', apiKey: 'sk-default', model: 'whisper-1' });
+  });
+});
@@ -0,0 +1,56 @@
+// プロンプトモジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import { estimateTokens, getTextTail, buildPrompt, getKeywords } from '../api/prompt';
+
+describe('estimateTokens', () => {
+  it('ASCII は3文字で1トークン、それ以外は1文字で2トークンとして見積もる', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('Acme')).toBe(2);
+    expect(estimateTokens('会議')).toBe(4);
+  });
+});
+
+describe('getTextTail', () => {
+  it('末尾を上限に収まる分だけ取り出す', () => {
+    expect(getTextTail('会議を始めます。', 6)).toBe('ます。');
+    expect(getTextTail(' short ', 10)).toBe('short');
+  });
+
+  it('途中で切れた英単語は除く', () => {
+    // 上限2トークン = ASCII 6文字 "ng now"
+    expect(getTextTail('we are starting now', 2)).toBe('now');
+  });
+});
+
+describe('buildPrompt', () => {
+  it('初期プロンプトの後に用語を加える', () => {
+    expect(buildPrompt('会議の録音です。', ['Acme', 'Kubernetes'])).toBe('会議の録音です。\nAcme, Kubernetes');
+    expect(buildPrompt('', ['Acme'])).toBe('Acme');
+    expect(buildPrompt(' 会議 ', [])).toBe('会議');
+  });
+
+  it('上限を超える用語は加えない', () => {
+    // "abc" = 1、", def" = 2、", ghi" = 2
+    expect(buildPrompt('abc', ['def', 'ghi'], 3)).toBe('abc\ndef');
+    expect(buildPrompt('abc', ['def', 'ghi'], 1)).toBe('abc');
+  });
+
+  it('ノートの見出しを用語の前に、直前のチャンクの末尾を最後に加える', () => {
+    expect(buildPrompt('会議', ['Acme'], undefined, { noteContext: ['定例会', '予算'], previousText: '前回の続きです。' }))
+      .toBe('会議\n定例会, 予算\nAcme\n前回の続きです。');
+  });
+
+  it('直前のチャンクの末尾を用語より優先する', () => {
+    // "abc" = 1、"xyz" = 1、", def" = 2
+    expect(buildPrompt('abc', ['def'], 3, { previousText: 'xyz' })).toBe('abc\nxyz');
+  });
+});
+
+describe('getKeywords', () => {
+  it('初期プロンプトの区切りと用語をまとめ、重複を除く', () => {
+    expect(getKeywords({ initialPrompt: 'Acme, 山田\nベータ', vocabulary: ['Acme', 'Kubernetes'] }))
+      .toEqual(['Acme', '山田', 'ベータ', 'Kubernetes']);
+    expect(getKeywords({ initialPrompt: '' })).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+// 置換辞書モジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import { applyReplacements, applyReplacementsToText } from '../api/replacements';
+
+describe('applyReplacementsToText', () => {
+  it('大文字・小文字を区別せず、英数字の語は単語単位で置き換える', () => {
+    const rules = [{ from: 'akme', to: 'Acme' }];
+    expect(applyReplacementsToText('AKME and akme cloud, not akmes', rules)).toBe('Acme and Acme cloud, not akmes');
+  });
+
+  it('日本語は語の途中でも置き換え、記号は正規表現として扱わない', () => {
+    expect(applyReplacementsToText('くばねてすを使う', [{ from: 'くばねてす', to: 'Kubernetes' }])).toBe('Kubernetesを使う');
+    expect(applyReplacementsToText('c++ と c', [{ from: 'c++', to: 'C++' }])).toBe('C++ と c');
+    expect(applyReplacementsToText('$1', [{ from: '$1', to: '$&$&' }])).toBe('$&$&');
+  });
+});
+
+describe('applyReplacements', () => {
+  it('全文とセグメントに適用する', () => {
+    const result = applyReplacements(
+      {
+        text: 'akme の会議',
+        segments: [{ start: 0, end: 1, text: 'akme の会議', words: [{ start: 0, end: 1, word: 'akme' }] }],
+        duration: 1,
+        language: 'ja'
+      },
+      [{ from: 'akme', to: 'Acme' }]
+    );
+    expect(result.text).toBe('Acme の会議');
+    expect(result.segments[0].text).toBe('Acme の会議');
+    expect(result.segments[0].words?.[0].word).toBe('akme');
+  });
+});
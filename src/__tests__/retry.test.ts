@@ -0,0 +1,112 @@
+// リトライモジュールのテスト
+
+import { describe, it, expect, vi } from 'vitest';
+import { withRetry, isRetryableError, isTransientError, getRetryDelay, type RetryPolicy } from '../api/retry';
+import { parseRetryAfter } from '../api/http';
+import { ApiError, NetworkError, TimeoutError, MalformedResponseError, TranscriptionCancelledError } from '../api/errors';
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelay: 0, maxDelay: 60000 };
+
+describe('parseRetryAfter', () => {
+  it('秒数をミリ秒に変換する', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+  });
+
+  it('HTTP日付は現在時刻との差にする', () => {
+    const now = Date.parse('2026-02-10T05:30:00Z');
+    expect(parseRetryAfter('Tue, 10 Feb 2026 05:30:30 GMT', now)).toBe(30000);
+  });
+
+  it('解釈できない値・空の場合は undefined', () => {
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('isRetryableError', () => {
+  it('429と5xxは再試行する', () => {
+    expect(isRetryableError(new ApiError(429))).toBe(true);
+    expect(isRetryableError(new ApiError(503))).toBe(true);
+  });
+
+  it('認証エラーやステータスのないエラーは再試行しない', () => {
+    expect(isRetryableError(new ApiError(401))).toBe(false);
+    expect(isRetryableError(new NetworkError())).toBe(false);
+  });
+});
+
+describe('isTransientError', () => {
+  it('タイムアウト・ネットワークエラー・429・5xx は時間をおけば成功する可能性がある', () => {
+    expect(isTransientError(new TimeoutError())).toBe(true);
+    expect(isTransientError(new NetworkError())).toBe(true);
+    expect(isTransientError(new ApiError(429))).toBe(true);
+    expect(isTransientError(new ApiError(502))).toBe(true);
+  });
+
+  it('認証エラー・応答を解釈できない場合・キャンセル・その他のエラーは対象外', () => {
+    expect(isTransientError(new ApiError(401))).toBe(false);
+    expect(isTransientError(new ApiError(413))).toBe(false);
+    expect(isTransientError(new MalformedResponseError())).toBe(false);
+    expect(isTransientError(new TranscriptionCancelledError())).toBe(false);
+    expect(isTransientError(new Error('File not found'))).toBe(false);
+  });
+});
+
+describe('getRetryDelay', () => {
+  const backoff: RetryPolicy = { maxRetries: 5, baseDelay: 1000, maxDelay: 5000 };
+
+  it('回数ごとに2倍になり、半分〜全体の範囲で揺らす', () => {
+    expect(getRetryDelay(1, backoff, undefined, () => 0)).toBe(500);
+    expect(getRetryDelay(1, backoff, undefined, () => 1)).toBe(1000);
+    expect(getRetryDelay(3, backoff, undefined, () => 1)).toBe(4000);
+  });
+
+  it('上限を超えない', () => {
+    expect(getRetryDelay(10, backoff, undefined, () => 1)).toBe(5000);
+  });
+
+  it('Retry-After があればそれに従う（上限まで）', () => {
+    expect(getRetryDelay(1, backoff, new ApiError(429, undefined, 3000))).toBe(3000);
+    expect(getRetryDelay(1, backoff, new ApiError(429, undefined, 120000))).toBe(5000);
+  });
+});
+
+describe('withRetry', () => {
+  it('再試行して成功した結果を返す', async () => {
+    const request = vi.fn()
+      .mockRejectedValueOnce(new ApiError(429))
+      .mockRejectedValueOnce(new ApiError(502))
+      .mockResolvedValueOnce('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(request, policy, undefined, onRetry)).resolves.toBe('ok');
+
+    expect(request).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([attempt]) => attempt.attempt)).toEqual([1, 2]);
+    expect(onRetry.mock.calls[0][0].maxRetries).toBe(3);
+  });
+
+  it('最大回数を超えたら最後のエラーを投げる', async () => {
+    const request = vi.fn().mockRejectedValue(new ApiError(500));
+
+    await expect(withRetry(request, policy)).rejects.toMatchObject({ status: 500 });
+    expect(request).toHaveBeenCalledTimes(4);
+  });
+
+  it('再試行しないエラーはそのまま投げる', async () => {
+    const request = vi.fn().mockRejectedValue(new ApiError(401));
+
+    await expect(withRetry(request, policy)).rejects.toMatchObject({ code: 'auth' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('待機中にキャンセルすると再試行しない', async () => {
+    const controller = new AbortController();
+    const request = vi.fn().mockRejectedValue(new ApiError(429, undefined, 60000));
+
+    const promise = withRetry(request, policy, controller.signal, () => controller.abort());
+
+    await expect(promise).rejects.toBeInstanceOf(TranscriptionCancelledError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -16,6 +16,7 @@ function createGetUserMediaMock() {
 // グローバルなモック設定
 beforeEach(() => {
   vi.clearAllMocks();
+  mockInputAmplitude = DEFAULT_INPUT_AMPLITUDE;
   // clearAllMocks の後にモックを再設定
   if (global.navigator?.mediaDevices) {
      
@@ -42,12 +43,15 @@ class MockMediaRecorder {
   onpause: (() => void) | null = null;
   onresume: (() => void) | null = null;
   onstart: (() => void) | null = null;
+  mimeType: string;
 
   private chunks: Blob[] = [];
   private stream: MediaStream;
 
-  constructor(stream: MediaStream, _options?: MediaRecorderOptions) {
+  constructor(stream: MediaStream, options?: MediaRecorderOptions) {
     this.stream = stream;
+    // 形式を指定しない場合はブラウザが選ぶ（iOS・Safari を想定）
+    this.mimeType = options?.mimeType ?? 'audio/mp4';
   }
 
   start(_timeslice?: number): void {
@@ -109,12 +113,34 @@ class MockAudioContext {
     };
   }
 
+  createGain(): { gain: { value: number }; connect: (node: AudioNode) => void } {
+    return {
+      gain: { value: 1 },
+      connect: vi.fn()
+    };
+  }
+
+  createMediaStreamDestination(): { stream: MediaStream } {
+    return {
+      stream: { getTracks: () => [] } as unknown as MediaStream
+    };
+  }
+
   close(): Promise<void> {
     this.state = 'closed';
     return Promise.resolve();
   }
 }
 
+// マイク入力の波形の振幅（0 で無音）
+const DEFAULT_INPUT_AMPLITUDE = 0.5;
+let mockInputAmplitude = DEFAULT_INPUT_AMPLITUDE;
+
+// マイク入力の振幅を設定するヘルパー関数（テスト用、テストごとにデフォルトに戻す）
+export function setMockInputAmplitude(amplitude: number): void {
+  mockInputAmplitude = amplitude;
+}
+
 class MockAnalyserNode {
   fftSize = 256;
   frequencyBinCount = 128;
@@ -126,6 +152,13 @@ class MockAnalyserNode {
     }
   }
 
+  getFloatTimeDomainData(array: Float32Array): void {
+    // 振幅 mockInputAmplitude の矩形波
+    for (let i = 0; i < array.length; i++) {
+      array[i] = i % 2 === 0 ? mockInputAmplitude : -mockInputAmplitude;
+    }
+  }
+
   connect(_destination: AudioNode): void {
     // no-op
   }
@@ -134,6 +167,26 @@ class MockAnalyserNode {
 // @ts-expect-error - グローバルにモックを設定
 global.AudioContext = MockAudioContext;
 
+// MediaStream のモック（jsdom にないため）
+class MockMediaStream {
+  private tracks: unknown[];
+
+  constructor(tracks: unknown[] = []) {
+    this.tracks = [...tracks];
+  }
+
+  getTracks(): unknown[] {
+    return this.tracks;
+  }
+
+  getAudioTracks(): unknown[] {
+    return this.tracks;
+  }
+}
+
+// @ts-expect-error - グローバルにモックを設定
+global.MediaStream = MockMediaStream;
+
 // moment のグローバルモック（Obsidianがmomentをグローバルに提供するため）
 let mockMomentLocale = 'en';
 
@@ -150,6 +203,97 @@ export function setMomentLocale(locale: string): void {
 // fetch のモック
 global.fetch = vi.fn();
 
+// XMLHttpRequest のモック
+// 送信は fetch のモックに委譲し、テストのレスポンス設定を fetch と共用する
+type MockProgressHandler = ((event: { lengthComputable: boolean; loaded: number; total: number }) => void) | null;
+
+// リクエスト本文のバイト数（FormData は各値の合計で近似）
+function getBodySize(body?: Blob | FormData | null): number {
+  if (body instanceof Blob) return body.size;
+  if (!(body instanceof FormData)) return 0;
+  let size = 0;
+  body.forEach(value => {
+    size += typeof value === 'string' ? value.length : value.size;
+  });
+  return size;
+}
+
+class MockXMLHttpRequest {
+  status = 0;
+  statusText = '';
+  responseText = '';
+  timeout = 0;
+  upload: { onprogress: MockProgressHandler; onload: MockProgressHandler } = { onprogress: null, onload: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+
+  private method = 'GET';
+  private url = '';
+  private headers: Record<string, string> = {};
+  private responseHeaders = '';
+  private controller = new AbortController();
+  private done = false;
+
+  open(method: string, url: string): void {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string): void {
+    this.headers[name] = value;
+  }
+
+  getAllResponseHeaders(): string {
+    return this.responseHeaders;
+  }
+
+  abort(): void {
+    this.controller.abort();
+    this.finish(this.onabort);
+  }
+
+  send(body?: Blob | FormData | null): void {
+    const total = getBodySize(body);
+    if (this.timeout > 0) {
+      setTimeout(() => this.finish(this.ontimeout), this.timeout);
+    }
+
+    Promise.resolve(global.fetch(this.url, {
+      method: this.method,
+      headers: this.headers,
+      body,
+      signal: this.controller.signal
+    })).then(async (response: { ok?: boolean; status?: number; headers?: Headers; json?: () => Promise<unknown> }) => {
+      if (this.done) return;
+      // 送信完了とレスポンスを通知
+      this.upload.onprogress?.({ lengthComputable: true, loaded: total, total });
+      this.upload.onload?.({ lengthComputable: true, loaded: total, total });
+      this.status = response.status ?? (response.ok === false ? 500 : 200);
+      response.headers?.forEach((value, name) => {
+        this.responseHeaders += `${name}: ${value}\r\n`;
+      });
+      try {
+        this.responseText = JSON.stringify(await response.json?.());
+      } catch {
+        this.responseText = '';
+      }
+      this.finish(this.onload);
+    }, () => this.finish(this.onerror));
+  }
+
+  // 完了時のハンドラーは1回だけ呼ぶ
+  private finish(handler: (() => void) | null): void {
+    if (this.done) return;
+    this.done = true;
+    handler?.();
+  }
+}
+
+// @ts-expect-error - グローバルにモックを設定
+global.XMLHttpRequest = MockXMLHttpRequest;
+
 // Blob.arrayBuffer のポリフィル（jsdom用）
 if (!Blob.prototype.arrayBuffer) {
   Blob.prototype.arrayBuffer = function(): Promise<ArrayBuffer> {
@@ -0,0 +1,73 @@
+// 話者分離モジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import { formatSpeakerLabel, getSpeakers, groupSpeakerTurns, renameSpeakers } from '../api/speakers';
+import type { TranscriptionResult, TranscriptionSegment } from '../api/TranscriptionService';
+
+const segments: TranscriptionSegment[] = [
+  { start: 0, end: 2, text: 'Hello.', speaker: 'Speaker 1' },
+  { start: 2, end: 4, text: 'How are you?', speaker: 'Speaker 1' },
+  { start: 4, end: 6, text: 'Fine.', speaker: 'Speaker 2' },
+  { start: 6, end: 7, text: 'Thanks.' },
+  { start: 7, end: 9, text: 'Good.', speaker: 'Speaker 1' }
+];
+
+describe('formatSpeakerLabel', () => {
+  it('0始まりの数値を Speaker N に変換する', () => {
+    expect(formatSpeakerLabel(0)).toBe('Speaker 1');
+    expect(formatSpeakerLabel(5)).toBe('Speaker 6');
+  });
+
+  it('アルファベット1文字を Speaker N に変換する', () => {
+    expect(formatSpeakerLabel('A')).toBe('Speaker 1');
+    expect(formatSpeakerLabel('C')).toBe('Speaker 3');
+  });
+
+  it('それ以外のラベルはそのまま使う', () => {
+    expect(formatSpeakerLabel('agent')).toBe('agent');
+  });
+});
+
+describe('getSpeakers', () => {
+  it('登場順に重複なく返す', () => {
+    expect(getSpeakers(segments)).toEqual(['Speaker 1', 'Speaker 2']);
+  });
+
+  it('話者がなければ空配列', () => {
+    expect(getSpeakers([{ start: 0, end: 1, text: 'a' }])).toEqual([]);
+  });
+});
+
+describe('groupSpeakerTurns', () => {
+  it('連続する同じ話者をまとめ、話者のないセグメントは直前のターンに含める', () => {
+    const turns = groupSpeakerTurns(segments);
+
+    expect(turns.map(({ speaker, start, end, text }) => ({ speaker, start, end, text }))).toEqual([
+      { speaker: 'Speaker 1', start: 0, end: 4, text: 'Hello. How are you?' },
+      { speaker: 'Speaker 2', start: 4, end: 7, text: 'Fine. Thanks.' },
+      { speaker: 'Speaker 1', start: 7, end: 9, text: 'Good.' }
+    ]);
+  });
+
+  it('和文は空白を挟まずに連結する', () => {
+    const turns = groupSpeakerTurns([
+      { start: 0, end: 1, text: 'はい。', speaker: 'A' },
+      { start: 1, end: 2, text: 'そうです。', speaker: 'A' }
+    ]);
+
+    expect(turns[0].text).toBe('はい。そうです。');
+  });
+});
+
+describe('renameSpeakers', () => {
+  it('入力された名前に置き換え、空欄はラベルのまま残す', () => {
+    const result: TranscriptionResult = { text: '', segments, duration: 9, language: 'en' };
+
+    const renamed = renameSpeakers(result, { 'Speaker 1': ' 田中 ', 'Speaker 2': '' });
+
+    expect(renamed.segments.map(segment => segment.speaker)).toEqual([
+      '田中', '田中', 'Speaker 2', undefined, '田中'
+    ]);
+    expect(result.segments[0].speaker).toBe('Speaker 1');
+  });
+});
@@ -0,0 +1,68 @@
+// タイムスタンプリンク解析モジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimestamp,
+  findTimestampLinks,
+  findActiveSegment
+} from '../player/timestampLinks';
+
+describe('parseTimestamp', () => {
+  it('HH:MM:SS を秒に変換する', () => {
+    expect(parseTimestamp('00:00:00')).toBe(0);
+    expect(parseTimestamp('00:01:30')).toBe(90);
+    expect(parseTimestamp('01:01:01')).toBe(3661);
+  });
+
+  it('100時間以上も変換できる', () => {
+    expect(parseTimestamp('100:00:00')).toBe(360000);
+  });
+
+  it('不正な形式は null', () => {
+    expect(parseTimestamp('1:30')).toBeNull();
+    expect(parseTimestamp('00:60:00')).toBeNull();
+    expect(parseTimestamp('abc')).toBeNull();
+  });
+});
+
+describe('findTimestampLinks', () => {
+  it('タイムスタンプリンクを抽出する', () => {
+    const text = '[00:00:00](recordings/a.webm) こんにちは\n\n[00:01:30](recordings/a.webm) 次の話題';
+    const links = findTimestampLinks(text);
+
+    expect(links).toHaveLength(2);
+    expect(links[1]).toEqual({
+      from: text.indexOf('[00:01:30]'),
+      to: text.indexOf(' 次の話題'),
+      label: '00:01:30',
+      seconds: 90,
+      audioPath: 'recordings/a.webm'
+    });
+  });
+
+  it('山括弧で囲まれたパスとURLエンコードされたパスを扱える', () => {
+    const links = findTimestampLinks('[00:00:05](<my recordings/a.webm>) [00:00:10](my%20recordings/a.webm)');
+
+    expect(links.map(link => link.audioPath)).toEqual(['my recordings/a.webm', 'my recordings/a.webm']);
+  });
+
+  it('タイムスタンプ以外のリンクは無視する', () => {
+    expect(findTimestampLinks('[link](notes/a.md) [00:99:00](a.webm)')).toEqual([]);
+  });
+});
+
+describe('findActiveSegment', () => {
+  const starts = [0, 10, 25];
+
+  it('再生位置を含むセグメントを返す', () => {
+    expect(findActiveSegment(starts, 0)).toBe(0);
+    expect(findActiveSegment(starts, 9.9)).toBe(0);
+    expect(findActiveSegment(starts, 10)).toBe(1);
+    expect(findActiveSegment(starts, 100)).toBe(2);
+  });
+
+  it('最初のセグメントより前なら -1', () => {
+    expect(findActiveSegment([5, 10], 2)).toBe(-1);
+    expect(findActiveSegment([], 2)).toBe(-1);
+  });
+});
@@ -0,0 +1,116 @@
+// タイムスタンプ正規化モジュールのテスト
+
+import { describe, it, expect } from 'vitest';
+import {
+  joinWords,
+  assignWordsToSegments,
+  buildSegmentsFromWords,
+  normalizeSegments
+} from '../api/timestamps';
+
+describe('joinWords', () => {
+  it('欧文の単語は空白で連結する', () => {
+    expect(joinWords([
+      { start: 0, end: 0.4, word: 'Hello' },
+      { start: 0.5, end: 0.9, word: 'world.' },
+      { start: 1.0, end: 1.2, word: 'OK' }
+    ])).toBe('Hello world. OK');
+  });
+
+  it('和文の単語は空白なしで連結する', () => {
+    expect(joinWords([
+      { start: 0, end: 0.3, word: 'こんにちは' },
+      { start: 0.3, end: 0.5, word: '、' },
+      { start: 0.5, end: 0.8, word: '世界' }
+    ])).toBe('こんにちは、世界');
+  });
+
+  it('先頭に空白を持つ単語はそのまま連結する', () => {
+    expect(joinWords([
+      { start: 0, end: 0.4, word: ' Hello' },
+      { start: 0.5, end: 0.9, word: ' world' }
+    ])).toBe('Hello world');
+  });
+});
+
+describe('assignWordsToSegments', () => {
+  it('単語の中央時刻でセグメントに割り当てる', () => {
+    const segments = assignWordsToSegments(
+      [
+        { start: 0, end: 2, text: 'Hello world' },
+        { start: 2, end: 4, text: 'Good bye' }
+      ],
+      [
+        { start: 0.2, end: 0.8, word: 'Hello' },
+        { start: 1.0, end: 2.2, word: 'world' },
+        { start: 2.5, end: 3.0, word: 'Good' },
+        { start: 3.1, end: 3.8, word: 'bye' }
+      ]
+    );
+
+    expect(segments[0].words?.map(w => w.word)).toEqual(['Hello', 'world']);
+    expect(segments[1].words?.map(w => w.word)).toEqual(['Good', 'bye']);
+  });
+
+  it('最初のセグメントより前の単語は最初のセグメントに割り当てる', () => {
+    const segments = assignWordsToSegments(
+      [{ start: 1, end: 2, text: 'Hi' }],
+      [{ start: 0.8, end: 1.0, word: 'Hi' }]
+    );
+
+    expect(segments[0].words).toHaveLength(1);
+  });
+});
+
+describe('buildSegmentsFromWords', () => {
+  it('文末記号で区切る', () => {
+    const segments = buildSegmentsFromWords([
+      { start: 0, end: 0.4, word: 'Hello.' },
+      { start: 0.5, end: 0.9, word: 'How' },
+      { start: 1.0, end: 1.3, word: 'are' },
+      { start: 1.4, end: 1.8, word: 'you?' }
+    ]);
+
+    expect(segments.map(s => s.text)).toEqual(['Hello.', 'How are you?']);
+    expect(segments[1].start).toBe(0.5);
+    expect(segments[1].end).toBe(1.8);
+  });
+
+  it('長い間で区切る', () => {
+    const segments = buildSegmentsFromWords([
+      { start: 0, end: 0.4, word: 'えー' },
+      { start: 2.0, end: 2.5, word: '本題' }
+    ]);
+
+    expect(segments.map(s => s.start)).toEqual([0, 2.0]);
+  });
+
+  it('最大秒数で区切る', () => {
+    const words = Array.from({ length: 10 }, (_, i) => ({ start: i, end: i + 0.9, word: 'word' }));
+    const segments = buildSegmentsFromWords(words, { maxPause: 1.0, maxDuration: 5 });
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0].end).toBeLessThanOrEqual(5);
+  });
+});
+
+describe('normalizeSegments', () => {
+  it('words がなければセグメントのテキストを整形して返す', () => {
+    expect(normalizeSegments([{ start: 0, end: 1, text: ' テスト ' }], undefined))
+      .toEqual([{ start: 0, end: 1, text: 'テスト' }]);
+  });
+
+  it('segments がなく words のみの場合はセグメントを組み立てる', () => {
+    const segments = normalizeSegments(undefined, [
+      { start: 0, end: 0.5, word: 'Hi.' }
+    ]);
+
+    expect(segments).toEqual([
+      { start: 0, end: 0.5, text: 'Hi.', words: [{ start: 0, end: 0.5, word: 'Hi.' }] }
+    ]);
+  });
+
+  it('どちらもなければ空配列', () => {
+    expect(normalizeSegments(undefined, undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+// チャンク結果ストアモジュール
+// チャンク送信の途中で失敗しても、同じ音声を再送信したときに完了済みのチャンクを送り直さないよう結果を保持する
+
+import type { TranscriptionConfig, TranscriptionResult } from './TranscriptionService';
+
+/**
+ * 完了したチャンクの結果
+ */
+export interface ChunkResultRecord {
+  index: number;
+  startTime: number;            // 元音声でのチャンクの開始時間（秒）
+  endTime: number;
+  result: TranscriptionResult;  // チャンク内の相対時間のまま保持する
+}
+
+/**
+ * 1つの音声ファイル分の結果
+ */
+export interface ChunkResultEntry {
+  key: string;          // 音声のハッシュとチャンクサイズ
+  signature: string;    // 結果に影響する設定（変わった場合は再利用しない）
+  updatedAt: number;    // 最終更新日時（UNIXミリ秒）
+  chunks: ChunkResultRecord[];
+}
+
+/**
+ * 結果の保持期間のデフォルト（30日）
+ */
+export const DEFAULT_CHUNK_RESULT_MAX_AGE = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * 音声の SHA-256 ハッシュ（16進数）を計算
+ */
+export async function hashAudio(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(await blob.arrayBuffer()));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * チャンク結果のキーを作成
+ * チャンクサイズが変わると分割位置も変わるためキーに含める
+ */
+export function createChunkResultKey(hash: string, chunkSizeBytes: number): string {
+  return `${hash}:${chunkSizeBytes}`;
+}
+
+/**
+ * 文字列の FNV-1a ハッシュ（32ビット、16進数）
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * 結果に影響する設定から署名を作成
+ * 同じモデル名でもサーバーが異なれば結果も異なるため apiUrl を含める
+ * プロンプト・用語・temperature などは長くなるためハッシュにまとめる
+ */
+export function createChunkResultSignature(config: TranscriptionConfig): string {
+  const prompt = JSON.stringify([
+    config.initialPrompt,
+    config.vocabulary ?? [],
+    config.noteContext ?? [],
+    config.temperature,
+    config.previousChunkPrompt ?? false
+  ]);
+  const parts = [
+    config.provider,
+    config.apiUrl,
+    config.model,
+    config.language,
+    config.timestampGranularity,
+    config.diarization ? 'diarize' : '',
+    hashText(prompt)
+  ];
+  // 翻訳の結果は文字起こしの結果と区別する
+  if (config.task === 'translate') {
+    parts.push('translate');
+  }
+  return parts.join('|');
+}
+
+/**
+ * チャンク結果ストアクラス
+ * 結果の管理のみを行い、永続化は呼び出し側に委ねる
+ */
+export class ChunkResultStore {
+  private entries: ChunkResultEntry[];
+  private persist: (entries: ChunkResultEntry[]) => Promise<void>;
+
+  constructor(
+    entries: ChunkResultEntry[],
+    persist: (entries: ChunkResultEntry[]) => Promise<void>,
+    maxAge: number = DEFAULT_CHUNK_RESULT_MAX_AGE,
+    now: number = Date.now()
+  ) {
+    this.persist = persist;
+    // 保持期間を過ぎた結果は読み込まない
+    this.entries = entries
+      .filter(entry => now - entry.updatedAt <= maxAge)
+      .map(entry => ({ ...entry, chunks: [...entry.chunks] }));
+  }
+
+  /**
+   * 保持中の結果を取得
+   */
+  getEntries(): ChunkResultEntry[] {
+    return this.entries.map(entry => ({ ...entry, chunks: [...entry.chunks] }));
+  }
+
+  /**
+   * 完了済みのチャンクの結果を取得
+   * 設定が変わった場合や分割位置が一致しない場合は null
+   */
+  find(
+    key: string,
+    signature: string,
+    index: number,
+    range: { startTime: number; endTime: number }
+  ): TranscriptionResult | null {
+    const entry = this.entries.find(e => e.key === key);
+    if (!entry || entry.signature !== signature) return null;
+
+    const record = entry.chunks.find(chunk => chunk.index === index);
+    if (!record || record.startTime !== range.startTime || record.endTime !== range.endTime) {
+      return null;
+    }
+    return record.result;
+  }
+
+  /**
+   * チャンクの結果を保存
+   * 設定が変わっていた場合はそれまでの結果を破棄する
+   */
+  async save(
+    key: string,
+    signature: string,
+    record: ChunkResultRecord,
+    now: number = Date.now()
+  ): Promise<void> {
+    let entry = this.entries.find(e => e.key === key);
+    if (!entry || entry.signature !== signature) {
+      this.entries = this.entries.filter(e => e.key !== key);
+      entry = { key, signature, updatedAt: now, chunks: [] };
+      this.entries.push(entry);
+    }
+
+    entry.chunks = [...entry.chunks.filter(chunk => chunk.index !== record.index), record];
+    entry.updatedAt = now;
+    await this.persist(this.getEntries());
+  }
+
+  /**
+   * 音声ファイル分の結果を削除（すべてのチャンクが完了した場合）
+   */
+  async remove(key: string): Promise<void> {
+    const count = this.entries.length;
+    this.entries = this.entries.filter(entry => entry.key !== key);
+    if (this.entries.length !== count) {
+      await this.persist(this.getEntries());
+    }
+  }
+}
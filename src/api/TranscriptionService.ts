@@ -1,10 +1,40 @@
 // 文字起こしAPIサービスモジュール
-// OpenAI Whisper API互換のエンドポイントに音声を送信して文字起こし
+// 設定されたプロバイダー（OpenAI互換、whisper.cpp、Deepgram、AssemblyAI）に音声を送信して文字起こし
+
+import { AudioSplitter, type AudioChunk, type AudioChunkSplitter } from '../trimmer';
+import { createProvider, type ProviderType } from './providers';
+import { throwIfCancelled, type UploadProgressCallback } from './http';
+import { withRetry, DEFAULT_MAX_RETRY_DELAY, type RetryAttempt } from './retry';
+import { AUTO_LANGUAGE, isAutoLanguage, getPrimaryLanguage } from './languages';
+import { applyReplacements, type ReplacementRule } from './replacements';
+import { shiftSegment } from './parts';
+import {
+  hashAudio,
+  createChunkResultKey,
+  createChunkResultSignature,
+  type ChunkResultStore
+} from './ChunkResultStore';
+
+/**
+ * タイムスタンプの粒度
+ * - none: タイムスタンプなし（json）
+ * - segment: セグメント単位（verbose_json）
+ * - word: セグメント単位 + 単語単位（verbose_json）
+ */
+export type TimestampGranularity = 'none' | 'segment' | 'word';
+
+/**
+ * リクエストの種類
+ * - transcribe: 話された言語で文字起こし
+ * - translate: 英語に翻訳（/audio/translations に対応したプロバイダーのみ）
+ */
+export type TranscriptionTask = 'transcribe' | 'translate';
 
 /**
  * API設定
  */
 export interface TranscriptionConfig {
+  provider: ProviderType;
   apiKey: string;
   apiUrl: string;
   model: string;
@@ -13,18 +43,49 @@ export interface TranscriptionConfig {
   temperature: number;
   initialPrompt: string;
   chunkSizeMB: number;
+  timestampGranularity: TimestampGranularity;
+  diarization: boolean;   // 話者分離（対応プロバイダーのみ）
+  maxRetries: number;     // 429・5xx の再試行回数（リクエスト・チャンクごと）
+  retryBaseDelay: number; // 1回目の再試行までの待機時間（ミリ秒）
+  task?: TranscriptionTask; // 省略時は transcribe
+  vocabulary?: string[];    // 用語集の用語（プロンプト・キーワードに加える）
+  replacements?: ReplacementRule[];  // 文字起こし後に適用する置換ルール
+  noteContext?: string[];   // プロンプトに加えるアクティブなノートのタイトル・見出し
+  previousChunkPrompt?: boolean;  // チャンク送信で直前のチャンクの末尾をプロンプトに加える
+  previousText?: string;    // 直前のチャンクの文字起こし（チャンク送信時にリクエストごとに設定）
 }
 
 /**
  * 進捗状態
+ * uploading: 音声を送信中 / processing: 送信完了、サーバー側の文字起こし待ち / retrying: 再試行の待機中
  */
 export interface TranscriptionProgress {
-  phase: 'uploading' | 'processing' | 'completed' | 'error';
+  phase: 'uploading' | 'processing' | 'retrying' | 'completed' | 'error';
   uploadedBytes: number;
   totalBytes: number;
   percentage: number;
   currentChunk?: number;
   totalChunks?: number;
+  retryAttempt?: number;   // retrying の場合のみ
+  maxRetries?: number;
+  retryDelay?: number;     // 再試行までの待機時間（ミリ秒）
+}
+
+/**
+ * 1リクエスト分の進捗通知
+ */
+interface RequestProgressHandlers {
+  onUploadProgress: UploadProgressCallback;
+  onRetry: (attempt: RetryAttempt) => void;
+}
+
+/**
+ * 単語タイムスタンプ
+ */
+export interface TranscriptionWord {
+  start: number;   // 開始時間（秒）
+  end: number;     // 終了時間（秒）
+  word: string;    // 単語
 }
 
 /**
@@ -34,6 +95,18 @@ export interface TranscriptionSegment {
   start: number;   // 開始時間（秒）
   end: number;     // 終了時間（秒）
   text: string;    // テキスト
+  words?: TranscriptionWord[];  // 単語タイムスタンプ（word粒度の場合のみ）
+  speaker?: string;             // 話者ラベル（話者分離が有効な場合のみ。例: "Speaker 1"）
+  language?: string;            // 検出された言語（言語が auto でチャンク送信した場合のみ）
+  translation?: string;         // 翻訳（原文と翻訳を並べて出力する場合のみ）
+}
+
+/**
+ * 文字起こし結果の翻訳
+ */
+export interface TranscriptionTranslation {
+  language: string;   // 翻訳先の言語
+  text: string;       // 全文の翻訳
 }
 
 /**
@@ -44,6 +117,9 @@ export interface TranscriptionResult {
   segments: TranscriptionSegment[];  // セグメント配列
   duration: number;                  // 音声の長さ（秒）
   language: string;                  // 検出された言語
+  chunkLanguages?: string[];         // チャンクごとに検出された言語（言語が auto でチャンク送信した場合のみ）
+  translation?: TranscriptionTranslation;  // 翻訳（原文と翻訳を並べて出力する場合のみ）
+  partStarts?: number[];             // 録音パートごとの開始時間（秒、複数のパートをマージした場合のみ）
 }
 
 /**
@@ -51,13 +127,20 @@ export interface TranscriptionResult {
  */
 export class TranscriptionService {
   private config: TranscriptionConfig;
+  private splitter: AudioChunkSplitter;
+  private chunkResults: ChunkResultStore | null;
   
   // コールバック
   public onProgress: ((progress: TranscriptionProgress) => void) | null = null;
   public onError: ((error: Error) => void) | null = null;
 
-  constructor(config: TranscriptionConfig) {
+  /**
+   * @param chunkResults - 指定するとチャンクごとの結果を保存し、同じ音声の再送信時に完了済みのチャンクを再利用する
+   */
+  constructor(config: TranscriptionConfig, splitter?: AudioChunkSplitter, chunkResults?: ChunkResultStore) {
     this.config = config;
+    this.splitter = splitter ?? new AudioSplitter();
+    this.chunkResults = chunkResults ?? null;
   }
 
   /**
@@ -69,24 +152,56 @@ export class TranscriptionService {
 
   /**
    * 文字起こし実行
+   * signal を中断すると送信中のリクエストを中止し、TranscriptionCancelledError を投げる
+   * 結果には置換辞書を適用する
    */
-  async transcribe(audioBlob: Blob): Promise<TranscriptionResult> {
-    const totalBytes = audioBlob.size;
-    const chunkSizeBytes = this.config.chunkSizeMB * 1024 * 1024;
-    
-    // チャンク分割が必要か判定
-    if (totalBytes > chunkSizeBytes) {
-      return this.transcribeChunked(audioBlob);
-    }
+  async transcribe(audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptionResult> {
+    const config = this.config;
+    const result = await this.transcribeWith(config, audioBlob, signal);
+    return applyReplacements(result, config.replacements ?? []);
+  }
+
+  /**
+   * 音声を英語に翻訳
+   * 文字起こしと同じく分割・再試行・進捗通知を行い、翻訳されたテキストを結果として返す
+   * 置換辞書は元の言語の文字起こし向けのため適用しない
+   */
+  async translate(audioBlob: Blob, signal?: AbortSignal): Promise<TranscriptionResult> {
+    return this.transcribeWith({ ...this.config, task: 'translate' }, audioBlob, signal);
+  }
+
+  /**
+   * 呼び出し時点の設定で送信
+   * 送信中に updateConfig・別の transcribe / translate が呼ばれても、この送信の設定は変わらない
+   */
+  private async transcribeWith(
+    config: TranscriptionConfig,
+    audioBlob: Blob,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult> {
+    // チャンク分割が必要か判定（不要な場合は単一リクエストで送信）
+    return audioBlob.size > config.chunkSizeMB * 1024 * 1024
+      ? this.transcribeChunked(config, audioBlob, signal)
+      : this.transcribeSingle(config, audioBlob, signal);
+  }
 
-    // 単一リクエストで送信
-    return this.transcribeSingle(audioBlob);
+  /**
+   * 音声から直接翻訳できる言語か判定
+   * 翻訳エンドポイントは英語への翻訳のみ対応
+   */
+  canTranslateTo(language: string): boolean {
+    if (language !== 'en') return false;
+    return createProvider(this.config.provider).canTranslate?.(this.config) ?? false;
   }
 
   /**
    * 単一ファイルの文字起こし
    */
-  private async transcribeSingle(audioBlob: Blob): Promise<TranscriptionResult> {
+  private async transcribeSingle(
+    config: TranscriptionConfig,
+    audioBlob: Blob,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult> {
     this.notifyProgress({
       phase: 'uploading',
       uploadedBytes: 0,
@@ -95,22 +210,13 @@ export class TranscriptionService {
     });
 
     try {
-      const formData = this.createFormData(audioBlob);
-      
-      const response = await this.fetchWithTimeout(this.config.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`
-        },
-        body: formData
-      });
-
-      if (!response.ok) {
-        await this.handleErrorResponse(response);
-      }
+      const result = await this.requestTranscription(
+        config,
+        audioBlob,
+        signal,
+        this.createProgressHandlers(0, audioBlob.size, audioBlob.size)
+      );
 
-      const data = await response.json();
-      
       this.notifyProgress({
         phase: 'completed',
         uploadedBytes: audioBlob.size,
@@ -118,12 +224,7 @@ export class TranscriptionService {
         percentage: 100
       });
 
-      return {
-        text: data.text || '',
-        segments: data.segments || [],
-        duration: data.duration || 0,
-        language: data.language || this.config.language
-      };
+      return result;
     } catch (error) {
       this.handleError(error);
       throw error;
@@ -132,19 +233,45 @@ export class TranscriptionService {
 
   /**
    * チャンク分割送信
+   * 音声をデコードして無音付近で時間ベースに分割し、各チャンクのタイムスタンプを元音声の時間軸に揃えてマージする
+   * キャンセルされた場合は次のチャンクを送信せずに中断する
+   * 完了したチャンクの結果は保存し、途中で失敗した音声を再送信したときは失敗したチャンクから再開する
+   * previousChunkPrompt が有効な場合は、チャンクの境目で文脈が途切れないよう直前までの文字起こしをプロンプトに加える
    */
-  private async transcribeChunked(audioBlob: Blob): Promise<TranscriptionResult> {
-    const totalBytes = audioBlob.size;
-    const chunkSizeBytes = this.config.chunkSizeMB * 1024 * 1024;
-    const totalChunks = Math.ceil(totalBytes / chunkSizeBytes);
+  private async transcribeChunked(
+    config: TranscriptionConfig,
+    audioBlob: Blob,
+    signal?: AbortSignal
+  ): Promise<TranscriptionResult> {
+    const chunkSizeBytes = config.chunkSizeMB * 1024 * 1024;
+
+    let chunks: AudioChunk[];
+    let resume: { key: string; signature: string } | null = null;
+    try {
+      chunks = await this.splitter.split(audioBlob, chunkSizeBytes);
+      if (this.chunkResults) {
+        resume = {
+          key: createChunkResultKey(await hashAudio(audioBlob), chunkSizeBytes),
+          signature: createChunkResultSignature(config)
+        };
+      }
+    } catch (error) {
+      this.handleError(error);
+      throw error;
+    }
+
+    const totalChunks = chunks.length;
+    const totalBytes = chunks.reduce((sum, chunk) => sum + chunk.blob.size, 0);
     
-    const results: string[] = [];
+    const texts: string[] = [];
+    const segments: TranscriptionSegment[] = [];
+    const languages: string[] = [];
+    // 自動検出の場合は複数の言語が混在しうるため、チャンクごとに言語を記録する
+    const autoLanguage = isAutoLanguage(config.language);
     let processedBytes = 0;
 
     for (let i = 0; i < totalChunks; i++) {
-      const start = i * chunkSizeBytes;
-      const end = Math.min(start + chunkSizeBytes, totalBytes);
-      const chunk = audioBlob.slice(start, end, audioBlob.type);
+      const chunk = chunks[i];
 
       this.notifyProgress({
         phase: 'uploading',
@@ -156,32 +283,47 @@ export class TranscriptionService {
       });
 
       try {
-        const formData = this.createFormData(chunk);
-        
-        const response = await this.fetchWithTimeout(this.config.apiUrl, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${this.config.apiKey}`
-          },
-          body: formData
-        });
-
-        if (!response.ok) {
-          await this.handleErrorResponse(response);
+        throwIfCancelled(signal);
+        const saved = resume ? this.chunkResults?.find(resume.key, resume.signature, i, chunk) : null;
+        const result = saved ?? await this.requestTranscription(
+          config,
+          chunk.blob,
+          signal,
+          this.createProgressHandlers(processedBytes, chunk.blob.size, totalBytes, i + 1, totalChunks),
+          config.previousChunkPrompt && texts.length > 0 ? texts.join('\n') : undefined
+        );
+        if (resume && !saved) {
+          await this.saveChunkResult(resume, i, chunk, result);
+        }
+        if (result.text) {
+          texts.push(result.text);
         }
 
-        const data = await response.json();
-        if (data.text) {
-          results.push(data.text);
+        // チャンク内の相対時間を元音声の時間に変換
+        const chunkLanguage = isAutoLanguage(result.language) ? '' : result.language;
+        for (const segment of result.segments) {
+          segments.push({
+            ...shiftSegment(segment, chunk.startTime),
+            ...(autoLanguage && chunkLanguage && { language: chunkLanguage })
+          });
         }
 
-        processedBytes = end;
+        languages.push(chunkLanguage);
+
+        processedBytes += chunk.blob.size;
       } catch (error) {
         this.handleError(error);
         throw error;
       }
     }
 
+    // すべてのチャンクが完了したら保存した結果は不要
+    if (resume) {
+      await this.chunkResults?.remove(resume.key).catch(error => {
+        console.warn('Whisper Transcribe: Failed to clear chunk results:', error);
+      });
+    }
+
     this.notifyProgress({
       phase: 'completed',
       uploadedBytes: totalBytes,
@@ -192,99 +334,114 @@ export class TranscriptionService {
     });
 
     // 結果をマージ
+    // 言語は自動検出の場合は最も多くのチャンクで検出された言語、それ以外は最初に検出された言語
+    const language = autoLanguage ? getPrimaryLanguage(languages) : languages.find(l => l);
     return {
-      text: results.join('\n'),
-      segments: [],
-      duration: 0,
-      language: this.config.language
+      text: texts.join('\n'),
+      segments,
+      duration: totalChunks > 0 ? chunks[totalChunks - 1].endTime : 0,
+      language: language || config.language,
+      // 検出できなかったチャンクは auto のまま記録する
+      ...(autoLanguage && languages.some(l => l) && { chunkLanguages: languages.map(l => l || AUTO_LANGUAGE) })
     };
   }
 
   /**
-   * FormDataを作成
+   * チャンクの結果を保存
+   * 保存に失敗しても文字起こしは続ける（再開できなくなるだけ）
    */
-  private createFormData(audioBlob: Blob): FormData {
-    const formData = new FormData();
-    const filename = this.getFilenameForMimeType(audioBlob.type);
-    formData.append('file', audioBlob, filename);
-    formData.append('model', this.config.model);
-    formData.append('language', this.config.language);
-    formData.append('response_format', 'json');
-    formData.append('temperature', this.config.temperature.toString());
-    
-    if (this.config.initialPrompt) {
-      formData.append('prompt', this.config.initialPrompt);
+  private async saveChunkResult(
+    resume: { key: string; signature: string },
+    index: number,
+    chunk: AudioChunk,
+    result: TranscriptionResult
+  ): Promise<void> {
+    try {
+      await this.chunkResults?.save(resume.key, resume.signature, {
+        index,
+        startTime: chunk.startTime,
+        endTime: chunk.endTime,
+        result
+      });
+    } catch (error) {
+      console.warn('Whisper Transcribe: Failed to save chunk result:', error);
     }
-
-    return formData;
   }
 
   /**
-   * MIMEタイプからファイル名を取得
+   * 1ファイル分のリクエストを設定中のプロバイダーで送信
+   * レート制限・サーバーエラーの場合はこのリクエストだけを再試行する（送信済みのチャンクはやり直さない）
+   * @param previousText - 直前のチャンクまでの文字起こし（末尾をプロンプトに加える）
    */
-  private getFilenameForMimeType(mimeType: string): string {
-    const mimeToExt: Record<string, string> = {
-      'audio/webm': 'audio.webm',
-      'audio/webm;codecs=opus': 'audio.webm',
-      'audio/mpeg': 'audio.mp3',
-      'audio/mp3': 'audio.mp3',
-      'audio/wav': 'audio.wav',
-      'audio/mp4': 'audio.m4a',
-      'audio/ogg': 'audio.ogg',
-      'audio/flac': 'audio.flac',
-    };
-    return mimeToExt[mimeType] || 'audio.webm';
-  }
-
-  /**
-   * タイムアウト付きfetch
-   */
-  private async fetchWithTimeout(
-    url: string,
-    options: RequestInit
-  ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal
-      });
-      clearTimeout(timeoutId);
-      return response;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      if ((error as Error).name === 'AbortError') {
-        throw new Error('タイムアウト: APIリクエストがタイムアウトしました');
-      }
-      throw new Error(`ネットワークエラー: ${(error as Error).message}`);
+  private async requestTranscription(
+    config: TranscriptionConfig,
+    audioBlob: Blob,
+    signal?: AbortSignal,
+    handlers?: RequestProgressHandlers,
+    previousText?: string
+  ): Promise<TranscriptionResult> {
+    const provider = createProvider(config.provider);
+    const requestConfig = previousText ? { ...config, previousText } : config;
+    const request = (): Promise<TranscriptionResult> =>
+      provider.transcribe(audioBlob, requestConfig, signal, handlers?.onUploadProgress, handlers?.onRetry);
+    // 複数のリクエストからなるプロバイダーは失敗したリクエストだけを自身で再試行する
+    if (provider.handlesRetries) {
+      return request();
     }
+    return withRetry(
+      request,
+      {
+        maxRetries: config.maxRetries,
+        baseDelay: config.retryBaseDelay,
+        maxDelay: DEFAULT_MAX_RETRY_DELAY
+      },
+      signal,
+      handlers?.onRetry
+    );
   }
 
   /**
-   * エラーレスポンスを処理
+   * 1リクエスト分の進捗を全体の進捗として通知するコールバックを作成
+   * リクエスト本文にはフォームの区切りなども含まれるため、送信済みの割合を音声のサイズに按分する
+   * 送信が完了したら processing、再試行の待機中は retrying にする
    */
-  private async handleErrorResponse(response: Response): Promise<never> {
-    let errorMessage = 'Unknown error';
-    
-    try {
-      const data = await response.json();
-      errorMessage = data.error?.message || errorMessage;
-    } catch {
-      // JSONパースエラーは無視
-    }
+  private createProgressHandlers(
+    offsetBytes: number,
+    audioBytes: number,
+    totalBytes: number,
+    currentChunk?: number,
+    totalChunks?: number
+  ): RequestProgressHandlers {
+    const chunkInfo = totalChunks ? { currentChunk, totalChunks } : {};
+    const toPercentage = (bytes: number): number =>
+      totalBytes > 0 ? Math.round((bytes / totalBytes) * 100) : 100;
 
-    switch (response.status) {
-      case 401:
-        throw new Error(`認証エラー: ${errorMessage}`);
-      case 429:
-        throw new Error(`レート制限: ${errorMessage}`);
-      case 413:
-        throw new Error(`ファイルサイズ超過: ${errorMessage}`);
-      default:
-        throw new Error(`APIエラー (${response.status}): ${errorMessage}`);
-    }
+    return {
+      onUploadProgress: (loaded, total): void => {
+        const ratio = total > 0 ? Math.min(loaded / total, 1) : 0;
+        const uploadedBytes = offsetBytes + Math.round(audioBytes * ratio);
+        this.notifyProgress({
+          phase: ratio >= 1 ? 'processing' : 'uploading',
+          uploadedBytes,
+          totalBytes,
+          percentage: toPercentage(uploadedBytes),
+          ...chunkInfo
+        });
+      },
+      // 再試行ではこのリクエストを最初から送り直す
+      onRetry: ({ attempt, maxRetries, delay }): void => {
+        this.notifyProgress({
+          phase: 'retrying',
+          uploadedBytes: offsetBytes,
+          totalBytes,
+          percentage: toPercentage(offsetBytes),
+          ...chunkInfo,
+          retryAttempt: attempt,
+          maxRetries,
+          retryDelay: delay
+        });
+      }
+    };
   }
 
   /**
@@ -316,24 +473,7 @@ export class TranscriptionService {
    */
   async testConnection(): Promise<boolean> {
     try {
-      // 小さなテストファイルを作成
-      const testBlob = new Blob(['test'], { type: 'audio/webm' });
-      const formData = new FormData();
-      formData.append('file', testBlob, 'test.webm');
-      formData.append('model', this.config.model);
-      formData.append('language', this.config.language);
-      formData.append('response_format', 'json');
-
-      const response = await this.fetchWithTimeout(this.config.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`
-        },
-        body: formData
-      });
-
-      // 401/403以外はAPIに接続できている（音声が不正でも接続テストはOK）
-      return response.ok || (response.status !== 401 && response.status !== 403);
+      return await createProvider(this.config.provider).testConnection(this.config);
     } catch {
       return false;
     }
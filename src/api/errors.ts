@@ -0,0 +1,175 @@
+// エラーモジュール
+// 文字起こし・後処理のAPI呼び出しの失敗を種類ごとのクラスとコードで表す
+// メッセージはUIの言語で作成し、APIが返した詳細は翻訳せずに後ろに付ける
+
+import { t } from '../i18n';
+
+/**
+ * エラーの種類を表すコード
+ */
+export type TranscriptionErrorCode =
+  | 'auth'                // 認証失敗（APIキーの誤り・権限不足）
+  | 'rate-limit'          // レート制限（429）
+  | 'payload-too-large'   // ファイルサイズ超過（413）
+  | 'timeout'             // タイムアウト
+  | 'network'             // ネットワークエラー
+  | 'server'              // サーバーエラー（5xx）
+  | 'malformed-response'  // 応答を解釈できない
+  | 'api'                 // その他のAPIエラー
+  | 'cancelled';          // ユーザーによるキャンセル
+
+// コードごとの翻訳キー
+const MESSAGE_KEYS: Record<TranscriptionErrorCode, string> = {
+  'auth': 'error.auth',
+  'rate-limit': 'error.rateLimit',
+  'payload-too-large': 'error.payloadTooLarge',
+  'timeout': 'error.timeout',
+  'network': 'error.network',
+  'server': 'error.server',
+  'malformed-response': 'error.malformedResponse',
+  'api': 'error.api',
+  'cancelled': 'error.cancelled'
+};
+
+/**
+ * 文字起こしのエラーの基底クラス
+ * code で種類を判定し、message はそのまま通知に表示できる
+ */
+export class TranscriptionError extends Error {
+  readonly code: TranscriptionErrorCode;
+  readonly detail?: string;   // APIが返したメッセージなど（翻訳しない）
+
+  constructor(code: TranscriptionErrorCode, detail?: string, summary: string = t(MESSAGE_KEYS[code])) {
+    super(detail ? `${summary}: ${detail}` : summary);
+    this.name = 'TranscriptionError';
+    this.code = code;
+    this.detail = detail;
+  }
+}
+
+/**
+ * ユーザーによるキャンセル
+ * タイムアウト・ネットワークエラーと区別するための専用エラー
+ */
+export class TranscriptionCancelledError extends TranscriptionError {
+  constructor() {
+    super('cancelled');
+    this.name = 'TranscriptionCancelledError';
+  }
+}
+
+/**
+ * リクエストのタイムアウト
+ */
+export class TimeoutError extends TranscriptionError {
+  constructor() {
+    super('timeout');
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * リクエストを送信できなかった
+ */
+export class NetworkError extends TranscriptionError {
+  constructor(detail?: string) {
+    super('network', detail);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 成功した応答の内容を解釈できなかった
+ */
+export class MalformedResponseError extends TranscriptionError {
+  constructor(detail?: string) {
+    super('malformed-response', detail);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+/**
+ * ステータスコードからエラーの種類を判定
+ */
+export function getApiErrorCode(status: number): TranscriptionErrorCode {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status === 413) return 'payload-too-large';
+  if (status >= 500) return 'server';
+  return 'api';
+}
+
+/**
+ * APIのエラーレスポンス
+ * リトライの可否を判定できるよう、ステータスコードと Retry-After（ミリ秒）を保持する
+ */
+export class ApiError extends TranscriptionError {
+  readonly status: number;
+  readonly retryAfter?: number;
+
+  constructor(status: number, detail?: string, retryAfter?: number, code: TranscriptionErrorCode = getApiErrorCode(status)) {
+    super(code, detail, t(code === 'api' ? 'error.apiStatus' : MESSAGE_KEYS[code], { status }));
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * 認証失敗（401 / 403）
+ * 設定画面でAPIキーを確認するよう案内する
+ */
+export class AuthenticationError extends ApiError {
+  constructor(status: number, detail?: string) {
+    super(status, detail, undefined, 'auth');
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * レート制限（429）
+ */
+export class RateLimitError extends ApiError {
+  constructor(detail?: string, retryAfter?: number) {
+    super(429, detail, retryAfter, 'rate-limit');
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * ファイルサイズ超過（413）
+ */
+export class PayloadTooLargeError extends ApiError {
+  constructor(detail?: string) {
+    super(413, detail, undefined, 'payload-too-large');
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/**
+ * サーバーエラー（5xx）
+ */
+export class ServerError extends ApiError {
+  constructor(status: number, detail?: string, retryAfter?: number) {
+    super(status, detail, retryAfter, 'server');
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * ステータスコードに応じたエラーを作成
+ */
+export function createApiError(status: number, detail?: string, retryAfter?: number): ApiError {
+  switch (getApiErrorCode(status)) {
+    case 'auth':
+      return new AuthenticationError(status, detail);
+    case 'rate-limit':
+      return new RateLimitError(detail, retryAfter);
+    case 'payload-too-large':
+      return new PayloadTooLargeError(detail);
+    case 'server':
+      return new ServerError(status, detail, retryAfter);
+    default:
+      return new ApiError(status, detail, retryAfter);
+  }
+}
@@ -0,0 +1,235 @@
+// HTTP通信ユーティリティ
+// 各プロバイダーで共通のタイムアウト付きfetch・送信進捗付きリクエスト・エラーレスポンス処理
+
+import {
+  TranscriptionCancelledError,
+  TimeoutError,
+  NetworkError,
+  MalformedResponseError,
+  createApiError
+} from './errors';
+
+export { TranscriptionCancelledError, ApiError } from './errors';
+
+/**
+ * Retry-After ヘッダーをミリ秒に変換
+ * 秒数と HTTP 日付の両方に対応し、解釈できない場合は undefined
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * キャンセルされていればエラーを投げる
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new TranscriptionCancelledError();
+  }
+}
+
+/**
+ * キャンセル可能な待機
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new TranscriptionCancelledError());
+      return;
+    }
+    const onAbort = (): void => {
+      clearTimeout(timeoutId);
+      reject(new TranscriptionCancelledError());
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * タイムアウト付きfetch
+ * signal が中断された場合は TranscriptionCancelledError を投げる
+ */
+export async function fetchWithTimeout(
+  url: string,
+  options: RequestInit,
+  timeout: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  throwIfCancelled(signal);
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = (): void => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, {
+      ...options,
+      signal: controller.signal
+    });
+  } catch (error) {
+    if ((error as Error).name === 'AbortError') {
+      if (signal?.aborted) {
+        throw new TranscriptionCancelledError();
+      }
+      throw new TimeoutError();
+    }
+    throw new NetworkError((error as Error).message);
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * 送信進捗のコールバック（loaded / total はリクエスト本文のバイト数）
+ */
+export type UploadProgressCallback = (loaded: number, total: number) => void;
+
+/**
+ * 送信進捗付きリクエストのオプション
+ */
+export interface UploadOptions {
+  method: string;
+  headers: Record<string, string>;
+  body: Blob | FormData;
+}
+
+// 本文を持てないステータス
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * getAllResponseHeaders() の文字列をヘッダーの組に変換
+ */
+function parseResponseHeaders(raw: string): [string, string][] {
+  return raw.split(/\r?\n/)
+    .map(line => line.split(': '))
+    .filter(parts => parts.length >= 2 && parts[0])
+    .map(([name, ...value]): [string, string] => [name, value.join(': ')]);
+}
+
+/**
+ * 送信進捗付きのタイムアウト付きリクエスト
+ * fetch では送信の進捗を取得できないため XMLHttpRequest で送信し、結果を Response に変換する
+ * 送信が完了すると loaded === total で通知する（以降はサーバー側の処理待ち）
+ */
+export async function uploadWithProgress(
+  url: string,
+  options: UploadOptions,
+  timeout: number,
+  signal?: AbortSignal,
+  onProgress?: UploadProgressCallback
+): Promise<Response> {
+  throwIfCancelled(signal);
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(options.method, url);
+    xhr.timeout = timeout;
+    for (const [name, value] of Object.entries(options.headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    const onAbort = (): void => xhr.abort();
+    const settle = (): void => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event): void => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded, event.total);
+      }
+    };
+    xhr.upload.onload = (event): void => {
+      const total = event.total || event.loaded;
+      onProgress?.(total, total);
+    };
+    xhr.onload = (): void => {
+      settle();
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText;
+      resolve(new Response(body, {
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers: parseResponseHeaders(xhr.getAllResponseHeaders())
+      }));
+    };
+    xhr.onerror = (): void => {
+      settle();
+      reject(new NetworkError());
+    };
+    xhr.ontimeout = (): void => {
+      settle();
+      reject(new TimeoutError());
+    };
+    xhr.onabort = (): void => {
+      settle();
+      reject(new TranscriptionCancelledError());
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    xhr.send(options.body);
+  });
+}
+
+/**
+ * エラーレスポンスを処理
+ * プロバイダーごとに異なるエラー形式からメッセージを取り出し、ステータスに応じた ApiError を投げる
+ */
+export async function handleErrorResponse(response: Response): Promise<never> {
+  let errorMessage = 'Unknown error';
+  
+  try {
+    const data = await response.json();
+    // OpenAI: { error: { message } } / AssemblyAI: { error } / Deepgram: { err_msg }
+    errorMessage = data.error?.message
+      || (typeof data.error === 'string' ? data.error : undefined)
+      || data.err_msg
+      || errorMessage;
+  } catch {
+    // JSONパースエラーは無視
+  }
+
+  const status = response.status;
+  const retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+
+  throw createApiError(status, errorMessage, retryAfter);
+}
+
+/**
+ * 成功した応答の本文をJSONとして読み込む
+ * JSONでない場合は MalformedResponseError を投げる
+ */
+export async function parseJsonResponse(response: Response): ReturnType<Response['json']> {
+  try {
+    return await response.json();
+  } catch (error) {
+    throw new MalformedResponseError((error as Error).message);
+  }
+}
+
+/**
+ * MIMEタイプからファイル名を取得
+ */
+export function getFilenameForMimeType(mimeType: string): string {
+  const mimeToExt: Record<string, string> = {
+    'audio/webm': 'audio.webm',
+    'audio/webm;codecs=opus': 'audio.webm',
+    'audio/mpeg': 'audio.mp3',
+    'audio/mp3': 'audio.mp3',
+    'audio/wav': 'audio.wav',
+    'audio/mp4': 'audio.m4a',
+    'audio/ogg': 'audio.ogg',
+    'audio/flac': 'audio.flac',
+  };
+  return mimeToExt[mimeType] || 'audio.webm';
+}
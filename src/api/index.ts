@@ -1,9 +1,58 @@
 // API モジュールのエクスポート
 
 export { TranscriptionService } from './TranscriptionService';
+export {
+  TranscriptionError,
+  TranscriptionCancelledError,
+  TimeoutError,
+  NetworkError,
+  MalformedResponseError,
+  ApiError,
+  AuthenticationError,
+  RateLimitError,
+  PayloadTooLargeError,
+  ServerError,
+  createApiError,
+  getApiErrorCode
+} from './errors';
+export type { TranscriptionErrorCode } from './errors';
+export { withRetry, isRetryableError, isTransientError, getRetryDelay } from './retry';
+export type { RetryPolicy, RetryAttempt } from './retry';
+export { ChunkResultStore, DEFAULT_CHUNK_RESULT_MAX_AGE, hashAudio } from './ChunkResultStore';
+export type { ChunkResultEntry, ChunkResultRecord } from './ChunkResultStore';
 export type { 
   TranscriptionConfig, 
   TranscriptionProgress, 
   TranscriptionSegment,
-  TranscriptionResult 
+  TranscriptionWord,
+  TranscriptionResult,
+  TranscriptionTranslation,
+  TranscriptionTask,
+  TimestampGranularity
 } from './TranscriptionService';
+export {
+  PROMPT_TOKEN_LIMIT,
+  PREVIOUS_TEXT_TOKEN_LIMIT,
+  estimateTokens,
+  getTextTail,
+  buildPrompt,
+  getPrompt,
+  getKeywords
+} from './prompt';
+export type { PromptContext } from './prompt';
+export { applyReplacements, applyReplacementsToText } from './replacements';
+export { shiftSegment, mergePartResults, transcribeParts } from './parts';
+export type { ReplacementRule } from './replacements';
+export { AUTO_LANGUAGE, isAutoLanguage, normalizeLanguageCode, getLanguageName, getPrimaryLanguage } from './languages';
+export { normalizeSegments, buildSegmentsFromWords, assignWordsToSegments } from './timestamps';
+export { formatSpeakerLabel, getSpeakers, groupSpeakerTurns, renameSpeakers } from './speakers';
+export type { SpeakerTurn } from './speakers';
+export {
+  createProvider,
+  DEFAULT_PROVIDER_URLS,
+  OpenAIProvider,
+  WhisperCppProvider,
+  DeepgramProvider,
+  AssemblyAIProvider
+} from './providers';
+export type { ProviderType, TranscriptionProvider } from './providers';
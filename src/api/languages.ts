@@ -0,0 +1,67 @@
+// 言語モジュール
+// 自動検出の指定と、プロバイダーごとに異なる検出言語の表記の正規化
+
+/**
+ * 言語を自動検出する場合の設定値
+ */
+export const AUTO_LANGUAGE = 'auto';
+
+// Whisper は検出した言語を英語名で返す
+const LANGUAGE_NAMES: Record<string, string> = {
+  english: 'en',
+  japanese: 'ja',
+  chinese: 'zh',
+  korean: 'ko',
+  german: 'de',
+  french: 'fr',
+  spanish: 'es',
+  italian: 'it',
+  portuguese: 'pt',
+  russian: 'ru'
+};
+
+/**
+ * 言語を自動検出する設定か判定
+ */
+export function isAutoLanguage(language: string): boolean {
+  return language === AUTO_LANGUAGE;
+}
+
+/**
+ * 検出された言語を言語コードに揃える
+ * 例: "japanese" → "ja"、"en_us" / "en-US" → "en"
+ */
+export function normalizeLanguageCode(language: string | undefined | null): string {
+  if (!language) return '';
+  const value = language.trim().toLowerCase();
+  return LANGUAGE_NAMES[value] ?? value.split(/[-_]/)[0];
+}
+
+/**
+ * 言語コードから英語の言語名を取得（翻訳の指示に使う）
+ * 例: "ja" → "Japanese"。取得できない場合は言語コードのまま
+ */
+export function getLanguageName(language: string): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(language) ?? language;
+  } catch {
+    return language;
+  }
+}
+
+/**
+ * チャンクごとに検出された言語から全体の言語を決める
+ * 最も多くのチャンクで検出された言語（同数の場合は先に現れた言語）
+ */
+export function getPrimaryLanguage(languages: string[]): string {
+  const counts = new Map<string, number>();
+  for (const language of languages) {
+    if (language) counts.set(language, (counts.get(language) ?? 0) + 1);
+  }
+
+  let primary = '';
+  for (const [language, count] of counts) {
+    if (!primary || count > (counts.get(primary) ?? 0)) primary = language;
+  }
+  return primary;
+}
@@ -0,0 +1,80 @@
+// 録音パートの結果のマージモジュール
+// 長時間の録音を複数の音声ファイル（パート）に分けた場合に、パートごとの文字起こし結果を1つにまとめる
+
+import type { TranscriptionResult, TranscriptionSegment } from './TranscriptionService';
+import { getPrimaryLanguage } from './languages';
+
+/**
+ * セグメントと単語タイムスタンプの時間をずらす
+ */
+export function shiftSegment(segment: TranscriptionSegment, offset: number): TranscriptionSegment {
+  return {
+    ...segment,
+    start: segment.start + offset,
+    end: segment.end + offset,
+    ...(segment.words && {
+      words: segment.words.map(word => ({
+        ...word,
+        start: word.start + offset,
+        end: word.end + offset
+      }))
+    })
+  };
+}
+
+/**
+ * パートごとの結果をマージ
+ * 各パートの時間は直前までのパートの長さの合計だけずらし、パートの開始時間を partStarts に記録する
+ * パートの長さは録音時の長さ（durations）を使い、ない場合のみ結果の duration を使う
+ * （プロバイダーによっては duration を返さない・最後のセグメントの終了時間で代用するため）
+ */
+export function mergePartResults(results: TranscriptionResult[], durations: number[] = []): TranscriptionResult {
+  if (results.length === 1) return results[0];
+
+  const segments: TranscriptionSegment[] = [];
+  const partStarts: number[] = [];
+  let offset = 0;
+  for (const [part, result] of results.entries()) {
+    partStarts.push(offset);
+    segments.push(...result.segments.map(segment => shiftSegment(segment, offset)));
+    offset += durations[part] > 0 ? durations[part] : result.duration;
+  }
+
+  // チャンクごとの言語を記録したパートがあれば、記録のないパートは全体の言語で補う
+  const chunkLanguages = results.some(result => result.chunkLanguages)
+    ? results.flatMap(result => result.chunkLanguages ?? [result.language])
+    : undefined;
+  const translations = results.flatMap(result => (result.translation ? [result.translation] : []));
+
+  return {
+    text: results.map(result => result.text).filter(text => text).join('\n'),
+    segments,
+    duration: offset,
+    language: getPrimaryLanguage(results.map(result => result.language)) || results[0]?.language || '',
+    ...(chunkLanguages && { chunkLanguages }),
+    ...(translations.length > 0 && {
+      translation: {
+        language: translations[0].language,
+        text: translations.map(translation => translation.text).filter(text => text).join('\n')
+      }
+    }),
+    partStarts
+  };
+}
+
+/**
+ * パートを順に文字起こししてマージ
+ * パートの音声は transcribe の中で読み込み、すべてのパートを同時にメモリに置かない
+ * @param durations - パートごとの録音時間（秒）
+ */
+export async function transcribeParts(
+  count: number,
+  transcribe: (part: number) => Promise<TranscriptionResult>,
+  durations: number[] = []
+): Promise<TranscriptionResult> {
+  const results: TranscriptionResult[] = [];
+  for (let part = 0; part < count; part++) {
+    results.push(await transcribe(part));
+  }
+  return mergePartResults(results, durations);
+}
@@ -0,0 +1,133 @@
+// 文字起こしのプロンプトモジュール
+// 初期プロンプトに用語集の用語を加え、モデルが受け付けるプロンプトの長さに収める
+
+import type { TranscriptionConfig } from './TranscriptionService';
+
+/**
+ * Whisper のプロンプトの上限（トークン数）
+ * 超えた分は先頭から切り捨てられる
+ */
+export const PROMPT_TOKEN_LIMIT = 224;
+
+/**
+ * トークン数を見積もる
+ * トークナイザーを持たないため多めに見積もる（ASCII は3文字で1トークン、それ以外は1文字で2トークン）
+ */
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) {
+      ascii++;
+    } else {
+      other++;
+    }
+  }
+  return Math.ceil(ascii / 3) + other * 2;
+}
+
+/**
+ * 直前のチャンクの末尾に割り当てるトークン数の上限
+ * 残りは用語・ノートの見出しに使う
+ */
+export const PREVIOUS_TEXT_TOKEN_LIMIT = 112;
+
+/**
+ * プロンプトに加える文脈
+ */
+export interface PromptContext {
+  noteContext?: string[];   // アクティブなノートのタイトル・見出し
+  previousText?: string;    // 直前のチャンクの文字起こし（末尾を使う）
+}
+
+/**
+ * テキストの末尾を上限に収まる分だけ取り出す
+ * 英単語の途中で切れた場合はその単語を除く
+ */
+export function getTextTail(text: string, maxTokens: number): string {
+  const chars = [...text.trim()];
+  let ascii = 0;
+  let other = 0;
+  let start = chars.length;
+
+  while (start > 0) {
+    const isAscii = chars[start - 1].charCodeAt(0) < 128;
+    const tokens = Math.ceil((ascii + (isAscii ? 1 : 0)) / 3) + (other + (isAscii ? 0 : 1)) * 2;
+    if (tokens > maxTokens) break;
+    if (isAscii) {
+      ascii++;
+    } else {
+      other++;
+    }
+    start--;
+  }
+
+  const tail = chars.slice(start).join('');
+  if (start > 0 && /\w/.test(chars[start - 1]) && /^\w/.test(tail)) {
+    return tail.replace(/^\w+/, '').trim();
+  }
+  return tail.trim();
+}
+
+/**
+ * 上限に収まる分だけ先頭から順に項目を取り出す
+ */
+function takeItems(items: string[], maxTokens: number): string[] {
+  const taken: string[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const cost = estimateTokens(`, ${item}`);
+    if (tokens + cost > maxTokens) break;
+    taken.push(item);
+    tokens += cost;
+  }
+
+  return taken;
+}
+
+/**
+ * 初期プロンプト・用語・文脈からプロンプトを作成
+ * 初期プロンプトは常に含め、直前のチャンクの末尾・ノートの見出し・用語の順に上限に収まる分だけ加える
+ * 直前のチャンクの末尾は続きの発話として扱われるよう最後に置く
+ */
+export function buildPrompt(
+  initialPrompt: string,
+  vocabulary: string[] = [],
+  maxTokens: number = PROMPT_TOKEN_LIMIT,
+  context: PromptContext = {}
+): string {
+  const prompt = initialPrompt.trim();
+  let remaining = maxTokens - estimateTokens(prompt);
+
+  const tail = context.previousText
+    ? getTextTail(context.previousText, Math.min(PREVIOUS_TEXT_TOKEN_LIMIT, remaining))
+    : '';
+  remaining -= estimateTokens(tail);
+
+  const noteContext = takeItems(context.noteContext ?? [], remaining);
+  remaining -= estimateTokens(noteContext.map(item => `, ${item}`).join(''));
+
+  const terms = takeItems(vocabulary, remaining);
+
+  return [prompt, noteContext.join(', '), terms.join(', '), tail].filter(line => line).join('\n');
+}
+
+/**
+ * 文字起こし設定からリクエストのプロンプトを作成
+ */
+export function getPrompt(
+  config: Pick<TranscriptionConfig, 'initialPrompt' | 'vocabulary' | 'noteContext' | 'previousText'>
+): string {
+  return buildPrompt(config.initialPrompt, config.vocabulary, PROMPT_TOKEN_LIMIT, config);
+}
+
+/**
+ * キーワードで語彙を補強するプロバイダー向けに、初期プロンプト（カンマ・改行区切り）と用語をまとめる
+ */
+export function getKeywords(config: Pick<TranscriptionConfig, 'initialPrompt' | 'vocabulary'>): string[] {
+  const keywords = [...config.initialPrompt.split(/[,、\n]/), ...(config.vocabulary ?? [])]
+    .map(keyword => keyword.trim())
+    .filter(keyword => keyword);
+  return [...new Set(keywords)];
+}
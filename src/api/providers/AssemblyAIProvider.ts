@@ -0,0 +1,230 @@
+// AssemblyAI プロバイダー
+// 音声をアップロード → 文字起こしジョブを作成 → 完了までポーリング
+
+import type { TranscriptionConfig, TranscriptionResult, TranscriptionSegment } from '../TranscriptionService';
+import {
+  fetchWithTimeout,
+  uploadWithProgress,
+  handleErrorResponse,
+  parseJsonResponse,
+  delay,
+  type UploadProgressCallback
+} from '../http';
+import { TranscriptionError, TimeoutError } from '../errors';
+import { withRetry, DEFAULT_MAX_RETRY_DELAY, type RetryAttempt, type RetryPolicy } from '../retry';
+import { formatSpeakerLabel } from '../speakers';
+import { isAutoLanguage, normalizeLanguageCode } from '../languages';
+import { getKeywords } from '../prompt';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+
+/**
+ * AssemblyAI の文（ミリ秒単位）
+ */
+interface AssemblyAISentence {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string | null;   // speaker_labels=true の場合のみ（"A", "B", ...）
+  words?: AssemblyAIWord[];
+}
+
+/**
+ * AssemblyAI の単語（ミリ秒）
+ */
+interface AssemblyAIWord {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * AssemblyAI プロバイダークラス
+ * apiUrl にはベースURL（https://api.assemblyai.com/v2）を指定する
+ * 429・5xx は失敗したリクエストだけを再試行する（ポーリングの失敗でアップロード・ジョブ作成からやり直さない）
+ */
+export class AssemblyAIProvider implements TranscriptionProvider {
+  readonly type = 'assemblyai' as const;
+  readonly handlesRetries = true;
+  private pollIntervalMs: number;
+
+  constructor(pollIntervalMs: number = 3000) {
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  /**
+   * 文字起こし実行
+   */
+  async transcribe(
+    audioBlob: Blob,
+    config: TranscriptionConfig,
+    signal?: AbortSignal,
+    onUploadProgress?: UploadProgressCallback,
+    onRetry?: (attempt: RetryAttempt) => void
+  ): Promise<TranscriptionResult> {
+    const baseUrl = config.apiUrl.replace(/\/+$/, '');
+    const deadline = Date.now() + config.timeout;
+    const policy: RetryPolicy = {
+      maxRetries: config.maxRetries,
+      baseDelay: config.retryBaseDelay,
+      maxDelay: DEFAULT_MAX_RETRY_DELAY
+    };
+
+    // 1. 音声をアップロード
+    const { upload_url: uploadUrl } = await withRetry(async () => {
+      const response = await uploadWithProgress(`${baseUrl}/upload`, {
+        method: 'POST',
+        headers: {
+          'Authorization': config.apiKey,
+          'Content-Type': 'application/octet-stream'
+        },
+        body: audioBlob
+      }, config.timeout, signal, onUploadProgress);
+      if (!response.ok) {
+        await handleErrorResponse(response);
+      }
+      return parseJsonResponse(response);
+    }, policy, signal, onRetry);
+
+    // 2. 文字起こしジョブを作成
+    const body: Record<string, unknown> = {
+      audio_url: uploadUrl
+    };
+    if (isAutoLanguage(config.language)) {
+      body.language_detection = true;
+    } else {
+      body.language_code = config.language;
+    }
+    if (config.model) {
+      body.speech_model = config.model;
+    }
+    if (config.diarization) {
+      body.speaker_labels = true;
+    }
+    const keywords = getKeywords(config);
+    if (keywords.length > 0) {
+      body.word_boost = keywords;
+    }
+
+    const { id } = await withRetry(async () => {
+      const response = await fetchWithTimeout(`${baseUrl}/transcript`, {
+        method: 'POST',
+        headers: {
+          'Authorization': config.apiKey,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      }, config.timeout, signal);
+      if (!response.ok) {
+        await handleErrorResponse(response);
+      }
+      return parseJsonResponse(response);
+    }, policy, signal, onRetry);
+
+    // 3. 完了までポーリング（作成済みのジョブのまま状態の取得だけを再試行する）
+    const transcript = await this.pollTranscript(baseUrl, id, config, deadline, policy, signal, onRetry);
+
+    // 4. 文単位のセグメントを取得
+    const segments = await this.fetchSentences(baseUrl, id, config, signal);
+
+    return {
+      text: transcript.text || '',
+      segments,
+      duration: transcript.audio_duration || 0,
+      language: normalizeLanguageCode(transcript.language_code) || config.language
+    };
+  }
+
+  /**
+   * 接続テスト
+   * 文字起こし一覧APIで認証を確認
+   */
+  async testConnection(config: TranscriptionConfig): Promise<boolean> {
+    const baseUrl = config.apiUrl.replace(/\/+$/, '');
+    const response = await fetchWithTimeout(`${baseUrl}/transcript?limit=1`, {
+      method: 'GET',
+      headers: {
+        'Authorization': config.apiKey
+      }
+    }, config.timeout);
+
+    return response.ok;
+  }
+
+  /**
+   * ジョブが完了するまでポーリング
+   */
+  private async pollTranscript(
+    baseUrl: string,
+    id: string,
+    config: TranscriptionConfig,
+    deadline: number,
+    policy: RetryPolicy,
+    signal?: AbortSignal,
+    onRetry?: (attempt: RetryAttempt) => void
+  ): Promise<{ text?: string; audio_duration?: number; language_code?: string }> {
+    for (;;) {
+      const data = await withRetry(async () => {
+        const response = await fetchWithTimeout(`${baseUrl}/transcript/${id}`, {
+          method: 'GET',
+          headers: {
+            'Authorization': config.apiKey
+          }
+        }, config.timeout, signal);
+        if (!response.ok) {
+          await handleErrorResponse(response);
+        }
+        return parseJsonResponse(response);
+      }, policy, signal, onRetry);
+
+      if (data.status === 'completed') {
+        return data;
+      }
+      if (data.status === 'error') {
+        throw new TranscriptionError('api', data.error || 'Unknown error');
+      }
+
+      if (Date.now() + this.pollIntervalMs > deadline) {
+        throw new TimeoutError();
+      }
+      await delay(this.pollIntervalMs, signal);
+    }
+  }
+
+  /**
+   * 文単位のセグメントを取得（ミリ秒 → 秒）
+   */
+  private async fetchSentences(
+    baseUrl: string,
+    id: string,
+    config: TranscriptionConfig,
+    signal?: AbortSignal
+  ): Promise<TranscriptionSegment[]> {
+    const response = await fetchWithTimeout(`${baseUrl}/transcript/${id}/sentences`, {
+      method: 'GET',
+      headers: {
+        'Authorization': config.apiKey
+      }
+    }, config.timeout, signal);
+
+    // セグメントが取得できなくても全文は返せるため、失敗は無視する
+    if (!response.ok) {
+      return [];
+    }
+
+    const data = await parseJsonResponse(response);
+    const includeWords = config.timestampGranularity === 'word';
+    return (data.sentences || []).map((sentence: AssemblyAISentence) => ({
+      start: sentence.start / 1000,
+      end: sentence.end / 1000,
+      text: sentence.text,
+      ...(sentence.speaker && { speaker: formatSpeakerLabel(sentence.speaker) }),
+      ...(includeWords && sentence.words && {
+        words: sentence.words.map(word => ({
+          start: word.start / 1000,
+          end: word.end / 1000,
+          word: word.text
+        }))
+      })
+    }));
+  }
+}
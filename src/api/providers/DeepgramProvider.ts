@@ -0,0 +1,129 @@
+// Deepgram プロバイダー
+// 音声バイナリをそのままPOSTし、utterances をセグメントとして正規化する
+
+import type { TranscriptionConfig, TranscriptionResult, TranscriptionSegment } from '../TranscriptionService';
+import { fetchWithTimeout, uploadWithProgress, handleErrorResponse, parseJsonResponse, type UploadProgressCallback } from '../http';
+import { formatSpeakerLabel } from '../speakers';
+import { isAutoLanguage, normalizeLanguageCode } from '../languages';
+import { getKeywords } from '../prompt';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+
+/**
+ * Deepgram の utterance
+ */
+interface DeepgramUtterance {
+  start: number;
+  end: number;
+  transcript: string;
+  speaker?: number;       // diarize=true の場合のみ（0始まり）
+  words?: DeepgramWord[];
+}
+
+/**
+ * Deepgram の単語
+ */
+interface DeepgramWord {
+  start: number;
+  end: number;
+  word: string;
+  punctuated_word?: string;
+}
+
+/**
+ * Deepgram プロバイダークラス
+ */
+export class DeepgramProvider implements TranscriptionProvider {
+  readonly type = 'deepgram' as const;
+
+  /**
+   * 文字起こし実行
+   */
+  async transcribe(
+    audioBlob: Blob,
+    config: TranscriptionConfig,
+    signal?: AbortSignal,
+    onUploadProgress?: UploadProgressCallback
+  ): Promise<TranscriptionResult> {
+    const response = await uploadWithProgress(this.createRequestUrl(config), {
+      method: 'POST',
+      headers: {
+        'Authorization': `Token ${config.apiKey}`,
+        'Content-Type': audioBlob.type || 'audio/webm'
+      },
+      body: audioBlob
+    }, config.timeout, signal, onUploadProgress);
+
+    if (!response.ok) {
+      await handleErrorResponse(response);
+    }
+
+    const data = await parseJsonResponse(response);
+    const channel = data.results?.channels?.[0];
+    const alternative = channel?.alternatives?.[0];
+
+    const includeWords = config.timestampGranularity === 'word';
+    const segments: TranscriptionSegment[] = (data.results?.utterances || []).map(
+      (utterance: DeepgramUtterance) => ({
+        start: utterance.start,
+        end: utterance.end,
+        text: utterance.transcript,
+        ...(utterance.speaker !== undefined && { speaker: formatSpeakerLabel(utterance.speaker) }),
+        ...(includeWords && utterance.words && {
+          words: utterance.words.map(word => ({
+            start: word.start,
+            end: word.end,
+            word: word.punctuated_word ?? word.word
+          }))
+        })
+      })
+    );
+
+    return {
+      text: alternative?.transcript || '',
+      segments,
+      duration: data.metadata?.duration || 0,
+      language: normalizeLanguageCode(channel?.detected_language) || config.language
+    };
+  }
+
+  /**
+   * 接続テスト
+   * プロジェクト一覧APIで認証を確認
+   */
+  async testConnection(config: TranscriptionConfig): Promise<boolean> {
+    const response = await fetchWithTimeout(`${new URL(config.apiUrl).origin}/v1/projects`, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Token ${config.apiKey}`
+      }
+    }, config.timeout);
+
+    return response.ok;
+  }
+
+  /**
+   * クエリパラメータ付きのリクエストURLを作成
+   */
+  private createRequestUrl(config: TranscriptionConfig): string {
+    const url = new URL(config.apiUrl);
+    if (config.model) {
+      url.searchParams.set('model', config.model);
+    }
+    if (isAutoLanguage(config.language)) {
+      url.searchParams.set('detect_language', 'true');
+    } else {
+      url.searchParams.set('language', config.language);
+    }
+    url.searchParams.set('punctuate', 'true');
+    url.searchParams.set('smart_format', 'true');
+    url.searchParams.set('utterances', 'true');
+    if (config.diarization) {
+      url.searchParams.set('diarize', 'true');
+    }
+    // Deepgram はプロンプトの代わりにキーワードで語彙を補強する
+    for (const keyword of getKeywords(config)) {
+      url.searchParams.append('keywords', keyword);
+    }
+    return url.toString();
+  }
+}
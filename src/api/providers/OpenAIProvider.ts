@@ -0,0 +1,171 @@
+// OpenAI互換プロバイダー
+// OpenAI Whisper API互換のエンドポイント（/v1/audio/transcriptions）に multipart で送信
+// 英語への翻訳は同じ階層の /v1/audio/translations に送信する
+
+import type { TranscriptionConfig, TranscriptionResult, TranscriptionSegment } from '../TranscriptionService';
+import {
+  fetchWithTimeout,
+  uploadWithProgress,
+  handleErrorResponse,
+  parseJsonResponse,
+  getFilenameForMimeType,
+  type UploadProgressCallback
+} from '../http';
+import { normalizeSegments } from '../timestamps';
+import { isAutoLanguage, normalizeLanguageCode } from '../languages';
+import { getPrompt } from '../prompt';
+import { formatSpeakerLabel } from '../speakers';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+
+// 文字起こしエンドポイントのパス
+const TRANSCRIPTIONS_PATH = /\/audio\/transcriptions\/?$/;
+
+/**
+ * 文字起こしのURLから翻訳のURLを作成
+ * パスが /audio/transcriptions でない場合は null
+ */
+function getTranslationsUrl(apiUrl: string): string | null {
+  return TRANSCRIPTIONS_PATH.test(apiUrl) ? apiUrl.replace(TRANSCRIPTIONS_PATH, '/audio/translations') : null;
+}
+
+/**
+ * OpenAI互換プロバイダークラス
+ */
+export class OpenAIProvider implements TranscriptionProvider {
+  readonly type = 'openai' as const;
+
+  /**
+   * 文字起こし実行
+   */
+  async transcribe(
+    audioBlob: Blob,
+    config: TranscriptionConfig,
+    signal?: AbortSignal,
+    onUploadProgress?: UploadProgressCallback
+  ): Promise<TranscriptionResult> {
+    const translate = config.task === 'translate';
+    const formData = translate ? this.createTranslationFormData(audioBlob, config) : this.createFormData(audioBlob, config);
+    const url = translate ? getTranslationsUrl(config.apiUrl) ?? config.apiUrl : config.apiUrl;
+
+    const response = await uploadWithProgress(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: formData
+    }, config.timeout, signal, onUploadProgress);
+
+    if (!response.ok) {
+      await handleErrorResponse(response);
+    }
+
+    const data = await parseJsonResponse(response);
+
+    // diarized_json のセグメントは speaker（"A", "B", ...）を持つ
+    const segments = (data.segments as TranscriptionSegment[] | undefined)?.map(segment => ({
+      ...segment,
+      ...(segment.speaker && { speaker: formatSpeakerLabel(segment.speaker) })
+    }));
+
+    return {
+      text: data.text || '',
+      segments: normalizeSegments(segments, data.words),
+      duration: data.duration || 0,
+      // 翻訳の場合は英語（応答の language は元の音声の言語）
+      language: translate ? 'en' : normalizeLanguageCode(data.language) || config.language
+    };
+  }
+
+  /**
+   * 翻訳に対応しているか
+   * 翻訳エンドポイントは話者分離に対応しない
+   */
+  canTranslate(config: TranscriptionConfig): boolean {
+    return !config.diarization && getTranslationsUrl(config.apiUrl) !== null;
+  }
+
+  /**
+   * 接続テスト
+   * 軽量なリクエストでAPI接続を確認
+   */
+  async testConnection(config: TranscriptionConfig): Promise<boolean> {
+    // 小さなテストファイルを作成
+    const testBlob = new Blob(['test'], { type: 'audio/webm' });
+    const formData = new FormData();
+    formData.append('file', testBlob, 'test.webm');
+    formData.append('model', config.model);
+    if (!isAutoLanguage(config.language)) {
+      formData.append('language', config.language);
+    }
+    formData.append('response_format', 'json');
+
+    const response = await fetchWithTimeout(config.apiUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`
+      },
+      body: formData
+    }, config.timeout);
+
+    // 401/403以外はAPIに接続できている（音声が不正でも接続テストはOK）
+    return response.ok || (response.status !== 401 && response.status !== 403);
+  }
+
+  /**
+   * FormDataを作成
+   */
+  private createFormData(audioBlob: Blob, config: TranscriptionConfig): FormData {
+    const formData = new FormData();
+    const filename = getFilenameForMimeType(audioBlob.type);
+    formData.append('file', audioBlob, filename);
+    formData.append('model', config.model);
+    // 自動検出の場合は言語を指定しない
+    if (!isAutoLanguage(config.language)) {
+      formData.append('language', config.language);
+    }
+    formData.append('temperature', config.temperature.toString());
+
+    // 話者分離は diarized_json で取得（gpt-4o-transcribe-diarize のみ対応、プロンプト・単語タイムスタンプは使えない）
+    if (config.diarization) {
+      formData.append('response_format', 'diarized_json');
+      formData.append('chunking_strategy', 'auto');
+      return formData;
+    }
+
+    // タイムスタンプが必要な場合は verbose_json で取得（whisper-1 のみ対応）
+    const granularity = config.timestampGranularity ?? 'none';
+    if (granularity === 'none') {
+      formData.append('response_format', 'json');
+    } else {
+      formData.append('response_format', 'verbose_json');
+      formData.append('timestamp_granularities[]', 'segment');
+      if (granularity === 'word') {
+        formData.append('timestamp_granularities[]', 'word');
+      }
+    }
+
+    const prompt = getPrompt(config);
+    if (prompt) {
+      formData.append('prompt', prompt);
+    }
+
+    return formData;
+  }
+
+  /**
+   * 翻訳用のFormDataを作成
+   * 翻訳エンドポイントは言語・タイムスタンプ粒度を指定できない（verbose_json でセグメント単位のタイムスタンプを返す）
+   */
+  private createTranslationFormData(audioBlob: Blob, config: TranscriptionConfig): FormData {
+    const formData = new FormData();
+    formData.append('file', audioBlob, getFilenameForMimeType(audioBlob.type));
+    formData.append('model', config.model);
+    formData.append('temperature', config.temperature.toString());
+    formData.append('response_format', (config.timestampGranularity ?? 'none') === 'none' ? 'json' : 'verbose_json');
+    const prompt = getPrompt(config);
+    if (prompt) {
+      formData.append('prompt', prompt);
+    }
+    return formData;
+  }
+}
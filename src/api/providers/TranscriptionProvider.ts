@@ -0,0 +1,49 @@
+// 文字起こしプロバイダーインターフェース
+// APIごとのリクエスト形式の差異を吸収し、結果を TranscriptionResult に正規化する
+
+import type { TranscriptionConfig, TranscriptionResult } from '../TranscriptionService';
+import type { UploadProgressCallback } from '../http';
+import type { RetryAttempt } from '../retry';
+
+/**
+ * プロバイダー種別
+ */
+export type ProviderType = 'openai' | 'whisper-cpp' | 'deepgram' | 'assemblyai';
+
+/**
+ * プロバイダーごとのデフォルトエンドポイント
+ */
+export const DEFAULT_PROVIDER_URLS: Record<ProviderType, string> = {
+  'openai': 'https://api.openai.com/v1/audio/transcriptions',
+  'whisper-cpp': 'http://127.0.0.1:8080/inference',
+  'deepgram': 'https://api.deepgram.com/v1/listen',
+  'assemblyai': 'https://api.assemblyai.com/v2'
+};
+
+/**
+ * 文字起こしプロバイダー
+ * 1ファイル分のリクエストのみを担当し、チャンク分割・進捗通知は TranscriptionService が行う
+ */
+export interface TranscriptionProvider {
+  readonly type: ProviderType;
+
+  // 429・5xx の再試行をリクエストごとに自身で行う（TranscriptionService は transcribe 全体を再試行しない）
+  readonly handlesRetries?: boolean;
+
+  // 1ファイルを文字起こし（signal が中断されたら TranscriptionCancelledError）
+  // onUploadProgress には音声の送信進捗を通知する（送信完了後はサーバー側の処理待ち）
+  // onRetry には handlesRetries の場合の再試行の待機を通知する
+  transcribe(
+    audioBlob: Blob,
+    config: TranscriptionConfig,
+    signal?: AbortSignal,
+    onUploadProgress?: UploadProgressCallback,
+    onRetry?: (attempt: RetryAttempt) => void
+  ): Promise<TranscriptionResult>;
+
+  // 接続テスト
+  testConnection(config: TranscriptionConfig): Promise<boolean>;
+
+  // task: 'translate' に対応しているか（未実装の場合は非対応）
+  canTranslate?(config: TranscriptionConfig): boolean;
+}
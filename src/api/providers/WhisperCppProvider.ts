@@ -0,0 +1,99 @@
+// whisper.cpp サーバープロバイダー
+// whisper.cpp の server サンプル（/inference）に multipart で送信
+
+import type { TranscriptionConfig, TranscriptionResult, TranscriptionSegment } from '../TranscriptionService';
+import {
+  fetchWithTimeout,
+  uploadWithProgress,
+  handleErrorResponse,
+  parseJsonResponse,
+  getFilenameForMimeType,
+  type UploadProgressCallback
+} from '../http';
+import { normalizeLanguageCode } from '../languages';
+import { getPrompt } from '../prompt';
+import type { TranscriptionProvider } from './TranscriptionProvider';
+
+/**
+ * whisper.cpp verbose_json のセグメント
+ */
+interface WhisperCppSegment {
+  start?: number;
+  end?: number;
+  t0?: number;   // 10ms単位（古いサーバー）
+  t1?: number;
+  text: string;
+}
+
+/**
+ * whisper.cpp サーバープロバイダークラス
+ * モデルはサーバー起動時に指定されるため model は送信しない
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly type = 'whisper-cpp' as const;
+
+  /**
+   * 文字起こし実行
+   */
+  async transcribe(
+    audioBlob: Blob,
+    config: TranscriptionConfig,
+    signal?: AbortSignal,
+    onUploadProgress?: UploadProgressCallback
+  ): Promise<TranscriptionResult> {
+    const formData = new FormData();
+    formData.append('file', audioBlob, getFilenameForMimeType(audioBlob.type));
+    // whisper.cpp サーバーは "auto" で言語を自動検出する
+    formData.append('language', config.language);
+    formData.append('response_format', 'verbose_json');
+    formData.append('temperature', config.temperature.toString());
+    const prompt = getPrompt(config);
+    if (prompt) {
+      formData.append('prompt', prompt);
+    }
+
+    const response = await uploadWithProgress(config.apiUrl, {
+      method: 'POST',
+      headers: this.createHeaders(config),
+      body: formData
+    }, config.timeout, signal, onUploadProgress);
+
+    if (!response.ok) {
+      await handleErrorResponse(response);
+    }
+
+    const data = await parseJsonResponse(response);
+    const segments: TranscriptionSegment[] = (data.segments || []).map((segment: WhisperCppSegment) => ({
+      start: segment.start ?? (segment.t0 ?? 0) / 100,
+      end: segment.end ?? (segment.t1 ?? 0) / 100,
+      text: segment.text.trim()
+    }));
+
+    return {
+      text: (data.text || '').trim(),
+      segments,
+      duration: data.duration || (segments.length > 0 ? segments[segments.length - 1].end : 0),
+      language: normalizeLanguageCode(data.language) || config.language
+    };
+  }
+
+  /**
+   * 接続テスト
+   * サーバーに到達でき、認証エラーにならなければ成功
+   */
+  async testConnection(config: TranscriptionConfig): Promise<boolean> {
+    const response = await fetchWithTimeout(new URL(config.apiUrl).origin, {
+      method: 'GET',
+      headers: this.createHeaders(config)
+    }, config.timeout);
+
+    return response.status !== 401 && response.status !== 403;
+  }
+
+  /**
+   * リクエストヘッダーを作成（API Keyはリバースプロキシ等で認証する場合のみ送信）
+   */
+  private createHeaders(config: TranscriptionConfig): Record<string, string> {
+    return config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {};
+  }
+}
@@ -0,0 +1,29 @@
+// プロバイダーモジュールのエクスポート
+
+import type { ProviderType, TranscriptionProvider } from './TranscriptionProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { WhisperCppProvider } from './WhisperCppProvider';
+import { DeepgramProvider } from './DeepgramProvider';
+import { AssemblyAIProvider } from './AssemblyAIProvider';
+
+export { OpenAIProvider, WhisperCppProvider, DeepgramProvider, AssemblyAIProvider };
+export { DEFAULT_PROVIDER_URLS } from './TranscriptionProvider';
+export type { ProviderType, TranscriptionProvider } from './TranscriptionProvider';
+
+/**
+ * プロバイダー種別からプロバイダーを作成
+ * 未知の種別の場合は OpenAI互換 を使用
+ */
+export function createProvider(type: ProviderType | undefined): TranscriptionProvider {
+  switch (type) {
+    case 'whisper-cpp':
+      return new WhisperCppProvider();
+    case 'deepgram':
+      return new DeepgramProvider();
+    case 'assemblyai':
+      return new AssemblyAIProvider();
+    case 'openai':
+    default:
+      return new OpenAIProvider();
+  }
+}
@@ -0,0 +1,50 @@
+// 置換辞書モジュール
+// 繰り返し誤認識される語を文字起こし結果の中で正しい表記に置き換える
+
+import type { TranscriptionResult } from './TranscriptionService';
+
+/**
+ * 置換ルール
+ */
+export interface ReplacementRule {
+  from: string;   // 誤認識された表記（大文字・小文字は区別しない）
+  to: string;     // 正しい表記
+}
+
+/**
+ * 置換ルールの正規表現を作成
+ * 英数字で始まる・終わる語は単語の途中に一致しないよう単語境界を付ける
+ */
+function createPattern(from: string): RegExp {
+  const escaped = from.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const start = /^\w/.test(from) ? '\\b' : '';
+  const end = /\w$/.test(from) ? '\\b' : '';
+  return new RegExp(`${start}${escaped}${end}`, 'gi');
+}
+
+/**
+ * テキストに置換ルールを順に適用
+ */
+export function applyReplacementsToText(text: string, rules: ReplacementRule[]): string {
+  return rules.reduce(
+    (current, rule) => (rule.from ? current.replace(createPattern(rule.from), () => rule.to) : current),
+    text
+  );
+}
+
+/**
+ * 文字起こし結果の全文とセグメントに置換ルールを適用
+ * 単語タイムスタンプは時間の参照にのみ使うため置き換えない
+ */
+export function applyReplacements(result: TranscriptionResult, rules: ReplacementRule[]): TranscriptionResult {
+  if (rules.length === 0) return result;
+
+  return {
+    ...result,
+    text: applyReplacementsToText(result.text, rules),
+    segments: result.segments.map(segment => ({
+      ...segment,
+      text: applyReplacementsToText(segment.text, rules)
+    }))
+  };
+}
@@ -0,0 +1,88 @@
+// リトライモジュール
+// レート制限（429）・サーバーエラー（5xx）で失敗したリクエストを指数バックオフで再試行する
+
+import { delay } from './http';
+import { ApiError, TimeoutError, NetworkError } from './errors';
+
+/**
+ * リトライ設定
+ */
+export interface RetryPolicy {
+  maxRetries: number;   // 再試行の最大回数（0 で再試行しない）
+  baseDelay: number;    // 1回目の待機時間（ミリ秒）。以降は2倍ずつ増やす
+  maxDelay: number;     // 待機時間の上限（ミリ秒）
+}
+
+/**
+ * 再試行の通知
+ */
+export interface RetryAttempt {
+  attempt: number;      // 何回目の再試行か（1始まり）
+  maxRetries: number;
+  delay: number;        // 再試行までの待機時間（ミリ秒）
+  error: Error;         // 直前の失敗
+}
+
+/**
+ * 待機時間の上限のデフォルト
+ */
+export const DEFAULT_MAX_RETRY_DELAY = 60000;
+
+/**
+ * 再試行すべきエラーか判定
+ * 認証エラーなど、再送しても結果が変わらないエラーは対象外
+ */
+export function isRetryableError(error: unknown): boolean {
+  return error instanceof ApiError && (error.status === 429 || error.status >= 500);
+}
+
+/**
+ * 時間をおいて再送すれば成功する可能性があるエラーか判定（タイムアウト・ネットワークエラー・429・5xx）
+ * 文字起こしキューはこれ以外のエラーを再送しない
+ */
+export function isTransientError(error: unknown): boolean {
+  return error instanceof TimeoutError || error instanceof NetworkError || isRetryableError(error);
+}
+
+/**
+ * 再試行までの待機時間（ミリ秒）を計算
+ * Retry-After があればそれに従い、なければ指数バックオフの半分〜全体の範囲でランダムに揺らす
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  error?: unknown,
+  random: () => number = Math.random
+): number {
+  if (error instanceof ApiError && error.retryAfter !== undefined) {
+    return Math.min(error.retryAfter, policy.maxDelay);
+  }
+
+  const backoff = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  return Math.round(backoff / 2 + random() * (backoff / 2));
+}
+
+/**
+ * リクエストを再試行付きで実行
+ * 待機中に signal が中断された場合は TranscriptionCancelledError を投げる
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  policy: RetryPolicy,
+  signal?: AbortSignal,
+  onRetry?: (attempt: RetryAttempt) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > policy.maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const wait = getRetryDelay(attempt, policy, error);
+      onRetry?.({ attempt, maxRetries: policy.maxRetries, delay: wait, error: error as Error });
+      await delay(wait, signal);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// 話者分離モジュール
+// プロバイダーごとの話者ラベルを正規化し、話者の交代（ターン）単位にまとめる
+
+import type { TranscriptionResult, TranscriptionSegment } from './TranscriptionService';
+import { joinWords } from './timestamps';
+
+/**
+ * 話者ターン（同じ話者が連続して話した区間）
+ */
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+  segments: TranscriptionSegment[];
+}
+
+/**
+ * プロバイダーの話者IDを "Speaker 1" 形式のラベルに変換
+ * 数値（Deepgram: 0始まり）とアルファベット1文字（AssemblyAI / OpenAI: A始まり）に対応し、それ以外はそのまま使う
+ */
+export function formatSpeakerLabel(speaker: string | number): string {
+  if (typeof speaker === 'number') {
+    return `Speaker ${speaker + 1}`;
+  }
+  if (/^[A-Z]$/.test(speaker)) {
+    return `Speaker ${speaker.charCodeAt(0) - 64}`;
+  }
+  return speaker;
+}
+
+/**
+ * 登場順の話者一覧を取得
+ */
+export function getSpeakers(segments: TranscriptionSegment[]): string[] {
+  const speakers: string[] = [];
+  for (const { speaker } of segments) {
+    if (speaker && !speakers.includes(speaker)) {
+      speakers.push(speaker);
+    }
+  }
+  return speakers;
+}
+
+/**
+ * 連続する同じ話者のセグメントをターンにまとめる
+ * 話者のないセグメントは直前の話者のターンに含める
+ */
+export function groupSpeakerTurns(segments: TranscriptionSegment[]): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && (!segment.speaker || segment.speaker === last.speaker)) {
+      last.segments.push(segment);
+      last.end = segment.end;
+      continue;
+    }
+    turns.push({
+      speaker: segment.speaker ?? '',
+      start: segment.start,
+      end: segment.end,
+      text: '',
+      segments: [segment]
+    });
+  }
+
+  // 欧文は空白で、和文はそのまま連結する
+  for (const turn of turns) {
+    turn.text = joinWords(turn.segments.map(({ start, end, text }) => ({ start, end, word: text.trim() })));
+  }
+
+  return turns;
+}
+
+/**
+ * 話者ラベルを名前に置き換える
+ * 名前が空のラベルはそのまま残す
+ */
+export function renameSpeakers(
+  result: TranscriptionResult,
+  names: Record<string, string>
+): TranscriptionResult {
+  return {
+    ...result,
+    segments: result.segments.map(segment => {
+      const name = segment.speaker ? names[segment.speaker]?.trim() : undefined;
+      return name ? { ...segment, speaker: name } : segment;
+    })
+  };
+}
@@ -0,0 +1,127 @@
+// タイムスタンプ正規化モジュール
+// verbose_json の segments / words をセグメント配列に正規化する
+
+import type { TranscriptionSegment, TranscriptionWord } from './TranscriptionService';
+
+/**
+ * 単語からセグメントを組み立てる際の区切り条件
+ */
+export interface WordGroupingConfig {
+  maxPause: number;      // この秒数以上の間があれば区切る
+  maxDuration: number;   // 1セグメントの最大秒数
+}
+
+/**
+ * デフォルトの区切り条件
+ */
+export const DEFAULT_WORD_GROUPING: WordGroupingConfig = {
+  maxPause: 1.0,
+  maxDuration: 30
+};
+
+// 文末記号（和文・欧文）
+const SENTENCE_END = /[。．！？!?]$|[^.]\.$/;
+
+/**
+ * 単語を連結してテキストにする
+ * 欧文の単語は先頭に空白を持たないことがあるため、必要に応じて補う
+ */
+export function joinWords(words: TranscriptionWord[]): string {
+  let text = '';
+  for (const { word } of words) {
+    const needsSpace = /[\p{Script=Latin}\d,.!?;:]$/u.test(text) && /^[\p{Script=Latin}\d]/u.test(word);
+    text += needsSpace ? ` ${word}` : word;
+  }
+  return text.trim();
+}
+
+/**
+ * 単語をセグメントに割り当てる
+ * 単語の中央時刻を含むセグメントに割り当て、どれにも含まれない場合は直前のセグメントに割り当てる
+ */
+export function assignWordsToSegments(
+  segments: TranscriptionSegment[],
+  words: TranscriptionWord[]
+): TranscriptionSegment[] {
+  const result = segments.map(segment => ({ ...segment, words: [] as TranscriptionWord[] }));
+  if (result.length === 0) return result;
+
+  let index = 0;
+  for (const word of words) {
+    const mid = (word.start + word.end) / 2;
+    while (index < result.length - 1 && mid >= result[index + 1].start) {
+      index++;
+    }
+    result[index].words.push(word);
+  }
+
+  return result;
+}
+
+/**
+ * 単語のみからセグメントを組み立てる
+ * 文末記号・長い間・最大秒数で区切る
+ */
+export function buildSegmentsFromWords(
+  words: TranscriptionWord[],
+  config: WordGroupingConfig = DEFAULT_WORD_GROUPING
+): TranscriptionSegment[] {
+  const segments: TranscriptionSegment[] = [];
+  let current: TranscriptionWord[] = [];
+
+  const flush = (): void => {
+    if (current.length === 0) return;
+    segments.push({
+      start: current[0].start,
+      end: current[current.length - 1].end,
+      text: joinWords(current),
+      words: current
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    if (current.length > 0) {
+      const last = current[current.length - 1];
+      if (word.start - last.end >= config.maxPause || word.end - current[0].start > config.maxDuration) {
+        flush();
+      }
+    }
+
+    current.push(word);
+
+    if (SENTENCE_END.test(word.word.trim())) {
+      flush();
+    }
+  }
+  flush();
+
+  return segments;
+}
+
+/**
+ * verbose_json レスポンスからセグメントを正規化
+ * segments と words の両方があれば単語を割り当て、words のみならセグメントを組み立てる
+ */
+export function normalizeSegments(
+  segments: TranscriptionSegment[] | undefined,
+  words: TranscriptionWord[] | undefined
+): TranscriptionSegment[] {
+  const baseSegments = (segments ?? []).map(segment => ({
+    start: segment.start,
+    end: segment.end,
+    text: segment.text.trim(),
+    ...(segment.words && { words: segment.words }),
+    ...(segment.speaker && { speaker: segment.speaker })
+  }));
+
+  if (!words || words.length === 0) {
+    return baseSegments;
+  }
+
+  if (baseSegments.length === 0) {
+    return buildSegmentsFromWords(words);
+  }
+
+  return assignWordsToSegments(baseSegments, words);
+}
@@ -0,0 +1,137 @@
+// 用語集モジュール
+// 設定と Vault のノートから用語（製品名・人名・略語など）と置換ルールを読み込む
+// 「誤認識 -> 正しい表記」の行は置換ルールとして扱い、正しい表記も用語に加える
+
+import type { Vault } from 'obsidian';
+import type { ReplacementRule } from '../api/replacements';
+
+/**
+ * 用語集の内容
+ */
+export interface GlossaryEntries {
+  terms: string[];                 // プロンプト・キーワードに加える用語（優先順）
+  replacements: ReplacementRule[]; // 文字起こし後の置換ルール
+}
+
+/**
+ * 用語集の設定
+ */
+export interface GlossaryConfig {
+  text: string;       // 設定画面で入力した用語集
+  notePath: string;   // 用語集のノート（空の場合は使わない）
+}
+
+// 置換ルールの区切り（"->" または "=>"）
+const REPLACEMENT_SEPARATOR = /\s*[-=]>\s*/;
+
+// リストの記号・チェックボックス
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/;
+
+/**
+ * 空の用語集
+ */
+export const EMPTY_GLOSSARY: GlossaryEntries = { terms: [], replacements: [] };
+
+/**
+ * 用語集のテキストを解析
+ * 1行に1つ（またはカンマ区切りで複数）の用語を書き、「誤1, 誤2 -> 正」で置換ルールを書く
+ * ノートのフロントマター・見出し・リストの記号・内部リンクの括弧は無視する
+ */
+export function parseGlossary(text: string): GlossaryEntries {
+  const terms: string[] = [];
+  const replacements: ReplacementRule[] = [];
+  const body = text.replace(/^---\n[\s\S]*?\n---(?:\n|$)/, '');
+
+  for (const rawLine of body.split('\n')) {
+    const line = rawLine.replace(LIST_MARKER, '').replace(/\[\[|\]\]/g, '').trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [left, right] = line.split(REPLACEMENT_SEPARATOR, 2);
+    if (right !== undefined) {
+      const to = right.trim();
+      if (!to) continue;
+      for (const from of splitTerms(left)) {
+        if (from !== to) {
+          replacements.push({ from, to });
+        }
+      }
+      terms.push(to);
+    } else {
+      terms.push(...splitTerms(line));
+    }
+  }
+
+  return { terms: [...new Set(terms)], replacements };
+}
+
+/**
+ * カンマ区切りの用語を分割
+ */
+function splitTerms(text: string): string[] {
+  return text.split(/[,、]/).map(term => term.trim()).filter(term => term);
+}
+
+/**
+ * 複数の用語集をまとめる（先に指定したものを優先し、重複する用語は除く）
+ */
+export function mergeGlossaries(...glossaries: GlossaryEntries[]): GlossaryEntries {
+  return {
+    terms: [...new Set(glossaries.flatMap(glossary => glossary.terms))],
+    replacements: glossaries.flatMap(glossary => glossary.replacements)
+  };
+}
+
+/**
+ * 用語集クラス
+ * ノートは読み込んだ内容を保持し、ノートが変更されたら load() で読み込み直す
+ */
+export class Glossary {
+  private vault: Vault;
+  private config: GlossaryConfig;
+  private noteEntries: GlossaryEntries = EMPTY_GLOSSARY;
+
+  constructor(vault: Vault, config: GlossaryConfig) {
+    this.vault = vault;
+    this.config = config;
+  }
+
+  /**
+   * 設定を更新
+   */
+  updateConfig(config: Partial<GlossaryConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 用語集のノートのパスを取得（拡張子 .md は省略可）
+   */
+  getNotePath(): string | null {
+    const notePath = this.config.notePath.trim();
+    if (!notePath) return null;
+    return notePath.endsWith('.md') ? notePath : `${notePath}.md`;
+  }
+
+  /**
+   * 用語集のノートを読み込む
+   * ノートが見つからない場合は設定画面の用語集のみを使う
+   */
+  async load(): Promise<void> {
+    const path = this.getNotePath();
+    if (!path || !(await this.vault.adapter.exists(path))) {
+      if (path) {
+        console.warn(`Whisper Transcribe: Glossary note not found: ${path}`);
+      }
+      this.noteEntries = EMPTY_GLOSSARY;
+      return;
+    }
+
+    this.noteEntries = parseGlossary(await this.vault.adapter.read(path));
+  }
+
+  /**
+   * 設定画面の用語集とノートの用語集をまとめて取得
+   */
+  getEntries(): GlossaryEntries {
+    return mergeGlossaries(parseGlossary(this.config.text), this.noteEntries);
+  }
+}
@@ -0,0 +1,4 @@
+// 用語集モジュールのエクスポート
+
+export { Glossary, EMPTY_GLOSSARY, parseGlossary, mergeGlossaries } from './Glossary';
+export type { GlossaryEntries, GlossaryConfig } from './Glossary';
@@ -2,13 +2,55 @@
 // 音声録音・文字起こしプラグイン
 
 import { Plugin, Notice, TFile, Menu, EventRef } from 'obsidian';
-import { SettingsTab, DEFAULT_SETTINGS, type PluginSettings } from './settings';
-import { TranscriptionService, type TranscriptionConfig } from './api';
-import { StorageService, type StorageConfig } from './storage';
-import { AudioRecorder } from './recorder';
+import {
+  SettingsTab,
+  DEFAULT_SETTINGS,
+  DEFAULT_PROFILE_ID,
+  applyProfile,
+  getFolderProfileId,
+  type PluginSettings
+} from './settings';
+import {
+  TranscriptionService,
+  ChunkResultStore,
+  isAutoLanguage,
+  isTransientError,
+  transcribeParts,
+  AuthenticationError,
+  type TranscriptionConfig,
+  type TranscriptionResult,
+  type ChunkResultEntry
+} from './api';
+import { StorageService, getAudioMimeType, type StorageConfig, type TranscriptMetadata } from './storage';
+import { PostProcessor, type PostProcessConfig } from './postprocess';
+import { Translator } from './translation';
+import { Glossary, type GlossaryConfig } from './glossary';
+import { AudioRecorder, RecordingRecovery, type InterruptedRecording } from './recorder';
+import { AudioTrimmer } from './trimmer';
+import { TranscriptionQueue, type QueueJob } from './queue';
 import { RecorderModal, type ModalState } from './ui/RecorderModal';
+import { QueueView, VIEW_TYPE_QUEUE } from './ui/QueueView';
+import { AudioPlayerView, VIEW_TYPE_AUDIO_PLAYER } from './ui/AudioPlayerView';
+import { RecoveryModal } from './ui/RecoveryModal';
+import { showErrorNotice } from './ui/errorNotice';
+import {
+  PlaybackState,
+  createTimestampPostProcessor,
+  createTimestampEditorExtension,
+  highlightRenderedTimestamps,
+  type TimestampLinkHandler
+} from './player';
 import { t } from './i18n';
 
+/**
+ * data.json に保存するデータ
+ * 設定値に加えて、プラグインが管理する状態を保持する
+ */
+interface PluginData extends Partial<PluginSettings> {
+  queue?: QueueJob[];
+  chunkResults?: ChunkResultEntry[];  // 途中で失敗したチャンク送信の完了済みチャンク
+}
+
 /**
  * 保持中の録音状態
  */
@@ -25,9 +67,15 @@ export default class WhisperTranscribePlugin extends Plugin {
   settings!: PluginSettings;
   private transcriptionService!: TranscriptionService;
   private storageService!: StorageService;
+  private postProcessor!: PostProcessor;
   private recorder: AudioRecorder | null = null;
   private statusBarItem: HTMLElement | null = null;
+  private cancelUpload: (() => void) | null = null;
   private activeRecording: ActiveRecording | null = null;
+  private queue!: TranscriptionQueue;
+  private chunkResults!: ChunkResultStore;
+  private glossary!: Glossary;
+  private playback = new PlaybackState();
 
   async onload(): Promise<void> {
     console.log('Whisper Transcribe: Loading plugin');
@@ -53,15 +101,52 @@ export default class WhisperTranscribePlugin extends Plugin {
     this.statusBarItem = this.addStatusBarItem();
     this.statusBarItem.addClass('mod-clickable');
     this.statusBarItem.addEventListener('click', () => {
-      // 録音中ならモーダルを再表示
+      // 録音中ならモーダルを再表示、送信中ならキャンセル
       if (this.activeRecording) {
         this.openRecorderModal();
+      } else if (this.cancelUpload) {
+        this.cancelUpload();
+        this.clearStatusBar();
       }
     });
 
     // ファイルメニューを登録
     this.registerFileMenu();
 
+    // キュービューを登録
+    this.registerView(VIEW_TYPE_QUEUE, (leaf) => new QueueView(leaf, this.queue, () => {
+      void this.processQueue();
+    }));
+
+    // 用語集のノートを読み込み、変更されたら読み込み直す
+    this.app.workspace.onLayoutReady(() => {
+      void this.glossary.load();
+    });
+    this.registerEvent(this.app.vault.on('modify', (file) => {
+      if (file.path === this.glossary.getNotePath()) {
+        void this.glossary.load();
+      }
+    }));
+
+    // 前回中断された録音を探して復元を提案
+    this.app.workspace.onLayoutReady(() => {
+      void this.checkInterruptedRecordings();
+    });
+
+    // キューの自動再送信（起動時・接続復帰時・定期）
+    this.app.workspace.onLayoutReady(() => {
+      void this.processQueue();
+    });
+    this.registerDomEvent(window, 'online', () => {
+      void this.queue.resetBackoff().then(() => this.processQueue());
+    });
+    this.registerInterval(window.setInterval(() => {
+      void this.processQueue();
+    }, 60 * 1000));
+
+    // タイムスタンプリンクの再生とミニプレーヤーを登録
+    this.registerTimestampPlayback();
+
     console.log('Whisper Transcribe: Plugin loaded');
   }
 
@@ -73,67 +158,159 @@ export default class WhisperTranscribePlugin extends Plugin {
       this.recorder.cancel();
       this.recorder = null;
     }
+
+    // モーダルを閉じて録音中の場合は未書き出しのデータを書き出し、次回の起動時に復元できるようにする
+    if (this.activeRecording) {
+      if (this.activeRecording.state !== 'stopped') {
+        void this.activeRecording.recorder.stop().catch((error: unknown) => {
+          console.error('Recording error:', error);
+        });
+      }
+      this.activeRecording = null;
+    }
   }
 
   /**
    * 設定を読み込む
    */
   async loadSettings(): Promise<void> {
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    const data: PluginData = (await this.loadData()) ?? {};
+    const { queue, chunkResults, ...settings } = data;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+    // 設定画面での編集がデフォルト値に波及しないようプリセットは複製する
+    this.settings.postProcessPresets = this.settings.postProcessPresets.map(preset => ({ ...preset }));
+    this.settings.profiles = this.settings.profiles.map(profile => ({ ...profile }));
+    this.settings.folderProfiles = this.settings.folderProfiles.map(rule => ({ ...rule }));
+    this.queue = new TranscriptionQueue(queue ?? [], () => this.savePluginData());
+    this.chunkResults = new ChunkResultStore(chunkResults ?? [], () => this.savePluginData());
   }
 
   /**
    * 設定を保存
    */
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    await this.savePluginData();
     this.updateServices();
   }
 
+  /**
+   * 設定とプラグイン状態をまとめて data.json に保存
+   */
+  private async savePluginData(): Promise<void> {
+    const data: PluginData = {
+      ...this.settings,
+      queue: this.queue.getJobs(),
+      chunkResults: this.chunkResults.getEntries()
+    };
+    await this.saveData(data);
+  }
+
   /**
    * サービスを初期化
    */
   private initServices(): void {
+    // Glossary を初期化（ノートは onLayoutReady で読み込む）
+    this.glossary = new Glossary(this.app.vault, this.getGlossaryConfig());
+
     // TranscriptionService を初期化
-    const transcriptionConfig: TranscriptionConfig = {
-      apiKey: this.settings.apiKey,
-      apiUrl: this.settings.apiUrl,
-      model: this.settings.model,
-      language: this.settings.language,
-      timeout: this.settings.timeout * 1000, // 秒→ミリ秒
-      temperature: this.settings.temperature,
-      initialPrompt: this.settings.initialPrompt,
-      chunkSizeMB: this.settings.chunkSizeMB
-    };
-    this.transcriptionService = new TranscriptionService(transcriptionConfig);
+    this.transcriptionService = new TranscriptionService(this.getTranscriptionConfig(), undefined, this.chunkResults);
 
     // StorageService を初期化
-    const storageConfig: StorageConfig = {
+    this.storageService = new StorageService(this.app.vault, this.getStorageConfig());
+
+    // PostProcessor を初期化
+    this.postProcessor = new PostProcessor(this.getPostProcessConfig());
+  }
+
+  /**
+   * 設定から StorageConfig を作成
+   */
+  private getStorageConfig(): StorageConfig {
+    return {
       audioFolder: this.settings.audioFolder,
-      transcriptFolder: this.settings.transcriptFolder
+      transcriptFolder: this.settings.transcriptFolder,
+      templatePath: this.settings.templatePath,
+      customFrontmatter: this.settings.customFrontmatter,
+      tags: this.settings.tags,
+      audioFilenamePattern: this.settings.audioFilenamePattern,
+      transcriptFilenamePattern: this.settings.transcriptFilenamePattern
+    };
+  }
+
+  /**
+   * 設定から GlossaryConfig を作成
+   */
+  private getGlossaryConfig(): GlossaryConfig {
+    return {
+      text: this.settings.glossary,
+      notePath: this.settings.glossaryNotePath
+    };
+  }
+
+  /**
+   * 設定から TranscriptionConfig を作成
+   * プロファイルを指定した場合はその API設定を使う
+   * 用語集はプロファイルによらず共通
+   */
+  private getTranscriptionConfig(profileId: string = DEFAULT_PROFILE_ID): TranscriptionConfig {
+    const settings = applyProfile(this.settings, profileId);
+    const glossary = this.glossary.getEntries();
+    return {
+      provider: settings.provider,
+      apiKey: settings.apiKey,
+      apiUrl: settings.apiUrl,
+      model: settings.model,
+      language: settings.language,
+      timeout: settings.timeout * 1000, // 秒→ミリ秒
+      maxRetries: settings.maxRetries,
+      retryBaseDelay: settings.retryBaseDelay * 1000, // 秒→ミリ秒
+      temperature: settings.temperature,
+      initialPrompt: settings.initialPrompt,
+      previousChunkPrompt: settings.previousChunkPrompt,
+      chunkSizeMB: settings.chunkSizeMB,
+      timestampGranularity: settings.timestampGranularity,
+      diarization: settings.diarization,
+      vocabulary: glossary.terms,
+      replacements: glossary.replacements
+    };
+  }
+
+  /**
+   * プロファイルの設定で TranscriptionService を作成
+   */
+  private createTranscriptionService(profileId: string): TranscriptionService {
+    return new TranscriptionService(this.getTranscriptionConfig(profileId), undefined, this.chunkResults);
+  }
+
+  /**
+   * 設定から PostProcessConfig を作成
+   */
+  private getPostProcessConfig(): PostProcessConfig {
+    return {
+      apiUrl: this.settings.postProcessApiUrl,
+      apiKey: this.settings.postProcessApiKey || this.settings.apiKey,
+      model: this.settings.postProcessModel,
+      timeout: this.settings.timeout * 1000, // 秒→ミリ秒
+      presets: this.settings.postProcessPresets
     };
-    this.storageService = new StorageService(this.app.vault, storageConfig);
   }
 
   /**
    * サービス設定を更新
    */
   private updateServices(): void {
-    this.transcriptionService.updateConfig({
-      apiKey: this.settings.apiKey,
-      apiUrl: this.settings.apiUrl,
-      model: this.settings.model,
-      language: this.settings.language,
-      timeout: this.settings.timeout * 1000,
-      temperature: this.settings.temperature,
-      initialPrompt: this.settings.initialPrompt,
-      chunkSizeMB: this.settings.chunkSizeMB
-    });
+    // 用語集のノートが変わった場合は読み込み直す
+    const glossaryNotePath = this.glossary.getNotePath();
+    this.glossary.updateConfig(this.getGlossaryConfig());
+    if (this.glossary.getNotePath() !== glossaryNotePath) {
+      void this.glossary.load();
+    }
 
-    this.storageService.updateConfig({
-      audioFolder: this.settings.audioFolder,
-      transcriptFolder: this.settings.transcriptFolder
-    });
+    this.transcriptionService.updateConfig(this.getTranscriptionConfig());
+
+    this.storageService.updateConfig(this.getStorageConfig());
+
+    this.postProcessor.updateConfig(this.getPostProcessConfig());
   }
 
   /**
@@ -164,6 +341,15 @@ export default class WhisperTranscribePlugin extends Plugin {
         return false;
       }
     });
+
+    // 文字起こしキューを開く
+    this.addCommand({
+      id: 'open-queue',
+      name: t('command.openQueue'),
+      callback: () => {
+        void this.activateQueueView();
+      }
+    });
   }
 
   /**
@@ -182,6 +368,17 @@ export default class WhisperTranscribePlugin extends Plugin {
                 this.transcribeFile(file);
               });
           });
+          // プロファイルを指定して文字起こし
+          for (const profile of this.settings.profiles) {
+            menu.addItem((item) => {
+              item
+                .setTitle(t('command.transcribeFileWithProfile', { name: profile.name }))
+                .setIcon('file-text')
+                .onClick(() => {
+                  this.transcribeFile(file, profile.id);
+                });
+            });
+          }
         }
       })
     );
@@ -201,9 +398,11 @@ export default class WhisperTranscribePlugin extends Plugin {
   private openRecorderModal(): void {
     const modal = new RecorderModal(
       this.app,
-      this.transcriptionService,
+      (profileId) => this.createTranscriptionService(profileId),
       this.storageService,
+      this.postProcessor,
       this.settings,
+      this.queue,
       (state) => this.updateStatusBar(state),
       (recorder, state, duration) => this.handleRecorderChange(recorder, state, duration),
       this.activeRecording ?? undefined
@@ -217,6 +416,10 @@ export default class WhisperTranscribePlugin extends Plugin {
   private handleRecorderChange(recorder: AudioRecorder | null, state: ModalState, duration: number): void {
     if (recorder && (state === 'recording' || state === 'paused')) {
       this.activeRecording = { recorder, state, duration };
+    } else if (recorder && state === 'stopped') {
+      // モーダルを閉じている間に無音で自動停止した録音は次に開いた時に引き継ぐ
+      this.activeRecording = { recorder, state, duration };
+      this.clearStatusBar();
     } else {
       this.activeRecording = null;
       this.clearStatusBar();
@@ -225,23 +428,26 @@ export default class WhisperTranscribePlugin extends Plugin {
 
   /**
    * ファイルを文字起こし（トリミングUI付き）
+   * プロファイルを指定しない場合はフォルダーのデフォルトプロファイルを使う
    */
-  private async transcribeFile(file: TFile): Promise<void> {
+  private async transcribeFile(file: TFile, profileId?: string): Promise<void> {
     try {
       // ファイルを読み込む
       const arrayBuffer = await this.app.vault.readBinary(file);
-      const blob = new Blob([arrayBuffer], { type: this.getMimeType(file.extension) });
+      const blob = new Blob([arrayBuffer], { type: getAudioMimeType(file.extension) });
 
       // トリミングUI付きモーダルを開く
       const modal = new RecorderModal(
         this.app,
-        this.transcriptionService,
+        (profileId) => this.createTranscriptionService(profileId),
         this.storageService,
+        this.postProcessor,
         this.settings,
+        this.queue,
         (state) => this.updateStatusBar(state),
         (recorder, state, duration) => this.handleRecorderChange(recorder, state, duration),
         undefined, // existingRecorder
-        { blob, path: file.path } // existingAudio
+        { blob, path: file.path, profileId } // existingAudio
       );
       modal.open();
     } catch (error) {
@@ -251,32 +457,278 @@ export default class WhisperTranscribePlugin extends Plugin {
   }
 
   /**
-   * MIMEタイプを取得
+   * キュービューを開く
    */
-  private getMimeType(extension: string): string {
-    const mimeTypes: Record<string, string> = {
-      webm: 'audio/webm',
-      mp3: 'audio/mpeg',
-      wav: 'audio/wav',
-      m4a: 'audio/mp4',
-      ogg: 'audio/ogg',
-      flac: 'audio/flac'
+  private async activateQueueView(): Promise<void> {
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_QUEUE)[0];
+
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      await rightLeaf.setViewState({ type: VIEW_TYPE_QUEUE, active: true });
+      leaf = rightLeaf;
+    }
+
+    await workspace.revealLeaf(leaf);
+  }
+
+  /**
+   * タイムスタンプリンクの再生を登録
+   * 閲覧モード・ライブプレビューの両方でリンクを再生ボタンにし、再生中のセグメントをハイライトする
+   */
+  private registerTimestampPlayback(): void {
+    this.registerView(VIEW_TYPE_AUDIO_PLAYER, (leaf) => new AudioPlayerView(leaf, this.playback));
+
+    const handler: TimestampLinkHandler = {
+      playback: this.playback,
+      resolveAudioPath: (linkPath, sourcePath) =>
+        this.app.metadataCache.getFirstLinkpathDest(linkPath, sourcePath)?.path ?? null,
+      play: (audioPath, seconds) => {
+        void this.playTimestamp(audioPath, seconds);
+      }
     };
-    return mimeTypes[extension.toLowerCase()] || 'audio/webm';
+    this.registerMarkdownPostProcessor(createTimestampPostProcessor(handler));
+    this.registerEditorExtension(createTimestampEditorExtension(handler));
+
+    this.register(this.playback.subscribe(() => {
+      const snapshot = this.playback.get();
+      for (const leaf of this.app.workspace.getLeavesOfType('markdown')) {
+        highlightRenderedTimestamps(leaf.view.containerEl, snapshot);
+      }
+    }));
+  }
+
+  /**
+   * ミニプレーヤーで音声を指定位置から再生
+   */
+  private async playTimestamp(audioPath: string, seconds: number): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(audioPath);
+    if (!(file instanceof TFile)) {
+      new Notice(t('player.fileNotFound', { path: audioPath }));
+      return;
+    }
+
+    const { workspace } = this.app;
+    let leaf = workspace.getLeavesOfType(VIEW_TYPE_AUDIO_PLAYER)[0];
+    if (!leaf) {
+      const rightLeaf = workspace.getRightLeaf(false);
+      if (!rightLeaf) return;
+      await rightLeaf.setViewState({ type: VIEW_TYPE_AUDIO_PLAYER, active: true });
+      leaf = rightLeaf;
+    }
+    await workspace.revealLeaf(leaf);
+
+    if (leaf.view instanceof AudioPlayerView) {
+      try {
+        await leaf.view.play(file, seconds);
+      } catch (error) {
+        new Notice(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  /**
+   * 前回中断された録音（送信・キャンセルされずに残った一時ファイル）を探し、復元モーダルを開く
+   */
+  private async checkInterruptedRecordings(): Promise<void> {
+    const recovery = new RecordingRecovery(this.app.vault.adapter, this.storageService.getRecordingTempRoot());
+    let recordings: InterruptedRecording[];
+    try {
+      recordings = await recovery.find();
+    } catch (error) {
+      console.error('Recovery error:', error);
+      return;
+    }
+    if (recordings.length === 0) return;
+
+    new RecoveryModal(this.app, recordings, {
+      recover: (recording, transcribe): Promise<void> => this.recoverRecording(recovery, recording, transcribe),
+      discard: async (recording): Promise<void> => {
+        await recovery.remove(recording.folder);
+        new Notice(t('recovery.discarded'));
+      }
+    }).open();
+  }
+
+  /**
+   * 中断された録音を音声ファイルとして保存し、一時ファイルを削除
+   * 文字起こしする場合はトリミングせずにキューに追加する
+   */
+  private async recoverRecording(
+    recovery: RecordingRecovery,
+    recording: InterruptedRecording,
+    transcribe: boolean
+  ): Promise<void> {
+    // ファイル名の日付は録音開始日時にする
+    const date = recording.startedAt !== null ? new Date(recording.startedAt) : new Date();
+    const parts = recording.parts
+      .map((fragments, part) => ({ part, fragments }))
+      .filter(({ fragments }) => fragments.length > 0);
+
+    const paths: string[] = [];
+    for (const [index, { part }] of parts.entries()) {
+      const blob = await recovery.readPart(recording, part);
+      const audioInfo = await this.storageService.saveAudio(
+        blob,
+        recording.partDurations[part] ?? 0,
+        {},
+        parts.length > 1 ? index + 1 : undefined,
+        date
+      );
+      paths.push(audioInfo.path);
+    }
+    await recovery.remove(recording.folder);
+    new Notice(t('notice.audioSaved', { path: paths.join(', ') }));
+
+    if (!transcribe) return;
+
+    const profileId = getFolderProfileId(this.settings, paths[0]);
+    const settings = applyProfile(this.settings, profileId);
+    await this.queue.enqueue(paths[0], recording.duration, {
+      trim: null,
+      transcription: {
+        model: settings.model,
+        language: settings.language,
+        temperature: settings.temperature,
+        initialPrompt: settings.initialPrompt
+      },
+      profileId,
+      ...(paths.length > 1 && {
+        audioParts: paths,
+        audioPartDurations: parts.map(({ part }) => recording.partDurations[part] ?? 0)
+      }),
+      translation: {
+        targetLanguage: this.settings.translationLanguage,
+        output: this.settings.translationOutput
+      }
+    });
+    new Notice(t('recovery.queued'));
+    void this.processQueue();
+  }
+
+  /**
+   * キューの送信予定ジョブを処理
+   */
+  private async processQueue(): Promise<void> {
+    if (!navigator.onLine || this.queue.isProcessing()) return;
+
+    let authFailed = false;
+    const succeeded = await this.queue.process(async (job) => {
+      try {
+        await this.runQueueJob(job);
+      } catch (error) {
+        // 再送しない失敗は通知する（認証エラーは「設定を開く」付きで1回だけ）
+        if (!isTransientError(error) && !(authFailed && error instanceof AuthenticationError)) {
+          authFailed ||= error instanceof AuthenticationError;
+          console.error('Queue job error:', error);
+          showErrorNotice(this.app, t('queue.jobFailed', { path: job.audioPath, error: (error as Error).message }), error);
+        }
+        throw error;
+      }
+    });
+    if (succeeded > 0) {
+      new Notice(t('notice.queueProcessed', { count: succeeded }));
+    }
+  }
+
+  /**
+   * キュージョブを1件送信
+   * 保存済み音声を読み込み、投入時のトリミング・文字起こし設定で処理する
+   */
+  private async runQueueJob(job: QueueJob): Promise<void> {
+    const file = this.app.vault.getAbstractFileByPath(job.audioPath);
+    if (!(file instanceof TFile)) {
+      throw new Error(t('queue.fileNotFound', { path: job.audioPath }));
+    }
+
+    const arrayBuffer = await this.app.vault.readBinary(file);
+    let blob = new Blob([arrayBuffer], { type: getAudioMimeType(file.extension) });
+    const audioParts = job.options.audioParts;
+
+    // 投入時にトリミングしていた場合は同じ設定で再トリミング
+    if (job.options.trim) {
+      const trimmer = new AudioTrimmer(200);
+      const waveformData = await trimmer.analyzeWaveform(blob);
+      const segments = trimmer.calculateTrimRanges(waveformData, job.options.trim);
+      blob = (await trimmer.trimAudio(blob, segments)).trimmedBlob;
+    }
+
+    const service = new TranscriptionService({
+      ...this.getTranscriptionConfig(job.options.profileId),
+      ...job.options.transcription
+    }, undefined, this.chunkResults);
+    // 以前のバージョンのジョブは翻訳しない
+    const translator = new Translator(job.options.translation ?? { targetLanguage: '', output: 'both' }, this.postProcessor);
+    const transcribe = (audio: Blob): Promise<TranscriptionResult> =>
+      translator.transcribe(service, audio, undefined, undefined, (error) => {
+        console.error('Translation error:', error);
+        showErrorNotice(this.app, t('notice.translationFailed', { error: (error as Error).message }), error);
+      });
+    // パートに分けた録音はパートごとに文字起こししてマージする（先頭のパートは読み込み済み）
+    const result = audioParts && audioParts.length > 1
+      ? await transcribeParts(audioParts.length, async (part) =>
+        transcribe(part === 0 ? blob : await this.readAudioPart(audioParts[part])), job.options.audioPartDurations)
+      : await transcribe(blob);
+
+    const naming = job.options.naming ?? {};
+    // 自動検出・翻訳のみの場合は結果の言語を記録する
+    const { language } = job.options.transcription;
+    const metadata = this.storageService.createMetadata(
+      job.audioPath,
+      isAutoLanguage(language) || translator.replacesOriginal() ? result.language : language,
+      job.options.transcription.model,
+      job.duration,
+      naming.title
+    );
+    if (audioParts && audioParts.length > 1) {
+      metadata.audioParts = audioParts;
+    }
+    await this.runPostProcess(result, metadata);
+    await this.storageService.saveTranscript(result, metadata, naming);
+  }
+
+  /**
+   * パートの音声ファイルを読み込む
+   */
+  private async readAudioPart(path: string): Promise<Blob> {
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) {
+      throw new Error(t('queue.fileNotFound', { path }));
+    }
+    return new Blob([await this.app.vault.readBinary(file)], { type: getAudioMimeType(file.extension) });
+  }
+
+  /**
+   * 後処理を実行してメタデータにセクションを追加
+   * 失敗しても文字起こし結果は保存できるよう、通知のみ行う
+   */
+  private async runPostProcess(result: TranscriptionResult, metadata: TranscriptMetadata): Promise<void> {
+    if (!this.settings.postProcessEnabled || this.postProcessor.getEnabledPresets().length === 0) return;
+
+    try {
+      metadata.sections = await this.postProcessor.process(result);
+    } catch (error) {
+      console.error('Post-processing error:', error);
+      showErrorNotice(this.app, t('notice.postProcessFailed', { error: (error as Error).message }), error);
+    }
   }
 
   /**
    * ステータスバーを更新
    */
   private updateStatusBar(state: {
-    status: 'recording' | 'paused' | 'uploading';
+    status: 'recording' | 'paused' | 'uploading' | 'processing';
     time?: string;
     percentage?: number;
     uploadedMB?: number;
     totalMB?: number;
+    cancel?: () => void;
   }): void {
     if (!this.statusBarItem) return;
 
+    this.cancelUpload = state.status === 'uploading' || state.status === 'processing' ? state.cancel ?? null : null;
+
     switch (state.status) {
       case 'recording':
         this.statusBarItem.setText(t('status.recording', { time: state.time || '00:00:00' }));
@@ -288,7 +740,11 @@ export default class WhisperTranscribePlugin extends Plugin {
         break;
       case 'uploading':
         this.statusBarItem.setText(t('status.uploading', { percentage: state.percentage || 0 }));
-        this.statusBarItem.setAttr('title', '');
+        this.statusBarItem.setAttr('title', this.cancelUpload ? t('status.clickToCancel') : '');
+        break;
+      case 'processing':
+        this.statusBarItem.setText(t('status.processing'));
+        this.statusBarItem.setAttr('title', this.cancelUpload ? t('status.clickToCancel') : '');
         break;
     }
   }
@@ -297,6 +753,7 @@ export default class WhisperTranscribePlugin extends Plugin {
    * ステータスバーをクリア
    */
   private clearStatusBar(): void {
+    this.cancelUpload = null;
     if (this.statusBarItem) {
       this.statusBarItem.setText('');
       this.statusBarItem.setAttr('title', '');
@@ -0,0 +1,158 @@
+// 文字起こし結果の出力モジュール
+// 出力モード（新規ノート・カーソル位置・アクティブノート末尾・デイリーノート・クリップボード）に応じて書き込む
+
+import { moment, type App, type TFile } from 'obsidian';
+import type { TranscriptionResult } from '../api/TranscriptionService';
+import type { StorageService, TranscriptMetadata, FilenameVariables } from '../storage';
+
+/**
+ * 出力モード
+ */
+export type OutputMode = 'new-note' | 'cursor' | 'append-active' | 'daily-note' | 'clipboard';
+
+/**
+ * 出力モード一覧（設定画面・モーダルの選択肢の順序）
+ */
+export const OUTPUT_MODES: OutputMode[] = ['new-note', 'cursor', 'append-active', 'daily-note', 'clipboard'];
+
+/**
+ * 出力結果
+ */
+export interface OutputResult {
+  mode: OutputMode;          // 実際に使われたモード（対象がない場合は new-note にフォールバック）
+  path: string | null;       // 書き込んだノートのパス（クリップボードの場合は null）
+}
+
+/**
+ * デイリーノート設定（コアプラグイン「デイリーノート」の設定）
+ */
+interface DailyNoteOptions {
+  folder?: string;
+  format?: string;
+  template?: string;
+}
+
+/**
+ * コアプラグインにアクセスするための型（公開APIではない）
+ */
+interface AppWithInternalPlugins {
+  internalPlugins?: {
+    getPluginById?: (id: string) => { enabled?: boolean; instance?: { options?: DailyNoteOptions } } | null;
+  };
+}
+
+// デイリーノートのデフォルト日付形式
+const DEFAULT_DAILY_NOTE_FORMAT = 'YYYY-MM-DD';
+
+// obsidian の moment は名前空間として型付けされているため呼び出し可能な型に変換する
+const formatNow = (format: string): string =>
+  (moment as unknown as () => { format: (format: string) => string })().format(format);
+
+/**
+ * 既存テキストの末尾に追記
+ */
+export function appendBlock(data: string, block: string): string {
+  const trimmed = data.replace(/\s+$/, '');
+  return trimmed ? `${trimmed}\n\n${block}` : block;
+}
+
+/**
+ * 文字起こし結果の出力クラス
+ */
+export class TranscriptOutput {
+  private app: App;
+  private storageService: StorageService;
+
+  constructor(app: App, storageService: StorageService) {
+    this.app = app;
+    this.storageService = storageService;
+  }
+
+  /**
+   * 出力モードに応じて文字起こし結果を書き込む
+   * カーソル位置・アクティブノートが対象の場合、対象がなければ新規ノートとして保存する
+   */
+  async write(
+    mode: OutputMode,
+    result: TranscriptionResult,
+    metadata: TranscriptMetadata,
+    variables: FilenameVariables = {}
+  ): Promise<OutputResult> {
+    switch (mode) {
+      case 'cursor': {
+        const editor = this.app.workspace.activeEditor?.editor;
+        if (!editor) break;
+        editor.replaceSelection(await this.storageService.generateInsertContent(result, metadata));
+        return { mode, path: this.app.workspace.activeEditor?.file?.path ?? null };
+      }
+      case 'append-active': {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') break;
+        await this.appendToFile(file, await this.storageService.generateInsertContent(result, metadata));
+        return { mode, path: file.path };
+      }
+      case 'daily-note': {
+        const file = await this.getOrCreateDailyNote();
+        await this.appendToFile(file, await this.storageService.generateInsertContent(result, metadata));
+        return { mode, path: file.path };
+      }
+      case 'clipboard': {
+        await navigator.clipboard.writeText(await this.storageService.generateInsertContent(result, metadata));
+        return { mode, path: null };
+      }
+      case 'new-note':
+        break;
+    }
+
+    const path = await this.storageService.saveTranscript(result, metadata, variables);
+    return { mode: 'new-note', path };
+  }
+
+  /**
+   * ノートの末尾に追記
+   */
+  private async appendToFile(file: TFile, content: string): Promise<void> {
+    await this.app.vault.process(file, data => appendBlock(data, content));
+  }
+
+  /**
+   * 今日のデイリーノートを取得（なければテンプレートから作成）
+   */
+  private async getOrCreateDailyNote(): Promise<TFile> {
+    const options = this.getDailyNoteOptions();
+    const filename = formatNow(options.format || DEFAULT_DAILY_NOTE_FORMAT);
+    const folder = (options.folder ?? '').replace(/^\/+|\/+$/g, '');
+    const path = folder ? `${folder}/${filename}.md` : `${filename}.md`;
+
+    const existing = this.app.vault.getFileByPath(path);
+    if (existing) {
+      return existing;
+    }
+
+    // サブフォルダを含む日付形式（YYYY/MM/YYYY-MM-DD など）にも対応（Vault 直下の場合は作成しない）
+    const separator = path.lastIndexOf('/');
+    if (separator > 0) {
+      await this.storageService.ensureFolder(path.slice(0, separator));
+    }
+
+    return this.app.vault.create(path, await this.readDailyNoteTemplate(options.template));
+  }
+
+  /**
+   * デイリーノート設定を取得
+   */
+  private getDailyNoteOptions(): DailyNoteOptions {
+    const plugin = (this.app as unknown as AppWithInternalPlugins).internalPlugins?.getPluginById?.('daily-notes');
+    return plugin?.enabled ? plugin.instance?.options ?? {} : {};
+  }
+
+  /**
+   * デイリーノートのテンプレートを読み込む
+   */
+  private async readDailyNoteTemplate(templatePath: string | undefined): Promise<string> {
+    if (!templatePath) return '';
+    const path = templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`;
+    const file = this.app.vault.getFileByPath(path);
+    return file ? this.app.vault.read(file) : '';
+  }
+}
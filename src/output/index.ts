@@ -0,0 +1,4 @@
+// 出力モジュールのエクスポート
+
+export { TranscriptOutput, OUTPUT_MODES, appendBlock } from './TranscriptOutput';
+export type { OutputMode, OutputResult } from './TranscriptOutput';
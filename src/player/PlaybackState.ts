@@ -0,0 +1,64 @@
+// 再生状態モジュール
+// ミニプレーヤーの再生位置を保持し、タイムスタンプのハイライト表示に通知する
+
+/**
+ * 再生状態
+ */
+export interface PlaybackSnapshot {
+  audioPath: string | null;   // 再生中の音声ファイルのパス
+  currentTime: number;        // 再生位置（秒）
+  playing: boolean;
+}
+
+/**
+ * 再生状態クラス
+ */
+export class PlaybackState {
+  private snapshot: PlaybackSnapshot = {
+    audioPath: null,
+    currentTime: 0,
+    playing: false
+  };
+  private listeners: Set<() => void> = new Set();
+
+  /**
+   * 現在の状態を取得
+   */
+  get(): PlaybackSnapshot {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * 状態を更新して通知
+   */
+  update(partial: Partial<PlaybackSnapshot>): void {
+    const next = { ...this.snapshot, ...partial };
+    if (
+      next.audioPath === this.snapshot.audioPath &&
+      next.currentTime === this.snapshot.currentTime &&
+      next.playing === this.snapshot.playing
+    ) {
+      return;
+    }
+    this.snapshot = next;
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * 指定した音声ファイルを再生中かどうか
+   */
+  isActiveFor(audioPath: string): boolean {
+    return this.snapshot.audioPath === audioPath;
+  }
+
+  /**
+   * 変更通知を購読
+   * @returns 購読解除関数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
@@ -0,0 +1,244 @@
+// タイムスタンプ操作モジュール
+// 閲覧モード（Markdownポストプロセッサー）とライブプレビュー（エディタ拡張）で
+// [HH:MM:SS](audio) リンクを再生ボタンに置き換え、再生中のセグメントをハイライトする
+
+import type { MarkdownPostProcessor } from 'obsidian';
+import { editorInfoField, editorLivePreviewField } from 'obsidian';
+import { RangeSet, StateEffect, type Extension, type Range } from '@codemirror/state';
+import {
+  Decoration,
+  ViewPlugin,
+  WidgetType,
+  type DecorationSet,
+  type EditorView,
+  type PluginValue,
+  type ViewUpdate
+} from '@codemirror/view';
+import type { PlaybackState, PlaybackSnapshot } from './PlaybackState';
+import { decodeLinkPath, findActiveSegment, findTimestampLinks, parseTimestamp } from './timestampLinks';
+
+/**
+ * タイムスタンプ操作のハンドラー
+ */
+export interface TimestampLinkHandler {
+  playback: PlaybackState;
+  // リンクのパスを Vault 内の音声ファイルパスに解決（見つからない場合は null）
+  resolveAudioPath(linkPath: string, sourcePath: string): string | null;
+  play(audioPath: string, seconds: number): void;
+}
+
+// クラス名
+const TIMESTAMP_CLASS = 'whisper-transcribe-timestamp';
+const ACTIVE_SEGMENT_CLASS = 'whisper-transcribe-active-segment';
+
+/**
+ * 再生ボタンを作成
+ */
+function createTimestampControl(
+  label: string,
+  audioPath: string,
+  seconds: number,
+  handler: TimestampLinkHandler
+): HTMLElement {
+  const control = document.createElement('span');
+  control.addClass(TIMESTAMP_CLASS);
+  control.setText(label);
+  control.setAttrs({
+    'role': 'button',
+    'tabindex': '0',
+    'aria-label': `${label} ▶`,
+    'data-audio-path': audioPath,
+    'data-seconds': seconds.toString()
+  });
+
+  const play = (event: Event): void => {
+    event.preventDefault();
+    event.stopPropagation();
+    handler.play(audioPath, seconds);
+  };
+  control.addEventListener('click', play);
+  control.addEventListener('keydown', (event) => {
+    if (event.key === 'Enter' || event.key === ' ') {
+      play(event);
+    }
+  });
+
+  return control;
+}
+
+/**
+ * 閲覧モード用のMarkdownポストプロセッサーを作成
+ * 音声ファイルへのリンクで表示テキストが HH:MM:SS のものを再生ボタンに置き換える
+ */
+export function createTimestampPostProcessor(handler: TimestampLinkHandler): MarkdownPostProcessor {
+  return (el, ctx) => {
+    const anchors = Array.from(el.querySelectorAll<HTMLAnchorElement>('a.internal-link'));
+
+    for (const anchor of anchors) {
+      const label = anchor.textContent?.trim() ?? '';
+      const seconds = parseTimestamp(label);
+      if (seconds === null) continue;
+
+      const linkPath = anchor.getAttribute('data-href') ?? anchor.getAttribute('href');
+      if (!linkPath) continue;
+
+      const audioPath = handler.resolveAudioPath(decodeLinkPath(linkPath), ctx.sourcePath);
+      if (!audioPath) continue;
+
+      anchor.replaceWith(createTimestampControl(label, audioPath, seconds, handler));
+    }
+  };
+}
+
+/**
+ * 閲覧モードで表示中のタイムスタンプをハイライト
+ * セクション単位で描画されるため、プレビュー全体のタイムスタンプから再生中のものを判定する
+ */
+export function highlightRenderedTimestamps(containerEl: HTMLElement, snapshot: PlaybackSnapshot): void {
+  const previews = Array.from(containerEl.querySelectorAll<HTMLElement>('.markdown-preview-view'));
+
+  for (const preview of previews) {
+    const controls = Array.from(preview.querySelectorAll<HTMLElement>(`.${TIMESTAMP_CLASS}`));
+    const playing = controls.filter(control => control.dataset.audioPath === snapshot.audioPath);
+    const active = findActiveSegment(
+      playing.map(control => Number(control.dataset.seconds)),
+      snapshot.currentTime
+    );
+    const activeControl = active >= 0 ? playing[active] : null;
+
+    for (const control of controls) {
+      const isActive = control === activeControl;
+      control.toggleClass('is-active', isActive);
+      control.parentElement?.toggleClass(ACTIVE_SEGMENT_CLASS, isActive);
+    }
+  }
+}
+
+/**
+ * ライブプレビュー用の再生ボタンウィジェット
+ */
+class TimestampWidget extends WidgetType {
+  constructor(
+    private readonly label: string,
+    private readonly audioPath: string,
+    private readonly seconds: number,
+    private readonly handler: TimestampLinkHandler
+  ) {
+    super();
+  }
+
+  eq(other: TimestampWidget): boolean {
+    return other.label === this.label && other.audioPath === this.audioPath;
+  }
+
+  toDOM(): HTMLElement {
+    return createTimestampControl(this.label, this.audioPath, this.seconds, this.handler);
+  }
+}
+
+/**
+ * 解決済みのタイムスタンプリンク
+ */
+interface ResolvedLink {
+  from: number;
+  to: number;
+  label: string;
+  seconds: number;
+  audioPath: string;
+}
+
+// 再生状態の変更でデコレーションを再構築するためのエフェクト
+const playbackChanged = StateEffect.define<null>();
+
+/**
+ * ライブプレビュー用のエディタ拡張を作成
+ */
+export function createTimestampEditorExtension(handler: TimestampLinkHandler): Extension {
+  class TimestampViewPlugin implements PluginValue {
+    decorations: DecorationSet;
+    private links: ResolvedLink[] = [];
+    private unsubscribe: () => void;
+
+    constructor(view: EditorView) {
+      this.links = this.resolveLinks(view);
+      this.decorations = this.buildDecorations(view);
+      this.unsubscribe = handler.playback.subscribe(() => {
+        view.dispatch({ effects: playbackChanged.of(null) });
+      });
+    }
+
+    update(update: ViewUpdate): void {
+      if (update.docChanged) {
+        this.links = this.resolveLinks(update.view);
+      }
+
+      const playbackUpdated = update.transactions.some(tr => tr.effects.some(e => e.is(playbackChanged)));
+      if (
+        update.docChanged ||
+        update.viewportChanged ||
+        update.selectionSet ||
+        playbackUpdated ||
+        update.startState.field(editorLivePreviewField) !== update.state.field(editorLivePreviewField)
+      ) {
+        this.decorations = this.buildDecorations(update.view);
+      }
+    }
+
+    destroy(): void {
+      this.unsubscribe();
+    }
+
+    /**
+     * ドキュメント内のタイムスタンプリンクを解決
+     */
+    private resolveLinks(view: EditorView): ResolvedLink[] {
+      const sourcePath = view.state.field(editorInfoField).file?.path ?? '';
+      const links: ResolvedLink[] = [];
+
+      for (const link of findTimestampLinks(view.state.doc.toString())) {
+        const audioPath = handler.resolveAudioPath(link.audioPath, sourcePath);
+        if (audioPath) {
+          links.push({ ...link, audioPath });
+        }
+      }
+
+      return links;
+    }
+
+    /**
+     * 再生ボタンと再生中セグメントのデコレーションを作成
+     */
+    private buildDecorations(view: EditorView): DecorationSet {
+      const ranges: Range<Decoration>[] = [];
+
+      // 再生中のセグメント行をハイライト
+      const snapshot = handler.playback.get();
+      const playing = this.links.filter(link => link.audioPath === snapshot.audioPath);
+      const active = findActiveSegment(playing.map(link => link.seconds), snapshot.currentTime);
+      if (active >= 0) {
+        const line = view.state.doc.lineAt(playing[active].from);
+        ranges.push(Decoration.line({ class: ACTIVE_SEGMENT_CLASS }).range(line.from));
+      }
+
+      // ライブプレビューではカーソルがないリンクを再生ボタンに置き換える
+      if (view.state.field(editorLivePreviewField)) {
+        const selection = view.state.selection;
+        for (const link of this.links) {
+          const visible = view.visibleRanges.some(range => link.from < range.to && link.to > range.from);
+          const editing = selection.ranges.some(range => range.from <= link.to && range.to >= link.from);
+          if (!visible || editing) continue;
+
+          ranges.push(Decoration.replace({
+            widget: new TimestampWidget(link.label, link.audioPath, link.seconds, handler)
+          }).range(link.from, link.to));
+        }
+      }
+
+      return RangeSet.of(ranges, true);
+    }
+  }
+
+  return ViewPlugin.fromClass(TimestampViewPlugin, {
+    decorations: plugin => plugin.decorations
+  });
+}
@@ -0,0 +1,17 @@
+// プレーヤーモジュールのエクスポート
+
+export { PlaybackState } from './PlaybackState';
+export type { PlaybackSnapshot } from './PlaybackState';
+export {
+  parseTimestamp,
+  findTimestampLinks,
+  findActiveSegment,
+  decodeLinkPath
+} from './timestampLinks';
+export type { TimestampLink } from './timestampLinks';
+export {
+  createTimestampPostProcessor,
+  createTimestampEditorExtension,
+  highlightRenderedTimestamps
+} from './TimestampControls';
+export type { TimestampLinkHandler } from './TimestampControls';
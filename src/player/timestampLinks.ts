@@ -0,0 +1,85 @@
+// タイムスタンプリンク解析モジュール
+// 文字起こし結果の [HH:MM:SS](audio) 形式のリンクを解析する
+
+/**
+ * タイムスタンプリンク
+ */
+export interface TimestampLink {
+  from: number;        // テキスト内の開始位置
+  to: number;          // テキスト内の終了位置
+  label: string;       // 表示テキスト（HH:MM:SS）
+  seconds: number;     // 再生位置（秒）
+  audioPath: string;   // 音声ファイルのパス
+}
+
+// [HH:MM:SS](path) または [HH:MM:SS](<path with spaces>)
+const TIMESTAMP_LINK_REGEX = /\[(\d{2,}:\d{2}:\d{2})\]\((?:<([^>]+)>|([^()\s]+))\)/g;
+
+// HH:MM:SS
+const TIMESTAMP_LABEL_REGEX = /^(\d{2,}):(\d{2}):(\d{2})$/;
+
+/**
+ * HH:MM:SS 形式を秒に変換
+ * @returns 形式が不正な場合は null
+ */
+export function parseTimestamp(label: string): number | null {
+  const match = TIMESTAMP_LABEL_REGEX.exec(label.trim());
+  if (!match) return null;
+
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  if (minutes >= 60 || seconds >= 60) return null;
+
+  return parseInt(match[1], 10) * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * テキストからタイムスタンプリンクを抽出
+ */
+export function findTimestampLinks(text: string): TimestampLink[] {
+  const links: TimestampLink[] = [];
+
+  for (const match of text.matchAll(TIMESTAMP_LINK_REGEX)) {
+    const seconds = parseTimestamp(match[1]);
+    if (seconds === null) continue;
+
+    const rawPath = match[2] ?? match[3];
+    links.push({
+      from: match.index,
+      to: match.index + match[0].length,
+      label: match[1],
+      seconds,
+      audioPath: decodeLinkPath(rawPath)
+    });
+  }
+
+  return links;
+}
+
+/**
+ * URLエンコードされたリンクパスをデコード
+ */
+export function decodeLinkPath(path: string): string {
+  try {
+    return decodeURI(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * 再生位置に該当するセグメントのインデックスを取得
+ * セグメントは開始時間の昇順で、次のセグメントの開始までを範囲とする
+ * @returns 該当なしの場合は -1
+ */
+export function findActiveSegment(startTimes: number[], currentTime: number): number {
+  let active = -1;
+  for (let i = 0; i < startTimes.length; i++) {
+    if (startTimes[i] <= currentTime) {
+      active = i;
+    } else {
+      break;
+    }
+  }
+  return active;
+}
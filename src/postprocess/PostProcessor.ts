@@ -0,0 +1,183 @@
+// 後処理モジュール
+// 文字起こし結果を Chat Completions 互換のエンドポイントに送り、プリセットのプロンプトで要約・整形する
+
+import type { TranscriptionResult } from '../api/TranscriptionService';
+import { fetchWithTimeout, handleErrorResponse, parseJsonResponse } from '../api/http';
+import { MalformedResponseError } from '../api/errors';
+import { getSpeakers, groupSpeakerTurns } from '../api/speakers';
+
+/**
+ * 後処理プリセット
+ */
+export interface PostProcessPreset {
+  id: string;        // テンプレート変数名（{{post.<id>}}）に使うID
+  name: string;      // セクション見出し
+  prompt: string;    // システムプロンプト
+  enabled: boolean;
+}
+
+/**
+ * 後処理設定
+ */
+export interface PostProcessConfig {
+  apiUrl: string;     // Chat Completions エンドポイント
+  apiKey: string;     // 空の場合は Authorization ヘッダーを送らない（ローカルサーバー向け）
+  model: string;
+  timeout: number;    // ミリ秒
+  presets: PostProcessPreset[];
+}
+
+/**
+ * 後処理結果（プリセットごとのセクション）
+ */
+export interface PostProcessOutput {
+  id: string;
+  name: string;
+  content: string;
+}
+
+/**
+ * デフォルトのエンドポイント
+ */
+export const DEFAULT_POST_PROCESS_URL = 'https://api.openai.com/v1/chat/completions';
+
+// すべてのプリセットに共通する指示
+const COMMON_INSTRUCTION =
+  'The user message is an automatic speech recognition transcript. ' +
+  'Respond in the same language as the transcript, in Markdown, without any preamble.';
+
+/**
+ * デフォルトのプリセット
+ */
+export const DEFAULT_POST_PROCESS_PRESETS: PostProcessPreset[] = [
+  {
+    id: 'summary',
+    name: 'Summary',
+    prompt: 'Summarize the transcript in a few short paragraphs, keeping decisions and key facts.',
+    enabled: true
+  },
+  {
+    id: 'action_items',
+    name: 'Action Items',
+    prompt: 'Extract the action items as a Markdown task list ("- [ ] ..."), including the owner and due date when mentioned. ' +
+      'Output "- [ ] (none)" if there are none.',
+    enabled: true
+  },
+  {
+    id: 'cleanup',
+    name: 'Clean Transcript',
+    prompt: 'Rewrite the transcript without filler words, false starts and repetitions. ' +
+      'Keep the wording and speaker labels otherwise unchanged.',
+    enabled: false
+  },
+  {
+    id: 'notes',
+    name: 'Notes',
+    prompt: 'Rewrite the transcript as concise bullet-point notes grouped by topic.',
+    enabled: false
+  }
+];
+
+/**
+ * 後処理に渡すテキストを作成
+ * 話者分離の結果がある場合は「話者: 発言」の形式にする
+ */
+export function formatTranscriptForPrompt(result: TranscriptionResult): string {
+  if (getSpeakers(result.segments).length === 0) {
+    return result.text;
+  }
+  return groupSpeakerTurns(result.segments)
+    .map(turn => (turn.speaker ? `${turn.speaker}: ${turn.text}` : turn.text))
+    .join('\n');
+}
+
+/**
+ * 後処理クラス
+ */
+export class PostProcessor {
+  private config: PostProcessConfig;
+
+  constructor(config: PostProcessConfig) {
+    this.config = config;
+  }
+
+  /**
+   * 設定を更新
+   */
+  updateConfig(config: Partial<PostProcessConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * 有効なプリセットを取得
+   */
+  getEnabledPresets(): PostProcessPreset[] {
+    return this.config.presets.filter(preset => preset.enabled && preset.prompt.trim());
+  }
+
+  /**
+   * 有効なプリセットを順に実行
+   */
+  async process(
+    result: TranscriptionResult,
+    onPreset?: (preset: PostProcessPreset, index: number, total: number) => void,
+    signal?: AbortSignal
+  ): Promise<PostProcessOutput[]> {
+    const presets = this.getEnabledPresets();
+    const text = formatTranscriptForPrompt(result);
+    const outputs: PostProcessOutput[] = [];
+
+    for (let i = 0; i < presets.length; i++) {
+      const preset = presets[i];
+      onPreset?.(preset, i, presets.length);
+      outputs.push({
+        id: preset.id,
+        name: preset.name,
+        content: await this.complete(preset.prompt, text, signal)
+      });
+    }
+
+    return outputs;
+  }
+
+  /**
+   * プリセットのプロンプトで Chat Completions を1回呼び出す
+   */
+  async complete(prompt: string, text: string, signal?: AbortSignal): Promise<string> {
+    return this.chat(`${COMMON_INSTRUCTION}\n\n${prompt}`, text, signal);
+  }
+
+  /**
+   * システムプロンプトをそのまま指定して Chat Completions を1回呼び出す
+   * 後処理以外（翻訳など）で同じ接続設定を使う場合に利用する
+   */
+  async chat(systemPrompt: string, text: string, signal?: AbortSignal): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const response = await fetchWithTimeout(this.config.apiUrl, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: text }
+        ]
+      })
+    }, this.config.timeout, signal);
+
+    if (!response.ok) {
+      await handleErrorResponse(response);
+    }
+
+    const data = await parseJsonResponse(response);
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new MalformedResponseError();
+    }
+    return content.trim();
+  }
+}
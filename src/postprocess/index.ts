@@ -0,0 +1,9 @@
+// 後処理モジュールのエクスポート
+
+export {
+  PostProcessor,
+  DEFAULT_POST_PROCESS_URL,
+  DEFAULT_POST_PROCESS_PRESETS,
+  formatTranscriptForPrompt
+} from './PostProcessor';
+export type { PostProcessPreset, PostProcessConfig, PostProcessOutput } from './PostProcessor';
@@ -0,0 +1,247 @@
+// 文字起こしキューモジュール
+// オフライン時やAPI失敗時の音声を保持し、指数バックオフで自動再送信する
+
+import { isTransientError, type TranscriptionConfig } from '../api';
+import type { TrimConfig } from '../trimmer';
+import type { FilenameVariables } from '../storage';
+import type { TranslationConfig } from '../translation';
+
+/**
+ * ジョブ状態
+ */
+export type QueueJobStatus = 'pending' | 'processing' | 'failed';
+
+/**
+ * ジョブ送信時のオプション
+ * キュー投入時点の設定を保持し、再送信時に同じ条件で処理する
+ */
+export interface QueueJobOptions {
+  trim: TrimConfig | null;   // null の場合はトリミングしない
+  transcription: Pick<TranscriptionConfig, 'model' | 'language' | 'temperature' | 'initialPrompt' | 'noteContext'>;
+  profileId?: string;         // APIプロファイル（以前のバージョンのジョブにはない）
+  audioParts?: string[];      // 録音を複数のパートに分けた場合のすべてのパート（先頭は audioPath）
+  audioPartDurations?: number[];  // パートごとの録音時間（秒、以前のバージョンのジョブにはない）
+  translation?: TranslationConfig;  // 翻訳（以前のバージョンのジョブにはない）
+  naming?: FilenameVariables; // 文字起こしファイル名・タイトル用の変数（以前のバージョンのジョブにはない）
+}
+
+/**
+ * キュージョブ
+ */
+export interface QueueJob {
+  id: string;
+  audioPath: string;        // 保存済み音声ファイルのパス
+  duration: number;         // 録音時間（秒）
+  createdAt: number;        // 投入日時（UNIXミリ秒）
+  status: QueueJobStatus;
+  attempts: number;         // 失敗回数
+  nextAttemptAt: number;    // 次回送信予定日時（UNIXミリ秒）
+  lastError?: string;       // 最後のエラーメッセージ
+  options: QueueJobOptions;
+}
+
+/**
+ * キュー設定
+ */
+export interface QueueConfig {
+  maxAttempts: number;   // この回数失敗したら failed にする
+  baseDelayMs: number;   // バックオフの初期待機時間
+  maxDelayMs: number;    // バックオフの最大待機時間
+}
+
+/**
+ * デフォルトキュー設定
+ */
+export const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+  maxAttempts: 8,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 60 * 60 * 1000
+};
+
+/**
+ * 失敗回数からバックオフ待機時間を計算
+ */
+export function calculateBackoffDelay(attempts: number, config: QueueConfig): number {
+  const delay = config.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1));
+  return Math.min(delay, config.maxDelayMs);
+}
+
+/**
+ * ジョブIDを生成
+ */
+function generateJobId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * 文字起こしキュークラス
+ * ジョブの状態管理のみを行い、永続化と実際の送信処理は呼び出し側に委ねる
+ */
+export class TranscriptionQueue {
+  private jobs: QueueJob[];
+  private config: QueueConfig;
+  private persist: (jobs: QueueJob[]) => Promise<void>;
+  private listeners: Set<() => void> = new Set();
+  private processing = false;
+
+  constructor(
+    jobs: QueueJob[],
+    persist: (jobs: QueueJob[]) => Promise<void>,
+    config?: Partial<QueueConfig>
+  ) {
+    this.config = { ...DEFAULT_QUEUE_CONFIG, ...config };
+    this.persist = persist;
+    // 前回の処理中に終了した場合は pending に戻す
+    this.jobs = jobs.map(job => job.status === 'processing' ? { ...job, status: 'pending' } : { ...job });
+  }
+
+  /**
+   * ジョブ一覧を取得
+   */
+  getJobs(): QueueJob[] {
+    return this.jobs.map(job => ({ ...job }));
+  }
+
+  /**
+   * 処理中かどうか
+   */
+  isProcessing(): boolean {
+    return this.processing;
+  }
+
+  /**
+   * 変更通知を購読
+   * @returns 購読解除関数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * ジョブを追加
+   */
+  async enqueue(
+    audioPath: string,
+    duration: number,
+    options: QueueJobOptions,
+    now: number = Date.now()
+  ): Promise<QueueJob> {
+    const job: QueueJob = {
+      id: generateJobId(),
+      audioPath,
+      duration,
+      createdAt: now,
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      options
+    };
+    this.jobs.push(job);
+    await this.commit();
+    return { ...job };
+  }
+
+  /**
+   * ジョブを削除
+   */
+  async remove(id: string): Promise<void> {
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    await this.commit();
+  }
+
+  /**
+   * ジョブを即時再送信対象にする（failed も pending に戻す）
+   */
+  async retryNow(id: string, now: number = Date.now()): Promise<void> {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job || job.status === 'processing') return;
+
+    job.status = 'pending';
+    job.attempts = 0;
+    job.nextAttemptAt = now;
+    await this.commit();
+  }
+
+  /**
+   * 待機中ジョブのバックオフをリセット（接続復帰時）
+   */
+  async resetBackoff(now: number = Date.now()): Promise<void> {
+    let changed = false;
+    for (const job of this.jobs) {
+      if (job.status === 'pending' && job.nextAttemptAt > now) {
+        job.nextAttemptAt = now;
+        changed = true;
+      }
+    }
+    if (changed) {
+      await this.commit();
+    }
+  }
+
+  /**
+   * 送信予定時刻を過ぎた待機中ジョブを取得
+   */
+  getDueJobs(now: number = Date.now()): QueueJob[] {
+    return this.jobs
+      .filter(job => job.status === 'pending' && job.nextAttemptAt <= now)
+      .map(job => ({ ...job }));
+  }
+
+  /**
+   * 送信予定時刻を過ぎたジョブを順次処理
+   * 成功したジョブは削除し、失敗したジョブはバックオフして再スケジュールする
+   * 再送しても結果が変わらないエラー（認証エラー・ファイルがない・保存の失敗など）はすぐに failed にする
+   * @param handler - ジョブの送信処理
+   * @returns 成功したジョブ数
+   */
+  async process(
+    handler: (job: QueueJob) => Promise<void>,
+    now: () => number = Date.now
+  ): Promise<number> {
+    if (this.processing) return 0;
+    this.processing = true;
+
+    let succeeded = 0;
+    try {
+      for (const due of this.getDueJobs(now())) {
+        const job = this.jobs.find(j => j.id === due.id);
+        // 処理中に削除された場合はスキップ
+        if (!job) continue;
+
+        job.status = 'processing';
+        await this.commit();
+
+        try {
+          await handler({ ...job });
+          this.jobs = this.jobs.filter(j => j.id !== job.id);
+          succeeded++;
+        } catch (error) {
+          job.attempts++;
+          job.lastError = error instanceof Error ? error.message : String(error);
+          if (!isTransientError(error) || job.attempts >= this.config.maxAttempts) {
+            job.status = 'failed';
+          } else {
+            job.status = 'pending';
+            job.nextAttemptAt = now() + calculateBackoffDelay(job.attempts, this.config);
+          }
+        }
+        await this.commit();
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    return succeeded;
+  }
+
+  /**
+   * 変更を永続化してリスナーに通知
+   */
+  private async commit(): Promise<void> {
+    await this.persist(this.getJobs());
+    this.listeners.forEach(listener => listener());
+  }
+}
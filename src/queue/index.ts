@@ -0,0 +1,13 @@
+// キューモジュールのエクスポート
+
+export {
+  TranscriptionQueue,
+  DEFAULT_QUEUE_CONFIG,
+  calculateBackoffDelay
+} from './TranscriptionQueue';
+export type {
+  QueueJob,
+  QueueJobStatus,
+  QueueJobOptions,
+  QueueConfig
+} from './TranscriptionQueue';
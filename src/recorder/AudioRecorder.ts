@@ -1,6 +1,9 @@
 // 音声録音モジュール
 // WebブラウザのMediaRecorder APIを使用して音声を録音
 
+import { MemoryRecordingSink, type RecordingSink } from './RecordingSink';
+import { rmsToDb } from '../trimmer';
+
 /**
  * 録音状態
  */
@@ -8,6 +11,7 @@ export interface RecorderState {
   status: 'idle' | 'recording' | 'paused' | 'stopped';
   duration: number;      // 録音時間（秒）
   audioLevel: number;    // 音量レベル（0-1）
+  systemAudioLevel: number;  // システム音声の音量レベル（0-1、システム音声を録音しない場合は 0）
 }
 
 /**
@@ -17,6 +21,16 @@ export interface RecorderConfig {
   sampleRate: number;    // サンプルレート（デフォルト: 16000）
   channelCount: number;  // チャンネル数（デフォルト: 1 = モノラル）
   mimeType: string;      // MIMEタイプ（デフォルト: 'audio/webm;codecs=opus'）
+  partDuration: number;  // 1パートの録音時間（秒）。超えたら新しいパートに切り替える（0 = 切り替えない）
+  deviceId: string;      // 入力デバイス（'' = デフォルト）
+  gain: number;          // 入力ゲイン（倍率、1 = そのまま）
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  captureSystemAudio: boolean;  // 画面共有の音声（システム音声）をマイクと混ぜて録音する（デスクトップのみ）
+  silenceThresholdDb: number;   // この音量（dB）未満を無音とする（自動一時停止・自動停止）
+  autoPauseDuration: number;    // 無音がこの秒数続いたら一時停止し、発話で再開する（0 = しない）
+  autoStopDuration: number;     // 無音がこの秒数続いたら停止する（0 = しない）
 }
 
 /**
@@ -25,37 +39,69 @@ export interface RecorderConfig {
 const DEFAULT_CONFIG: RecorderConfig = {
   sampleRate: 16000,
   channelCount: 1,
-  mimeType: 'audio/webm;codecs=opus'
+  mimeType: 'audio/webm;codecs=opus',
+  partDuration: 0,
+  deviceId: '',
+  gain: 1,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  captureSystemAudio: false,
+  silenceThresholdDb: -50,
+  autoPauseDuration: 0,
+  autoStopDuration: 0
 };
 
 /**
  * 音声録音クラス
  * MediaRecorder APIをラップして、録音・一時停止・再開・停止機能を提供
+ * 録音データは保存先（デフォルトはメモリ）に1秒ごとに渡す
+ * パートを切り替える場合は新しい MediaRecorder で録音を続け、パートごとに単独で再生できるファイルにする
  */
 export class AudioRecorder {
   private config: RecorderConfig;
   private state: RecorderState;
   private mediaRecorder: MediaRecorder | null = null;
   private mediaStream: MediaStream | null = null;
+  private recordingStream: MediaStream | null = null;  // 録音する音声（ゲインを掛けた場合は加工後の音声）
   private audioContext: AudioContext | null = null;
   private analyser: AnalyserNode | null = null;
-  private chunks: Blob[] = [];
+  private systemStream: MediaStream | null = null;       // 画面共有で取得したシステム音声
+  private systemAnalyser: AnalyserNode | null = null;
+  private usingFallbackDevice = false;
+  private systemAudioUnavailable = false;
+  private sink: RecordingSink;
+  private writes: Promise<void> = Promise.resolve();  // 保存先への書き込みを順に行う
+  private part: number = 0;
+  private partStartDuration: number = 0;
+  private partDurations: number[] = [];
+  private recordedMimeType: string;                  // MediaRecorder が実際に使う形式
   private startTime: number = 0;
   private pausedDuration: number = 0;
   private pauseStartTime: number = 0;
   private durationInterval: ReturnType<typeof setInterval> | null = null;
   private levelInterval: ReturnType<typeof setInterval> | null = null;
+  private autoPaused = false;                        // 無音で自動一時停止している
+  private silenceStartTime: number | null = null;    // 無音が始まった時刻
 
   // コールバック
   public onStateChange: ((state: RecorderState) => void) | null = null;
   public onError: ((error: Error) => void) | null = null;
+  public onPartComplete: ((part: number) => void) | null = null;  // パートを切り替えた
+  public onAutoStop: ((blob: Blob) => void) | null = null;        // 無音が続いて停止した（stop() の戻り値を渡す）
 
-  constructor(config?: Partial<RecorderConfig>) {
+  /**
+   * @param sink - 録音データの保存先（省略時はメモリ）
+   */
+  constructor(config?: Partial<RecorderConfig>, sink?: RecordingSink) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.sink = sink ?? new MemoryRecordingSink();
+    this.recordedMimeType = this.config.mimeType;
     this.state = {
       status: 'idle',
       duration: 0,
-      audioLevel: 0
+      audioLevel: 0,
+      systemAudioLevel: 0
     };
   }
 
@@ -83,45 +129,46 @@ export class AudioRecorder {
 
     try {
       // マイクアクセスを要求
-      this.mediaStream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          channelCount: this.config.channelCount,
-          sampleRate: this.config.sampleRate
-        }
-      });
+      this.mediaStream = await this.openInputStream();
+      this.systemStream = this.config.captureSystemAudio ? await this.openSystemAudioStream() : null;
 
       // AudioContextを作成して音量レベル分析用のAnalyserを設定
       this.audioContext = new AudioContext();
-      this.analyser = this.audioContext.createAnalyser();
-      this.analyser.fftSize = 256;
+      this.analyser = this.createAnalyser(this.audioContext);
       
       const source = this.audioContext.createMediaStreamSource(this.mediaStream);
-      source.connect(this.analyser);
-
-      // MediaRecorderを作成
-      const mimeType = MediaRecorder.isTypeSupported(this.config.mimeType)
-        ? this.config.mimeType
-        : 'audio/webm';
-      
-      this.mediaRecorder = new MediaRecorder(this.mediaStream, { mimeType });
-      this.chunks = [];
-
-      // イベントハンドラを設定
-      this.mediaRecorder.ondataavailable = (event): void => {
-        if (event.data.size > 0) {
-          this.chunks.push(event.data);
+      let recordingStream: MediaStream = this.mediaStream;
+      if (this.config.gain !== 1 || this.systemStream) {
+        // 入力ゲインを掛けたマイクの音声とシステム音声を混ぜて録音する（音量レベルはゲイン後の値）
+        const gainNode = this.audioContext.createGain();
+        gainNode.gain.value = this.config.gain;
+        const destination = this.audioContext.createMediaStreamDestination();
+        destination.channelCount = this.config.channelCount;
+        source.connect(gainNode);
+        gainNode.connect(destination);
+        gainNode.connect(this.analyser);
+
+        if (this.systemStream) {
+          this.systemAnalyser = this.createAnalyser(this.audioContext);
+          const systemSource = this.audioContext.createMediaStreamSource(this.systemStream);
+          systemSource.connect(destination);
+          systemSource.connect(this.systemAnalyser);
         }
-      };
-
-      this.mediaRecorder.onerror = (event): void => {
-        const error = new Error(`録音エラー: ${(event as ErrorEvent).error?.message || 'Unknown error'}`);
-        this.onError?.(error);
-      };
+        recordingStream = destination.stream;
+      } else {
+        source.connect(this.analyser);
+      }
+      this.recordingStream = recordingStream;
 
       // 録音開始
-      this.mediaRecorder.start(1000); // 1秒ごとにデータを取得
+      this.part = 0;
+      this.partStartDuration = 0;
+      this.partDurations = [];
+      this.mediaRecorder = this.createMediaRecorder(recordingStream, this.part);
       this.startTime = Date.now();
       this.pausedDuration = 0;
+      this.autoPaused = false;
+      this.silenceStartTime = null;
 
       // 状態更新
       this.updateState({ status: 'recording' });
@@ -139,6 +186,180 @@ export class AudioRecorder {
     }
   }
 
+  /**
+   * マイクの音声を取得
+   * 選択したマイクが見つからない場合（取り外した場合など）はデフォルトのマイクを使う
+   */
+  private async openInputStream(): Promise<MediaStream> {
+    const audio: MediaTrackConstraints = {
+      channelCount: this.config.channelCount,
+      sampleRate: this.config.sampleRate,
+      echoCancellation: this.config.echoCancellation,
+      noiseSuppression: this.config.noiseSuppression,
+      autoGainControl: this.config.autoGainControl
+    };
+    this.usingFallbackDevice = false;
+    if (!this.config.deviceId) {
+      return navigator.mediaDevices.getUserMedia({ audio });
+    }
+
+    try {
+      return await navigator.mediaDevices.getUserMedia({ audio: { ...audio, deviceId: { exact: this.config.deviceId } } });
+    } catch (error) {
+      const name = (error as DOMException).name;
+      if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw error;
+      this.usingFallbackDevice = true;
+      return navigator.mediaDevices.getUserMedia({ audio });
+    }
+  }
+
+  /**
+   * 画面共有の音声（システム音声）を取得
+   * 画面共有は映像なしでは開始できないため映像も要求し、映像トラックはすぐに止める
+   * 取得できない場合（非対応・共有のキャンセル・音声なしで共有した場合）はマイクのみで録音する
+   */
+  private async openSystemAudioStream(): Promise<MediaStream | null> {
+    this.systemAudioUnavailable = false;
+    if (!navigator.mediaDevices.getDisplayMedia) {
+      this.systemAudioUnavailable = true;
+      return null;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getDisplayMedia({ audio: true, video: true });
+    } catch (error) {
+      console.warn('Whisper Transcribe: System audio capture failed', error);
+      this.systemAudioUnavailable = true;
+      return null;
+    }
+
+    stream.getVideoTracks().forEach(track => track.stop());
+    if (stream.getAudioTracks().length === 0) {
+      this.systemAudioUnavailable = true;
+      return null;
+    }
+    return new MediaStream(stream.getAudioTracks());
+  }
+
+  /**
+   * システム音声を録音する設定で、システム音声を取得できずにマイクのみで録音しているか
+   */
+  isSystemAudioUnavailable(): boolean {
+    return this.systemAudioUnavailable;
+  }
+
+  /**
+   * システム音声も録音しているか
+   */
+  isCapturingSystemAudio(): boolean {
+    return this.systemStream !== null;
+  }
+
+  /**
+   * 音量レベル分析用の Analyser を作成
+   */
+  private createAnalyser(audioContext: AudioContext): AnalyserNode {
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 256;
+    return analyser;
+  }
+
+  /**
+   * 選択したマイクが見つからず、デフォルトのマイクで録音しているか
+   */
+  isUsingFallbackDevice(): boolean {
+    return this.usingFallbackDevice;
+  }
+
+  /**
+   * MediaRecorderを作成して録音を開始
+   * 録音データは作成時のパートとして保存先に渡す
+   */
+  private createMediaRecorder(stream: MediaStream, part: number): MediaRecorder {
+    // 対応していない場合は MediaRecorder に選ばせる（iOS・Safari は audio/mp4）
+    const mimeType = [this.config.mimeType, 'audio/webm'].find(type => MediaRecorder.isTypeSupported(type));
+    const mediaRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+    this.recordedMimeType = mediaRecorder.mimeType || mimeType || this.config.mimeType;
+    this.sink.setMimeType(this.recordedMimeType);
+
+    // イベントハンドラを設定
+    mediaRecorder.ondataavailable = (event): void => {
+      if (event.data.size > 0) {
+        this.enqueueWrite(() => this.sink.write(part, event.data));
+      }
+    };
+
+    mediaRecorder.onerror = (event): void => {
+      const error = new Error(`録音エラー: ${(event as ErrorEvent).error?.message || 'Unknown error'}`);
+      this.onError?.(error);
+    };
+
+    mediaRecorder.start(1000); // 1秒ごとにデータを取得
+    return mediaRecorder;
+  }
+
+  /**
+   * 保存先への書き込みを順に実行
+   * 書き込みに失敗しても録音は続け、onError で通知する
+   */
+  private enqueueWrite(write: () => Promise<void>): void {
+    this.writes = this.writes.then(write).catch((error: unknown) => {
+      this.onError?.(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
+  /**
+   * 新しいパートに切り替える
+   * 途切れないよう新しい MediaRecorder で録音を始めてから前のパートを停止する
+   */
+  private rollover(): void {
+    if (this.state.status !== 'recording' || !this.mediaRecorder || !this.recordingStream) return;
+
+    const previous = this.mediaRecorder;
+    const previousPart = this.part;
+    this.partDurations.push(this.state.duration - this.partStartDuration);
+    this.partStartDuration = this.state.duration;
+    this.part++;
+    this.mediaRecorder = this.createMediaRecorder(this.recordingStream, this.part);
+
+    previous.onstop = (): void => {
+      this.enqueueWrite(async () => {
+        await this.sink.endPart(previousPart);
+        this.onPartComplete?.(previousPart);
+      });
+    };
+    previous.stop();
+  }
+
+  /**
+   * 録音したパートの数を取得
+   */
+  getPartCount(): number {
+    return this.part + 1;
+  }
+
+  /**
+   * パートごとの録音時間（秒）を取得（停止後は最後のパートも含む）
+   */
+  getPartDurations(): number[] {
+    return [...this.partDurations];
+  }
+
+  /**
+   * 録音の形式（MediaRecorder が実際に使う MIME タイプ）を取得
+   */
+  getMimeType(): string {
+    return this.recordedMimeType;
+  }
+
+  /**
+   * パートの録音データを取得
+   */
+  async readPart(part: number): Promise<Blob> {
+    return this.sink.readPart(part, this.recordedMimeType);
+  }
+
   /**
    * 一時停止
    */
@@ -149,7 +370,7 @@ export class AudioRecorder {
 
     this.mediaRecorder.pause();
     this.pauseStartTime = Date.now();
-    this.updateState({ status: 'paused', audioLevel: 0 });
+    this.updateState({ status: 'paused', audioLevel: 0, systemAudioLevel: 0 });
     this.stopLevelTimer();
   }
 
@@ -163,28 +384,44 @@ export class AudioRecorder {
 
     this.mediaRecorder.resume();
     this.pausedDuration += Date.now() - this.pauseStartTime;
+    this.autoPaused = false;
+    this.silenceStartTime = null;
     this.updateState({ status: 'recording' });
     this.startLevelTimer();
   }
 
+  /**
+   * 無音で自動一時停止しているか（手動の一時停止では false）
+   */
+  isAutoPaused(): boolean {
+    return this.autoPaused;
+  }
+
   /**
    * 停止して録音データを取得
+   * パートを切り替えた場合は最後のパートの録音データを返す（それまでのパートは readPart で取得する）
    */
   async stop(): Promise<Blob> {
     if ((this.state.status !== 'recording' && this.state.status !== 'paused') || !this.mediaRecorder) {
       throw new Error('録音中ではありません');
     }
 
-    return new Promise((resolve) => {
+    return new Promise((resolve, reject) => {
       if (!this.mediaRecorder) {
         throw new Error('MediaRecorderが初期化されていません');
       }
 
+      const part = this.part;
       this.mediaRecorder.onstop = (): void => {
-        const blob = new Blob(this.chunks, { type: this.config.mimeType });
-        this.updateState({ status: 'stopped' });
+        this.partDurations.push(this.state.duration - this.partStartDuration);
+        this.sink.setPartDurations(this.partDurations);
+        this.autoPaused = false;
+        this.updateState({ status: 'stopped', audioLevel: 0, systemAudioLevel: 0 });
         this.stopTimers();
-        resolve(blob);
+        // マイク・画面共有を解放する
+        this.cleanup();
+        this.enqueueWrite(() => this.sink.endPart(part));
+        void this.writes.then(() => this.readPart(part)).then(resolve, reject);
       };
 
       this.mediaRecorder.stop();
@@ -193,17 +430,29 @@ export class AudioRecorder {
 
   /**
    * キャンセル（録音破棄）
+   * 保存先の録音データも破棄する
    */
   cancel(): void {
     this.stopTimers();
     this.cleanup();
+    this.enqueueWrite(() => this.sink.remove());
     this.updateState({
       status: 'idle',
       duration: 0,
-      audioLevel: 0
+      audioLevel: 0,
+      systemAudioLevel: 0
     });
   }
 
+  /**
+   * 保存先の録音データを破棄（停止後に音声ファイルとして保存した場合など）
+   * 録音の状態は変えない
+   */
+  async discardData(): Promise<void> {
+    this.enqueueWrite(() => this.sink.remove());
+    await this.writes;
+  }
+
   /**
    * リソースのクリーンアップ
    */
@@ -219,6 +468,11 @@ export class AudioRecorder {
       this.mediaStream.getTracks().forEach(track => track.stop());
       this.mediaStream = null;
     }
+    if (this.systemStream) {
+      this.systemStream.getTracks().forEach(track => track.stop());
+      this.systemStream = null;
+    }
+    this.recordingStream = null;
 
     // AudioContextを閉じる
     if (this.audioContext) {
@@ -227,7 +481,7 @@ export class AudioRecorder {
     }
 
     this.analyser = null;
-    this.chunks = [];
+    this.systemAnalyser = null;
   }
 
   /**
@@ -263,6 +517,12 @@ export class AudioRecorder {
         const elapsed = Date.now() - this.startTime - this.pausedDuration;
         this.state.duration = elapsed / 1000;
         this.onStateChange?.(this.getState());
+        // 中断しても録音時間がわかるよう保存先に伝える
+        this.sink.setPartDurations([...this.partDurations, this.state.duration - this.partStartDuration]);
+
+        if (this.config.partDuration > 0 && this.state.duration - this.partStartDuration >= this.config.partDuration) {
+          this.rollover();
+        }
       }
     }, 100);
   }
@@ -279,22 +539,78 @@ export class AudioRecorder {
 
   /**
    * 音量レベルタイマーを開始
+   * 自動一時停止中も発話の再開を検出するため音量を取得し続ける
    */
   private startLevelTimer(): void {
+    this.stopLevelTimer();
     this.levelInterval = setInterval(() => {
       if (this.state.status === 'recording' && this.analyser) {
-        const dataArray = new Uint8Array(this.analyser.frequencyBinCount);
-        this.analyser.getByteFrequencyData(dataArray);
-        
-        // 平均音量を計算（0-1の範囲に正規化）
-        const sum = dataArray.reduce((a, b) => a + b, 0);
-        const average = sum / dataArray.length;
-        this.state.audioLevel = average / 255;
+        this.state.audioLevel = this.getLevel(this.analyser);
+        this.state.systemAudioLevel = this.systemAnalyser ? this.getLevel(this.systemAnalyser) : 0;
         this.onStateChange?.(this.getState());
       }
+      if (this.state.status === 'recording' || this.autoPaused) {
+        this.detectSilence();
+      }
     }, 50);
   }
 
+  /**
+   * 無音を検出して自動一時停止・再開・自動停止する
+   * マイクとシステム音声のどちらかが閾値以上なら発話中とする
+   */
+  private detectSilence(now: number = Date.now()): void {
+    const { silenceThresholdDb, autoPauseDuration, autoStopDuration } = this.config;
+    if ((autoPauseDuration <= 0 && autoStopDuration <= 0) || !this.analyser) return;
+
+    const levelDb = Math.max(
+      this.getLevelDb(this.analyser),
+      this.systemAnalyser ? this.getLevelDb(this.systemAnalyser) : -Infinity
+    );
+    if (levelDb >= silenceThresholdDb) {
+      this.silenceStartTime = null;
+      if (this.autoPaused) {
+        this.resume();
+      }
+      return;
+    }
+
+    this.silenceStartTime ??= now;
+    const silence = (now - this.silenceStartTime) / 1000;
+    if (autoStopDuration > 0 && silence >= autoStopDuration) {
+      this.silenceStartTime = null;
+      this.autoPaused = false;
+      this.stopLevelTimer();
+      this.stop().then(blob => this.onAutoStop?.(blob), (error: unknown) => {
+        this.onError?.(error instanceof Error ? error : new Error(String(error)));
+      });
+    } else if (autoPauseDuration > 0 && !this.autoPaused && silence >= autoPauseDuration) {
+      this.pause();
+      this.autoPaused = true;
+      this.startLevelTimer();
+    }
+  }
+
+  /**
+   * 波形の RMS から音量（dB）を計算（トリミングの無音判定と同じ基準）
+   */
+  private getLevelDb(analyser: AnalyserNode): number {
+    const samples = new Float32Array(analyser.fftSize);
+    analyser.getFloatTimeDomainData(samples);
+    const sumSquares = samples.reduce((sum, sample) => sum + sample * sample, 0);
+    return rmsToDb(Math.sqrt(sumSquares / samples.length));
+  }
+
+  /**
+   * 平均音量を計算（0-1の範囲に正規化）
+   */
+  private getLevel(analyser: AnalyserNode): number {
+    const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(dataArray);
+    const sum = dataArray.reduce((a, b) => a + b, 0);
+    return sum / dataArray.length / 255;
+  }
+
   /**
    * 音量レベルタイマーを停止
    */
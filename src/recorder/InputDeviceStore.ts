@@ -0,0 +1,125 @@
+// 入力デバイスモジュール
+// 録音に使うマイクの一覧を取得し、選択したマイクとマイクごとの入力ゲインをこの端末に保存する
+// デバイスIDは端末ごとに異なるため、同期される設定（data.json）ではなく localStorage に保存する
+
+/**
+ * 入力デバイス
+ */
+export interface InputDevice {
+  deviceId: string;
+  label: string;      // 権限を許可する前は空
+}
+
+/**
+ * この端末の入力デバイスの設定
+ */
+export interface InputDevicePreferences {
+  deviceId: string;                 // 選択したマイク（'' の場合はデフォルト）
+  gains: Record<string, number>;    // マイクごとの入力ゲイン（'' はデフォルトのマイク）
+}
+
+/**
+ * localStorage のキー
+ */
+export const INPUT_DEVICE_STORAGE_KEY = 'whisper-transcribe-input-device';
+
+/**
+ * 入力ゲインの範囲（倍率）
+ */
+export const DEFAULT_INPUT_GAIN = 1;
+export const MIN_INPUT_GAIN = 0.5;
+export const MAX_INPUT_GAIN = 4;
+
+// OS が用意する仮想デバイス（デフォルト・通信用）は '' のデフォルトと重複するため一覧に含めない
+const VIRTUAL_DEVICE_IDS = ['default', 'communications'];
+
+/**
+ * 入力デバイスの一覧を取得
+ * requestPermission を指定した場合、名前が取得できなければマイクの権限を求めてから取得し直す
+ */
+export async function listInputDevices(requestPermission: boolean = false): Promise<InputDevice[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const enumerate = async (): Promise<InputDevice[]> =>
+    (await navigator.mediaDevices.enumerateDevices())
+      .filter(device => device.kind === 'audioinput' && !VIRTUAL_DEVICE_IDS.includes(device.deviceId))
+      .map(device => ({ deviceId: device.deviceId, label: device.label }));
+
+  const devices = await enumerate();
+  if (!requestPermission || devices.every(device => device.label)) {
+    return devices;
+  }
+
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  stream.getTracks().forEach(track => track.stop());
+  return enumerate();
+}
+
+/**
+ * 入力ゲインを範囲内に収める
+ */
+export function clampInputGain(gain: number): number {
+  if (!Number.isFinite(gain)) return DEFAULT_INPUT_GAIN;
+  return Math.min(MAX_INPUT_GAIN, Math.max(MIN_INPUT_GAIN, gain));
+}
+
+/**
+ * 入力デバイスの設定クラス
+ * この端末の localStorage に保存する
+ */
+export class InputDeviceStore {
+  private storage: Storage;
+
+  constructor(storage: Storage = window.localStorage) {
+    this.storage = storage;
+  }
+
+  /**
+   * 保存した設定を取得（壊れている場合はデフォルト）
+   */
+  get(): InputDevicePreferences {
+    try {
+      const data = JSON.parse(this.storage.getItem(INPUT_DEVICE_STORAGE_KEY) ?? '{}') as Partial<InputDevicePreferences>;
+      return {
+        deviceId: typeof data.deviceId === 'string' ? data.deviceId : '',
+        gains: data.gains && typeof data.gains === 'object' ? data.gains : {}
+      };
+    } catch {
+      return { deviceId: '', gains: {} };
+    }
+  }
+
+  /**
+   * 選択したマイクを取得
+   */
+  getDeviceId(): string {
+    return this.get().deviceId;
+  }
+
+  /**
+   * マイクを選択
+   */
+  setDeviceId(deviceId: string): void {
+    this.save({ ...this.get(), deviceId });
+  }
+
+  /**
+   * マイクの入力ゲインを取得（省略時は選択中のマイク）
+   */
+  getGain(deviceId: string = this.getDeviceId()): number {
+    const gain = this.get().gains[deviceId];
+    return typeof gain === 'number' ? clampInputGain(gain) : DEFAULT_INPUT_GAIN;
+  }
+
+  /**
+   * マイクの入力ゲインを保存（省略時は選択中のマイク）
+   */
+  setGain(gain: number, deviceId: string = this.getDeviceId()): void {
+    const preferences = this.get();
+    this.save({ ...preferences, gains: { ...preferences.gains, [deviceId]: clampInputGain(gain) } });
+  }
+
+  private save(preferences: InputDevicePreferences): void {
+    this.storage.setItem(INPUT_DEVICE_STORAGE_KEY, JSON.stringify(preferences));
+  }
+}
@@ -0,0 +1,142 @@
+// 中断された録音の復元モジュール
+// アプリの終了・クラッシュで送信されずに残った録音の一時ファイルを探し、パートごとの録音データに戻す
+
+import type { DataAdapter } from 'obsidian';
+import { RECORDING_INFO_FILENAME, type RecordingInfo } from './RecordingSink';
+
+/**
+ * 中断された録音
+ */
+export interface InterruptedRecording {
+  folder: string;             // 一時ファイルのフォルダ
+  parts: string[][];          // パートごとの断片ファイル（連番順）
+  startedAt: number | null;   // 録音開始日時（UNIXミリ秒、録音の情報がない場合は null）
+  duration: number;           // 録音時間（秒、録音の情報がない場合は 0）
+  partDurations: number[];    // パートごとの録音時間（秒）
+  mimeType: string;           // 録音の形式（録音の情報がない場合は audio/webm）
+  size: number;               // 断片ファイルの合計サイズ（バイト）
+}
+
+// 断片ファイル名（part{n}-{連番}.webm）
+const FRAGMENT_REGEX = /(?:^|\/)part(\d+)-(\d+)\.webm$/;
+
+/**
+ * 断片ファイル名からパート（0 から）と連番を取得
+ */
+export function parseFragmentName(path: string): { part: number; sequence: number } | null {
+  const match = path.match(FRAGMENT_REGEX);
+  if (!match) return null;
+  return { part: parseInt(match[1], 10) - 1, sequence: parseInt(match[2], 10) };
+}
+
+/**
+ * 断片ファイルをパートごとに連番順に並べる
+ * 途中のパートの断片がない場合は空のパートにする
+ */
+export function groupFragments(paths: string[]): string[][] {
+  const fragments = paths
+    .map(path => ({ path, name: parseFragmentName(path) }))
+    .filter((fragment): fragment is { path: string; name: { part: number; sequence: number } } =>
+      fragment.name !== null && fragment.name.part >= 0)
+    .sort((a, b) => a.name.part - b.name.part || a.name.sequence - b.name.sequence);
+
+  const parts: string[][] = [];
+  for (const { path, name } of fragments) {
+    while (parts.length <= name.part) {
+      parts.push([]);
+    }
+    parts[name.part].push(path);
+  }
+  return parts;
+}
+
+/**
+ * 中断された録音の復元クラス
+ * 録音中の一時ファイルは録音ごとのフォルダにあり、送信・キャンセルで削除される
+ * プラグインの読み込み時に残っているフォルダは中断された録音として扱う
+ */
+export class RecordingRecovery {
+  private adapter: DataAdapter;
+  private root: string;
+
+  /**
+   * @param root - 録音ごとの一時ファイルのフォルダをまとめるフォルダ
+   */
+  constructor(adapter: DataAdapter, root: string) {
+    this.adapter = adapter;
+    this.root = root;
+  }
+
+  /**
+   * 中断された録音を探す（古い順）
+   * 断片ファイルがないフォルダは録音データがないため削除する
+   */
+  async find(): Promise<InterruptedRecording[]> {
+    if (!(await this.adapter.exists(this.root))) return [];
+
+    const recordings: InterruptedRecording[] = [];
+    for (const folder of (await this.adapter.list(this.root)).folders) {
+      const { files } = await this.adapter.list(folder);
+      const parts = groupFragments(files);
+      if (parts.length === 0) {
+        await this.remove(folder);
+        continue;
+      }
+
+      const info = await this.readInfo(folder);
+      const partDurations = Array.isArray(info.partDurations) ? info.partDurations : [];
+      let size = 0;
+      for (const path of parts.flat()) {
+        size += (await this.adapter.stat(path))?.size ?? 0;
+      }
+
+      recordings.push({
+        folder,
+        parts,
+        startedAt: typeof info.startedAt === 'number' ? info.startedAt : null,
+        duration: partDurations.reduce((sum, duration) => sum + duration, 0),
+        partDurations,
+        mimeType: typeof info.mimeType === 'string' && info.mimeType ? info.mimeType : 'audio/webm',
+        size
+      });
+    }
+
+    return recordings.sort((a, b) => (a.startedAt ?? 0) - (b.startedAt ?? 0));
+  }
+
+  /**
+   * パートの録音データを取得（断片ファイルを連番順に連結する）
+   */
+  async readPart(recording: InterruptedRecording, part: number): Promise<Blob> {
+    const data: ArrayBuffer[] = [];
+    for (const path of recording.parts[part] ?? []) {
+      data.push(await this.adapter.readBinary(path));
+    }
+    return new Blob(data, { type: recording.mimeType });
+  }
+
+  /**
+   * 中断された録音の一時ファイルを削除
+   */
+  async remove(folder: string): Promise<void> {
+    if (await this.adapter.exists(folder)) {
+      await this.adapter.rmdir(folder, true);
+    }
+  }
+
+  /**
+   * 録音の情報を読み込む
+   * 読み込めない場合（最初の書き出し中に中断された場合など）は空にする
+   */
+  private async readInfo(folder: string): Promise<Partial<RecordingInfo>> {
+    const path = `${folder}/${RECORDING_INFO_FILENAME}`;
+    if (!(await this.adapter.exists(path))) return {};
+
+    try {
+      return JSON.parse(await this.adapter.read(path)) as Partial<RecordingInfo>;
+    } catch (error) {
+      console.warn(`Whisper Transcribe: Failed to read recording info: ${path}`, error);
+      return {};
+    }
+  }
+}
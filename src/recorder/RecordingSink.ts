@@ -0,0 +1,179 @@
+// 録音データの保存先モジュール
+// 録音中のデータをパートごとに保持する（メモリまたは Vault 内の一時ファイル）
+
+import type { DataAdapter } from 'obsidian';
+
+/**
+ * 録音データの保存先
+ * パートは録音の区切り（ロールオーバーごとに新しいパートになる）で、0 から始まる
+ */
+export interface RecordingSink {
+  write(part: number, data: Blob): Promise<void>;               // 録音データを追記
+  endPart(part: number): Promise<void>;                         // パートの録音が終わった
+  readPart(part: number, mimeType: string): Promise<Blob>;      // パートの録音データを取得
+  remove(): Promise<void>;                                      // 録音データを破棄
+  setPartDurations(durations: number[]): void;                  // パートごとの録音時間（秒）を更新
+  setMimeType(mimeType: string): void;                          // 録音の形式（MediaRecorder が選んだ MIME タイプ）
+}
+
+/**
+ * 一時ファイルと一緒に書き出す録音の情報
+ * 中断された録音を復元する際に使う
+ */
+export interface RecordingInfo {
+  startedAt: number;          // 録音開始日時（UNIXミリ秒）
+  partDurations: number[];    // パートごとの録音時間（秒）
+  mimeType?: string;          // 録音の形式（以前のバージョンは audio/webm）
+}
+
+/**
+ * 録音の情報を書き出すファイル名
+ */
+export const RECORDING_INFO_FILENAME = 'recording.json';
+
+/**
+ * 一時ファイルに書き出す間隔のデフォルト値（ミリ秒）
+ */
+export const DEFAULT_FLUSH_INTERVAL = 10 * 1000;
+
+/**
+ * メモリに保持する保存先
+ */
+export class MemoryRecordingSink implements RecordingSink {
+  private parts: Blob[][] = [];
+
+  async write(part: number, data: Blob): Promise<void> {
+    (this.parts[part] ??= []).push(data);
+  }
+
+  async endPart(): Promise<void> {
+    // メモリに保持するだけのため何もしない
+  }
+
+  async readPart(part: number, mimeType: string): Promise<Blob> {
+    return new Blob(this.parts[part] ?? [], { type: mimeType });
+  }
+
+  async remove(): Promise<void> {
+    this.parts = [];
+  }
+
+  setPartDurations(): void {
+    // 復元しないため保持しない
+  }
+
+  setMimeType(): void {
+    // 復元しないため保持しない
+  }
+}
+
+/**
+ * Vault 内の一時ファイルに書き出す保存先
+ * 一定間隔で未書き出しのデータを断片ファイル（part{n}-{連番}.webm）として書き出し、
+ * アプリが終了しても書き出し済みのデータは残る（録音の情報も recording.json に書き出す）
+ * 断片ファイルはパートの先頭から順に連結すると元の録音データになる
+ */
+export class FileRecordingSink implements RecordingSink {
+  private adapter: DataAdapter;
+  private folder: string;
+  private flushInterval: number;
+  private buffers = new Map<number, Blob[]>();         // パートごとの未書き出しのデータ
+  private fragments = new Map<number, string[]>();     // パートごとの断片ファイル
+  private lastFlushAt = new Map<number, number>();
+  private folderCreated = false;
+  private info: RecordingInfo;
+
+  constructor(
+    adapter: DataAdapter,
+    folder: string,
+    flushInterval: number = DEFAULT_FLUSH_INTERVAL,
+    startedAt: number = Date.now()
+  ) {
+    this.adapter = adapter;
+    this.folder = folder;
+    this.flushInterval = flushInterval;
+    this.info = { startedAt, partDurations: [] };
+  }
+
+  /**
+   * 一時ファイルのフォルダを取得
+   */
+  getFolder(): string {
+    return this.folder;
+  }
+
+  async write(part: number, data: Blob, now: number = Date.now()): Promise<void> {
+    const buffer = this.buffers.get(part) ?? [];
+    buffer.push(data);
+    this.buffers.set(part, buffer);
+
+    if (!this.lastFlushAt.has(part)) {
+      this.lastFlushAt.set(part, now);
+    }
+    if (now - (this.lastFlushAt.get(part) ?? now) >= this.flushInterval) {
+      await this.flush(part, now);
+    }
+  }
+
+  async endPart(part: number): Promise<void> {
+    await this.flush(part);
+  }
+
+  async readPart(part: number, mimeType: string): Promise<Blob> {
+    const data: (ArrayBuffer | Blob)[] = [];
+    for (const path of this.fragments.get(part) ?? []) {
+      data.push(await this.adapter.readBinary(path));
+    }
+    data.push(...(this.buffers.get(part) ?? []));
+    return new Blob(data, { type: mimeType });
+  }
+
+  async remove(): Promise<void> {
+    this.buffers.clear();
+    this.fragments.clear();
+    this.lastFlushAt.clear();
+    if (this.folderCreated && (await this.adapter.exists(this.folder))) {
+      await this.adapter.rmdir(this.folder, true);
+    }
+    this.folderCreated = false;
+  }
+
+  setPartDurations(durations: number[]): void {
+    this.info = { ...this.info, partDurations: [...durations] };
+  }
+
+  setMimeType(mimeType: string): void {
+    this.info = { ...this.info, mimeType };
+  }
+
+  /**
+   * 未書き出しのデータを断片ファイルとして書き出す
+   */
+  private async flush(part: number, now: number = Date.now()): Promise<void> {
+    const buffer = this.buffers.get(part) ?? [];
+    this.buffers.set(part, []);
+    this.lastFlushAt.set(part, now);
+    if (buffer.length === 0) return;
+
+    if (!this.folderCreated) {
+      if (!(await this.adapter.exists(this.folder))) {
+        await this.adapter.mkdir(this.folder);
+      }
+      this.folderCreated = true;
+    }
+
+    const fragments = this.fragments.get(part) ?? [];
+    const sequence = (fragments.length + 1).toString().padStart(4, '0');
+    const path = `${this.folder}/part${part + 1}-${sequence}.webm`;
+    try {
+      await this.adapter.writeBinary(path, await new Blob(buffer).arrayBuffer());
+    } catch (error) {
+      // 書き出せなかったデータは次の書き出しで再試行する
+      this.buffers.set(part, [...buffer, ...(this.buffers.get(part) ?? [])]);
+      throw error;
+    }
+    fragments.push(path);
+    this.fragments.set(part, fragments);
+    await this.adapter.write(`${this.folder}/${RECORDING_INFO_FILENAME}`, JSON.stringify(this.info));
+  }
+}
@@ -2,3 +2,17 @@
 
 export { AudioRecorder } from './AudioRecorder';
 export type { RecorderState, RecorderConfig } from './AudioRecorder';
+export { MemoryRecordingSink, FileRecordingSink, DEFAULT_FLUSH_INTERVAL, RECORDING_INFO_FILENAME } from './RecordingSink';
+export type { RecordingSink, RecordingInfo } from './RecordingSink';
+export { RecordingRecovery, parseFragmentName, groupFragments } from './RecordingRecovery';
+export type { InterruptedRecording } from './RecordingRecovery';
+export {
+  InputDeviceStore,
+  listInputDevices,
+  clampInputGain,
+  INPUT_DEVICE_STORAGE_KEY,
+  DEFAULT_INPUT_GAIN,
+  MIN_INPUT_GAIN,
+  MAX_INPUT_GAIN
+} from './InputDeviceStore';
+export type { InputDevice, InputDevicePreferences } from './InputDeviceStore';
@@ -1,22 +1,78 @@
 // プラグイン設定
 
+import type { ProviderType } from '../api/providers';
+import type { TimestampGranularity } from '../api/TranscriptionService';
+import { OUTPUT_MODES, type OutputMode } from '../output/TranscriptOutput';
+import {
+  DEFAULT_POST_PROCESS_URL,
+  DEFAULT_POST_PROCESS_PRESETS,
+  type PostProcessPreset
+} from '../postprocess/PostProcessor';
+import { TRANSLATION_OUTPUTS, type TranslationOutput } from '../translation/Translator';
+import { DEFAULT_AUDIO_FILENAME_PATTERN, DEFAULT_TRANSCRIPT_FILENAME_PATTERN } from '../storage/filenamePattern';
+import type { ApiProfile, FolderProfileRule } from './profiles';
+
 /**
  * プラグイン設定インターフェース
  */
 export interface PluginSettings {
   // API設定
+  provider: ProviderType;
   apiKey: string;
   apiUrl: string;
   model: string;
   language: string;
   timeout: number;        // 秒単位
+  maxRetries: number;     // レート制限・サーバーエラーの再試行回数
+  retryBaseDelay: number; // 1回目の再試行までの待機時間（秒）
   temperature: number;
   initialPrompt: string;
+  previousChunkPrompt: boolean;  // チャンク送信で直前のチャンクの末尾をプロンプトに加える
+  noteContextPrompt: boolean;    // アクティブなノートのタイトル・見出しをプロンプトに加える
+  timestampGranularity: TimestampGranularity;  // タイムスタンプの粒度
+  diarization: boolean;        // 話者分離
+  
+  // 用語集
+  glossary: string;            // 用語と置換ルール（「誤 -> 正」）
+  glossaryNotePath: string;    // 同じ形式の用語集ノート（空の場合は使わない）
+  
+  // APIプロファイル
+  profiles: ApiProfile[];              // 録音ごとに切り替えるAPI設定
+  folderProfiles: FolderProfileRule[]; // フォルダーごとのデフォルトプロファイル
+  
+  // マイク設定（マイクの選択と入力ゲインは端末ごとに InputDeviceStore に保存する）
+  echoCancellation: boolean;   // エコーキャンセル
+  noiseSuppression: boolean;   // ノイズ抑制
+  autoGainControl: boolean;    // 自動ゲイン調整
+  captureSystemAudio: boolean; // システム音声も録音（デスクトップのみ）
+  silenceThresholdDb: number;  // 録音中に無音と判定する音量（dB）
+  autoPauseSeconds: number;    // 無音がこの秒数続いたら一時停止し、発話で再開（0 = しない）
+  autoStopMinutes: number;     // 無音がこの分数続いたら録音を停止（0 = しない）
   
   // 保存設定
   audioFolder: string;
   transcriptFolder: string;
+  audioFilenamePattern: string;       // 音声ファイル名パターン（"/" でサブフォルダ）
+  transcriptFilenamePattern: string;  // 文字起こしファイル名パターン
   chunkSizeMB: number;
+  recordingPartMinutes: number;       // 録音をこの分数ごとに別の音声ファイルに分ける（0 = 分けない）
+  
+  // 出力設定
+  outputMode: OutputMode;      // 文字起こし結果の出力先
+  templatePath: string;        // 文字起こしテンプレートファイル（空の場合はデフォルト）
+  customFrontmatter: string;   // 追加のフロントマター（"key: value" 形式の行）
+  tags: string;                // フロントマターのタグ（カンマ区切り）
+  
+  // 後処理設定
+  postProcessEnabled: boolean;
+  postProcessApiUrl: string;   // Chat Completions 互換エンドポイント
+  postProcessApiKey: string;   // 空の場合は文字起こしの API Key を使う
+  postProcessModel: string;
+  postProcessPresets: PostProcessPreset[];
+  
+  // 翻訳設定
+  translationLanguage: string;           // 翻訳先の言語（空の場合は翻訳しない）
+  translationOutput: TranslationOutput;  // 翻訳のみ / 原文と翻訳を並べる
   
   // トリミング設定
   enableTrimming: boolean;
@@ -30,16 +86,48 @@ export interface PluginSettings {
  * デフォルト設定
  */
 export const DEFAULT_SETTINGS: PluginSettings = {
+  provider: 'openai',
   apiKey: '',
   apiUrl: 'https://api.openai.com/v1/audio/transcriptions',
   model: 'whisper-1',
   language: 'ja',
   timeout: 300,
+  maxRetries: 3,
+  retryBaseDelay: 2,
   temperature: 0,
   initialPrompt: '',
+  previousChunkPrompt: true,
+  noteContextPrompt: false,
+  timestampGranularity: 'segment',
+  diarization: false,
+  glossary: '',
+  glossaryNotePath: '',
+  profiles: [],
+  folderProfiles: [],
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  captureSystemAudio: false,
+  silenceThresholdDb: -50,
+  autoPauseSeconds: 0,
+  autoStopMinutes: 0,
   audioFolder: 'recordings',
   transcriptFolder: 'transcripts',
+  audioFilenamePattern: DEFAULT_AUDIO_FILENAME_PATTERN,
+  transcriptFilenamePattern: DEFAULT_TRANSCRIPT_FILENAME_PATTERN,
   chunkSizeMB: 20,
+  recordingPartMinutes: 0,
+  outputMode: 'new-note',
+  templatePath: '',
+  customFrontmatter: '',
+  tags: 'transcription',
+  postProcessEnabled: false,
+  postProcessApiUrl: DEFAULT_POST_PROCESS_URL,
+  postProcessApiKey: '',
+  postProcessModel: 'gpt-4o-mini',
+  postProcessPresets: DEFAULT_POST_PROCESS_PRESETS,
+  translationLanguage: '',
+  translationOutput: 'both',
   enableTrimming: true,
   autoSkipDuration: 20,
   defaultThresholdDb: -40,
@@ -47,12 +135,19 @@ export const DEFAULT_SETTINGS: PluginSettings = {
   silenceMargin: 0.2
 };
 
+/**
+ * エクスポートするプロファイル（API Keyを除く）
+ */
+export type ExportedApiProfile = Omit<ApiProfile, 'apiKey'>;
+
 /**
  * 設定エクスポート形式
  */
 export interface SettingsExport {
   version: string;
-  settings: Omit<PluginSettings, 'apiKey'>;
+  settings: Omit<PluginSettings, 'apiKey' | 'postProcessApiKey' | 'profiles'> & {
+    profiles?: ExportedApiProfile[];  // 以前のバージョンのエクスポートにはない
+  };
 }
 
 /**
@@ -60,10 +155,13 @@ export interface SettingsExport {
  */
 export function exportSettings(settings: PluginSettings, version: string): SettingsExport {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { apiKey: _apiKey, ...rest } = settings;
+  const { apiKey: _apiKey, postProcessApiKey: _postProcessApiKey, profiles, ...rest } = settings;
   return {
     version,
-    settings: rest
+    settings: {
+      ...rest,
+      profiles: profiles.map(({ apiKey: _profileApiKey, ...profile }) => profile)
+    }
   };
 }
 
@@ -74,10 +172,18 @@ export function importSettings(
   exported: SettingsExport,
   currentSettings: PluginSettings
 ): PluginSettings {
+  const { profiles, ...settings } = exported.settings;
   return {
     ...currentSettings,
-    ...exported.settings
-    // apiKey は現在の設定を維持
+    ...settings,
+    // apiKey / postProcessApiKey は現在の設定を維持
+    // プロファイルの API Key は同じIDのプロファイルから引き継ぐ
+    profiles: profiles
+      ? profiles.map(profile => ({
+        ...profile,
+        apiKey: currentSettings.profiles.find(current => current.id === profile.id)?.apiKey ?? ''
+      }))
+      : currentSettings.profiles
   };
 }
 
@@ -87,7 +193,8 @@ export function importSettings(
 export function validateSettings(settings: PluginSettings): string[] {
   const errors: string[] = [];
 
-  if (!settings.apiKey) {
+  // whisper.cpp サーバーは認証なしで利用できる
+  if (!settings.apiKey && settings.provider !== 'whisper-cpp') {
     errors.push('API Key is required');
   }
 
@@ -97,22 +204,75 @@ export function validateSettings(settings: PluginSettings): string[] {
     errors.push('Invalid API URL format');
   }
 
-  if (!settings.model) {
+  // OpenAI互換以外はモデル未指定でもプロバイダー側のデフォルトが使われる
+  if (!settings.model && (settings.provider ?? 'openai') === 'openai') {
     errors.push('Model is required');
   }
 
+  for (const profile of settings.profiles) {
+    try {
+      new URL(profile.apiUrl);
+    } catch {
+      errors.push(`Invalid API URL format in profile "${profile.name}"`);
+    }
+  }
+
   if (settings.timeout < 1 || settings.timeout > 3600) {
     errors.push('Timeout must be between 1 and 3600 seconds');
   }
 
+  if (settings.maxRetries < 0 || settings.maxRetries > 10) {
+    errors.push('Max retries must be between 0 and 10');
+  }
+
+  if (settings.retryBaseDelay < 1 || settings.retryBaseDelay > 60) {
+    errors.push('Retry delay must be between 1 and 60 seconds');
+  }
+
   if (settings.temperature < 0 || settings.temperature > 1) {
     errors.push('Temperature must be between 0 and 1');
   }
 
+  if (!settings.audioFilenamePattern.trim() || !settings.transcriptFilenamePattern.trim()) {
+    errors.push('Filename pattern is required');
+  }
+
+  if (settings.postProcessEnabled) {
+    try {
+      new URL(settings.postProcessApiUrl);
+    } catch {
+      errors.push('Invalid post-processing API URL format');
+    }
+  }
+
+  if (!OUTPUT_MODES.includes(settings.outputMode)) {
+    errors.push('Invalid output mode');
+  }
+
+  if (!TRANSLATION_OUTPUTS.includes(settings.translationOutput)) {
+    errors.push('Invalid translation output');
+  }
+
   if (settings.chunkSizeMB < 1 || settings.chunkSizeMB > 24) {
     errors.push('Chunk size must be between 1 and 24 MB');
   }
 
+  if (settings.recordingPartMinutes < 0 || settings.recordingPartMinutes > 600) {
+    errors.push('Recording part length must be between 0 and 600 minutes');
+  }
+
+  if (settings.silenceThresholdDb < -60 || settings.silenceThresholdDb > -10) {
+    errors.push('Silence threshold must be between -60 and -10 dB');
+  }
+
+  if (settings.autoPauseSeconds < 0 || settings.autoPauseSeconds > 60) {
+    errors.push('Auto pause must be between 0 and 60 seconds');
+  }
+
+  if (settings.autoStopMinutes < 0 || settings.autoStopMinutes > 120) {
+    errors.push('Auto stop must be between 0 and 120 minutes');
+  }
+
   if (settings.autoSkipDuration < 0 || settings.autoSkipDuration > 300) {
     errors.push('Auto skip duration must be between 0 and 300 seconds');
   }
@@ -1,15 +1,66 @@
 // 設定タブ
 
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, Platform, type DropdownComponent } from 'obsidian';
 import type WhisperTranscribePlugin from '../main';
 import { t } from '../i18n';
 import { exportSettings, importSettings } from './PluginSettings';
+import { DEFAULT_PROVIDER_URLS, type ProviderType } from '../api/providers';
+import { AUTO_LANGUAGE } from '../api/languages';
+import type { TimestampGranularity } from '../api/TranscriptionService';
+import { OUTPUT_MODES, type OutputMode } from '../output';
+import { DEFAULT_POST_PROCESS_URL, DEFAULT_POST_PROCESS_PRESETS } from '../postprocess';
+import { TRANSLATION_OUTPUTS, type TranslationOutput } from '../translation';
+import { DEFAULT_AUDIO_FILENAME_PATTERN, DEFAULT_TRANSCRIPT_FILENAME_PATTERN } from '../storage/filenamePattern';
+import { createProfile } from './profiles';
+import {
+  InputDeviceStore,
+  listInputDevices,
+  MIN_INPUT_GAIN,
+  MAX_INPUT_GAIN,
+  type InputDevice
+} from '../recorder';
+import { getInputDeviceOptions } from '../ui/inputDeviceOptions';
+
+// 文字起こしの言語の選択肢
+const LANGUAGE_OPTIONS: Record<string, string> = {
+  'ja': '日本語 (Japanese)',
+  'en': 'English',
+  'zh': '中文 (Chinese)',
+  'ko': '한국어 (Korean)',
+  'de': 'Deutsch (German)',
+  'fr': 'Français (French)',
+  'es': 'Español (Spanish)',
+  'it': 'Italiano (Italian)',
+  'pt': 'Português (Portuguese)',
+  'ru': 'Русский (Russian)'
+};
+
+/**
+ * 言語の選択肢（自動検出を含む）
+ */
+function getLanguageOptions(): Record<string, string> {
+  return { [AUTO_LANGUAGE]: t('settings.language.auto'), ...LANGUAGE_OPTIONS };
+}
+
+/**
+ * プロバイダーの選択肢
+ */
+function getProviderOptions(): Record<ProviderType, string> {
+  return {
+    'openai': t('settings.provider.openai'),
+    'whisper-cpp': t('settings.provider.whisperCpp'),
+    'deepgram': t('settings.provider.deepgram'),
+    'assemblyai': t('settings.provider.assemblyai')
+  };
+}
 
 /**
  * 設定タブクラス
  */
 export class SettingsTab extends PluginSettingTab {
   plugin: WhisperTranscribePlugin;
+  private inputDevices = new InputDeviceStore();
+  private inputDeviceList: InputDevice[] | null = null;  // 取得前は null
 
   constructor(app: App, plugin: WhisperTranscribePlugin) {
     super(app, plugin);
@@ -23,6 +74,26 @@ export class SettingsTab extends PluginSettingTab {
     // API設定セクション
     containerEl.createEl('h2', { text: t('settings.apiSection') });
 
+    // Provider
+    new Setting(containerEl)
+      .setName(t('settings.provider'))
+      .setDesc(t('settings.providerDesc'))
+      .addDropdown(dropdown => dropdown
+        .addOptions(getProviderOptions())
+        .setValue(this.plugin.settings.provider)
+        .onChange(async (value) => {
+          const previous = this.plugin.settings.provider;
+          const provider = value as ProviderType;
+          this.plugin.settings.provider = provider;
+          // URLが前のプロバイダーのデフォルトのままなら新しいデフォルトに切り替える
+          if (this.plugin.settings.apiUrl === DEFAULT_PROVIDER_URLS[previous]) {
+            this.plugin.settings.apiUrl = DEFAULT_PROVIDER_URLS[provider];
+          }
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
     // API Key
     new Setting(containerEl)
       .setName(t('settings.apiKey'))
@@ -41,7 +112,7 @@ export class SettingsTab extends PluginSettingTab {
       .setName(t('settings.apiUrl'))
       .setDesc(t('settings.apiUrlDesc'))
       .addText(text => text
-        .setPlaceholder('https://api.openai.com/v1/audio/transcriptions')
+        .setPlaceholder(DEFAULT_PROVIDER_URLS[this.plugin.settings.provider])
         .setValue(this.plugin.settings.apiUrl)
         .onChange(async (value) => {
           this.plugin.settings.apiUrl = value;
@@ -67,18 +138,7 @@ export class SettingsTab extends PluginSettingTab {
       .setName(t('settings.language'))
       .setDesc(t('settings.languageDesc'))
       .addDropdown(dropdown => dropdown
-        .addOptions({
-          'ja': '日本語 (Japanese)',
-          'en': 'English',
-          'zh': '中文 (Chinese)',
-          'ko': '한국어 (Korean)',
-          'de': 'Deutsch (German)',
-          'fr': 'Français (French)',
-          'es': 'Español (Spanish)',
-          'it': 'Italiano (Italian)',
-          'pt': 'Português (Portuguese)',
-          'ru': 'Русский (Russian)'
-        })
+        .addOptions(getLanguageOptions())
         .setValue(this.plugin.settings.language)
         .onChange(async (value) => {
           this.plugin.settings.language = value;
@@ -102,6 +162,38 @@ export class SettingsTab extends PluginSettingTab {
         })
       );
 
+    // Max Retries
+    new Setting(containerEl)
+      .setName(t('settings.maxRetries'))
+      .setDesc(t('settings.maxRetriesDesc'))
+      .addText(text => text
+        .setPlaceholder('3')
+        .setValue(this.plugin.settings.maxRetries.toString())
+        .onChange(async (value) => {
+          const num = parseInt(value, 10);
+          if (!isNaN(num) && num >= 0 && num <= 10) {
+            this.plugin.settings.maxRetries = num;
+            await this.plugin.saveSettings();
+          }
+        })
+      );
+
+    // Retry Delay
+    new Setting(containerEl)
+      .setName(t('settings.retryBaseDelay'))
+      .setDesc(t('settings.retryBaseDelayDesc'))
+      .addText(text => text
+        .setPlaceholder('2')
+        .setValue(this.plugin.settings.retryBaseDelay.toString())
+        .onChange(async (value) => {
+          const num = parseInt(value, 10);
+          if (!isNaN(num) && num >= 1 && num <= 60) {
+            this.plugin.settings.retryBaseDelay = num;
+            await this.plugin.saveSettings();
+          }
+        })
+      );
+
     // Temperature
     new Setting(containerEl)
       .setName(t('settings.temperature'))
@@ -129,6 +221,59 @@ export class SettingsTab extends PluginSettingTab {
         })
       );
 
+    // Previous Chunk Prompt
+    new Setting(containerEl)
+      .setName(t('settings.previousChunkPrompt'))
+      .setDesc(t('settings.previousChunkPromptDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.previousChunkPrompt)
+        .onChange(async (value) => {
+          this.plugin.settings.previousChunkPrompt = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Note Context Prompt
+    new Setting(containerEl)
+      .setName(t('settings.noteContextPrompt'))
+      .setDesc(t('settings.noteContextPromptDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.noteContextPrompt)
+        .onChange(async (value) => {
+          this.plugin.settings.noteContextPrompt = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Timestamp Granularity
+    new Setting(containerEl)
+      .setName(t('settings.timestampGranularity'))
+      .setDesc(t('settings.timestampGranularityDesc'))
+      .addDropdown(dropdown => dropdown
+        .addOptions({
+          'none': t('settings.timestampGranularity.none'),
+          'segment': t('settings.timestampGranularity.segment'),
+          'word': t('settings.timestampGranularity.word')
+        })
+        .setValue(this.plugin.settings.timestampGranularity)
+        .onChange(async (value) => {
+          this.plugin.settings.timestampGranularity = value as TimestampGranularity;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Speaker Diarization
+    new Setting(containerEl)
+      .setName(t('settings.diarization'))
+      .setDesc(t('settings.diarizationDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.diarization)
+        .onChange(async (value) => {
+          this.plugin.settings.diarization = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
     // 接続テストボタン
     new Setting(containerEl)
       .setName(t('settings.testConnection'))
@@ -151,6 +296,43 @@ export class SettingsTab extends PluginSettingTab {
         })
       );
 
+    // APIプロファイルセクション
+    containerEl.createEl('h2', { text: t('settings.profileSection') });
+    this.displayProfileSettings(containerEl);
+
+    // 用語集セクション
+    containerEl.createEl('h2', { text: t('settings.glossarySection') });
+
+    // Terms
+    new Setting(containerEl)
+      .setName(t('settings.glossary'))
+      .setDesc(t('settings.glossaryDesc'))
+      .addTextArea(text => text
+        .setPlaceholder('Acme Cloud\nakme, acne -> Acme')
+        .setValue(this.plugin.settings.glossary)
+        .onChange(async (value) => {
+          this.plugin.settings.glossary = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Glossary Note
+    new Setting(containerEl)
+      .setName(t('settings.glossaryNotePath'))
+      .setDesc(t('settings.glossaryNotePathDesc'))
+      .addText(text => text
+        .setPlaceholder('glossary.md')
+        .setValue(this.plugin.settings.glossaryNotePath)
+        .onChange(async (value) => {
+          this.plugin.settings.glossaryNotePath = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // マイク設定セクション
+    containerEl.createEl('h2', { text: t('settings.microphoneSection') });
+    this.displayMicrophoneSettings(containerEl);
+
     // 保存設定セクション
     containerEl.createEl('h2', { text: t('settings.storageSection') });
 
@@ -180,6 +362,32 @@ export class SettingsTab extends PluginSettingTab {
         })
       );
 
+    // Audio Filename Pattern
+    new Setting(containerEl)
+      .setName(t('settings.audioFilenamePattern'))
+      .setDesc(t('settings.audioFilenamePatternDesc'))
+      .addText(text => text
+        .setPlaceholder(DEFAULT_AUDIO_FILENAME_PATTERN)
+        .setValue(this.plugin.settings.audioFilenamePattern)
+        .onChange(async (value) => {
+          this.plugin.settings.audioFilenamePattern = value.trim() || DEFAULT_AUDIO_FILENAME_PATTERN;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Transcript Filename Pattern
+    new Setting(containerEl)
+      .setName(t('settings.transcriptFilenamePattern'))
+      .setDesc(t('settings.transcriptFilenamePatternDesc'))
+      .addText(text => text
+        .setPlaceholder(DEFAULT_TRANSCRIPT_FILENAME_PATTERN)
+        .setValue(this.plugin.settings.transcriptFilenamePattern)
+        .onChange(async (value) => {
+          this.plugin.settings.transcriptFilenamePattern = value.trim() || DEFAULT_TRANSCRIPT_FILENAME_PATTERN;
+          await this.plugin.saveSettings();
+        })
+      );
+
     // Chunk Size
     new Setting(containerEl)
       .setName(t('settings.chunkSize'))
@@ -196,6 +404,132 @@ export class SettingsTab extends PluginSettingTab {
         })
       );
 
+    // Recording Part Length
+    new Setting(containerEl)
+      .setName(t('settings.recordingPartMinutes'))
+      .setDesc(t('settings.recordingPartMinutesDesc'))
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.recordingPartMinutes.toString())
+        .onChange(async (value) => {
+          const num = parseInt(value, 10);
+          if (!isNaN(num) && num >= 0 && num <= 600) {
+            this.plugin.settings.recordingPartMinutes = num;
+            await this.plugin.saveSettings();
+          }
+        })
+      );
+
+    // 出力設定セクション
+    containerEl.createEl('h2', { text: t('settings.outputSection') });
+
+    // Output Mode
+    new Setting(containerEl)
+      .setName(t('settings.outputMode'))
+      .setDesc(t('settings.outputModeDesc'))
+      .addDropdown(dropdown => dropdown
+        .addOptions(Object.fromEntries(OUTPUT_MODES.map(mode => [mode, t(`output.${mode}`)])))
+        .setValue(this.plugin.settings.outputMode)
+        .onChange(async (value) => {
+          this.plugin.settings.outputMode = value as OutputMode;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Template File
+    new Setting(containerEl)
+      .setName(t('settings.templatePath'))
+      .setDesc(t('settings.templatePathDesc'))
+      .addText(text => text
+        .setPlaceholder('templates/transcript.md')
+        .setValue(this.plugin.settings.templatePath)
+        .onChange(async (value) => {
+          this.plugin.settings.templatePath = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Custom Frontmatter
+    new Setting(containerEl)
+      .setName(t('settings.customFrontmatter'))
+      .setDesc(t('settings.customFrontmatterDesc'))
+      .addTextArea(text => text
+        .setPlaceholder('type: meeting\nproject: ')
+        .setValue(this.plugin.settings.customFrontmatter)
+        .onChange(async (value) => {
+          this.plugin.settings.customFrontmatter = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Tags
+    new Setting(containerEl)
+      .setName(t('settings.tags'))
+      .setDesc(t('settings.tagsDesc'))
+      .addText(text => text
+        .setPlaceholder('transcription')
+        .setValue(this.plugin.settings.tags)
+        .onChange(async (value) => {
+          this.plugin.settings.tags = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // 翻訳設定セクション
+    containerEl.createEl('h2', { text: t('settings.translationSection') });
+
+    // Translate To
+    new Setting(containerEl)
+      .setName(t('settings.translationLanguage'))
+      .setDesc(t('settings.translationLanguageDesc'))
+      .addDropdown(dropdown => dropdown
+        .addOptions({ '': t('settings.translationOff'), ...LANGUAGE_OPTIONS })
+        .setValue(this.plugin.settings.translationLanguage)
+        .onChange(async (value) => {
+          this.plugin.settings.translationLanguage = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.translationLanguage) {
+      // Translation Output
+      new Setting(containerEl)
+        .setName(t('settings.translationOutput'))
+        .addDropdown(dropdown => dropdown
+          .addOptions(Object.fromEntries(TRANSLATION_OUTPUTS.map(output => [output, t(`settings.translationOutput.${output}`)])))
+          .setValue(this.plugin.settings.translationOutput)
+          .onChange(async (value) => {
+            this.plugin.settings.translationOutput = value as TranslationOutput;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    // 後処理設定セクション
+    containerEl.createEl('h2', { text: t('settings.postProcessSection') });
+
+    // Enable Post-processing
+    new Setting(containerEl)
+      .setName(t('settings.postProcessEnabled'))
+      .setDesc(t('settings.postProcessEnabledDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.postProcessEnabled)
+        .onChange(async (value) => {
+          this.plugin.settings.postProcessEnabled = value;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    // 接続設定は翻訳（英語以外）でも使う
+    if (this.plugin.settings.postProcessEnabled || this.plugin.settings.translationLanguage) {
+      this.displayChatSettings(containerEl);
+    }
+    if (this.plugin.settings.postProcessEnabled) {
+      this.displayPostProcessPresets(containerEl);
+    }
+
     // トリミング設定セクション
     containerEl.createEl('h2', { text: t('settings.trimmingSection') });
 
@@ -297,6 +631,440 @@ export class SettingsTab extends PluginSettingTab {
       );
   }
 
+  /**
+   * APIプロファイルとフォルダーごとのデフォルトを表示
+   */
+  private displayProfileSettings(containerEl: HTMLElement): void {
+    const { profiles, folderProfiles } = this.plugin.settings;
+
+    profiles.forEach((profile, index) => {
+      new Setting(containerEl)
+        .setName(profile.name || profile.id)
+        .setHeading()
+        .addButton(button => button
+          .setButtonText(t('settings.profileDelete'))
+          .setWarning()
+          .onClick(async () => {
+            profiles.splice(index, 1);
+            // 削除したプロファイルを使うフォルダーの設定も削除する
+            this.plugin.settings.folderProfiles = folderProfiles.filter(rule => rule.profileId !== profile.id);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.profileName'))
+        .addText(text => text
+          .setValue(profile.name)
+          .onChange(async (value) => {
+            profile.name = value;
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.provider'))
+        .addDropdown(dropdown => dropdown
+          .addOptions(getProviderOptions())
+          .setValue(profile.provider)
+          .onChange(async (value) => {
+            const previous = profile.provider;
+            profile.provider = value as ProviderType;
+            // URLが前のプロバイダーのデフォルトのままなら新しいデフォルトに切り替える
+            if (profile.apiUrl === DEFAULT_PROVIDER_URLS[previous]) {
+              profile.apiUrl = DEFAULT_PROVIDER_URLS[profile.provider];
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.apiKey'))
+        .addText(text => text
+          .setPlaceholder('sk-...')
+          .setValue(profile.apiKey)
+          .onChange(async (value) => {
+            profile.apiKey = value;
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.apiUrl'))
+        .addText(text => text
+          .setPlaceholder(DEFAULT_PROVIDER_URLS[profile.provider])
+          .setValue(profile.apiUrl)
+          .onChange(async (value) => {
+            profile.apiUrl = value;
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.model'))
+        .addText(text => text
+          .setPlaceholder('whisper-1')
+          .setValue(profile.model)
+          .onChange(async (value) => {
+            profile.model = value;
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.language'))
+        .addDropdown(dropdown => dropdown
+          .addOptions(getLanguageOptions())
+          .setValue(profile.language)
+          .onChange(async (value) => {
+            profile.language = value;
+            await this.plugin.saveSettings();
+          })
+        );
+
+      new Setting(containerEl)
+        .setName(t('settings.initialPrompt'))
+        .addTextArea(text => text
+          .setValue(profile.initialPrompt)
+          .onChange(async (value) => {
+            profile.initialPrompt = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    });
+
+    new Setting(containerEl)
+      .setDesc(t('settings.profileSectionDesc'))
+      .addButton(button => button
+        .setButtonText(t('settings.profileAdd'))
+        .onClick(async () => {
+          profiles.push(createProfile(this.plugin.settings));
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (profiles.length === 0) return;
+
+    // フォルダーごとのデフォルトプロファイル
+    const profileOptions: Record<string, string> = Object.fromEntries(
+      profiles.map(profile => [profile.id, profile.name || profile.id])
+    );
+    folderProfiles.forEach((rule, index) => {
+      new Setting(containerEl)
+        .setName(t('settings.folderProfile'))
+        .addText(text => text
+          .setPlaceholder(t('settings.folderProfileFolder'))
+          .setValue(rule.folder)
+          .onChange(async (value) => {
+            rule.folder = value.trim();
+            await this.plugin.saveSettings();
+          })
+        )
+        .addDropdown(dropdown => dropdown
+          .addOptions(profileOptions)
+          .setValue(rule.profileId)
+          .onChange(async (value) => {
+            rule.profileId = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addButton(button => button
+          .setButtonText(t('settings.profileDelete'))
+          .setWarning()
+          .onClick(async () => {
+            folderProfiles.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+    });
+
+    new Setting(containerEl)
+      .setDesc(t('settings.folderProfileDesc'))
+      .addButton(button => button
+        .setButtonText(t('settings.folderProfileAdd'))
+        .onClick(async () => {
+          folderProfiles.push({ folder: '', profileId: profiles[0].id });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+  }
+
+  /**
+   * マイク設定を表示
+   * マイクの選択と入力ゲインはこの端末にのみ保存し、入力ゲインは選択中のマイクの値を表示する
+   */
+  private displayMicrophoneSettings(containerEl: HTMLElement): void {
+    const deviceId = this.inputDevices.getDeviceId();
+    let deviceDropdown: DropdownComponent | null = null;
+    const updateDeviceOptions = (devices: InputDevice[]): void => {
+      if (!deviceDropdown) return;
+      deviceDropdown.selectEl.empty();
+      deviceDropdown
+        .addOptions(getInputDeviceOptions(devices, deviceId))
+        .setValue(deviceId);
+    };
+
+    // Input Device
+    new Setting(containerEl)
+      .setName(t('settings.inputDevice'))
+      .setDesc(t('settings.inputDeviceDesc'))
+      .addDropdown(dropdown => {
+        deviceDropdown = dropdown;
+        updateDeviceOptions(this.inputDeviceList ?? []);
+        dropdown.onChange((value) => {
+          this.inputDevices.setDeviceId(value);
+          this.display();
+        });
+      })
+      .addExtraButton(button => button
+        .setIcon('refresh-cw')
+        .setTooltip(t('settings.inputDeviceRefresh'))
+        .onClick(async () => {
+          // マイクの名前を表示するため権限を求めて取得し直す
+          try {
+            this.inputDeviceList = await listInputDevices(true);
+            updateDeviceOptions(this.inputDeviceList);
+          } catch (error) {
+            console.error('Input device error:', error);
+            new Notice(t('notice.micPermissionDenied'));
+          }
+        })
+      );
+
+    // 最初に表示したときにマイクの一覧を取得する
+    if (!this.inputDeviceList) {
+      void listInputDevices().then(devices => {
+        this.inputDeviceList = devices;
+        updateDeviceOptions(devices);
+      }, (error: unknown) => {
+        console.error('Input device error:', error);
+      });
+    }
+
+    // Input Gain
+    new Setting(containerEl)
+      .setName(t('settings.inputGain'))
+      .setDesc(t('settings.inputGainDesc'))
+      .addSlider(slider => slider
+        .setLimits(MIN_INPUT_GAIN, MAX_INPUT_GAIN, 0.1)
+        .setValue(this.inputDevices.getGain(deviceId))
+        .setDynamicTooltip()
+        .onChange((value) => {
+          this.inputDevices.setGain(value, deviceId);
+        })
+      );
+
+    // Echo Cancellation
+    new Setting(containerEl)
+      .setName(t('settings.echoCancellation'))
+      .setDesc(t('settings.echoCancellationDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.echoCancellation)
+        .onChange(async (value) => {
+          this.plugin.settings.echoCancellation = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Noise Suppression
+    new Setting(containerEl)
+      .setName(t('settings.noiseSuppression'))
+      .setDesc(t('settings.noiseSuppressionDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.noiseSuppression)
+        .onChange(async (value) => {
+          this.plugin.settings.noiseSuppression = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Auto Gain Control
+    new Setting(containerEl)
+      .setName(t('settings.autoGainControl'))
+      .setDesc(t('settings.autoGainControlDesc'))
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.autoGainControl)
+        .onChange(async (value) => {
+          this.plugin.settings.autoGainControl = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // System Audio（画面共有の音声を使うためデスクトップのみ）
+    if (Platform.isDesktopApp) {
+      new Setting(containerEl)
+        .setName(t('settings.captureSystemAudio'))
+        .setDesc(t('settings.captureSystemAudioDesc'))
+        .addToggle(toggle => toggle
+          .setValue(this.plugin.settings.captureSystemAudio)
+          .onChange(async (value) => {
+            this.plugin.settings.captureSystemAudio = value;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
+    // Silence Threshold (dB)
+    new Setting(containerEl)
+      .setName(t('settings.silenceThresholdDb'))
+      .setDesc(t('settings.silenceThresholdDbDesc'))
+      .addSlider(slider => slider
+        .setLimits(-60, -10, 1)
+        .setValue(this.plugin.settings.silenceThresholdDb)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.silenceThresholdDb = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Auto Pause (sec)
+    new Setting(containerEl)
+      .setName(t('settings.autoPauseSeconds'))
+      .setDesc(t('settings.autoPauseSecondsDesc'))
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.autoPauseSeconds.toString())
+        .onChange(async (value) => {
+          const num = parseFloat(value);
+          if (!isNaN(num) && num >= 0 && num <= 60) {
+            this.plugin.settings.autoPauseSeconds = num;
+            await this.plugin.saveSettings();
+          }
+        })
+      );
+
+    // Auto Stop (minutes)
+    new Setting(containerEl)
+      .setName(t('settings.autoStopMinutes'))
+      .setDesc(t('settings.autoStopMinutesDesc'))
+      .addText(text => text
+        .setPlaceholder('0')
+        .setValue(this.plugin.settings.autoStopMinutes.toString())
+        .onChange(async (value) => {
+          const num = parseFloat(value);
+          if (!isNaN(num) && num >= 0 && num <= 120) {
+            this.plugin.settings.autoStopMinutes = num;
+            await this.plugin.saveSettings();
+          }
+        })
+      );
+  }
+
+  /**
+   * Chat Completions の接続設定を表示（後処理・翻訳で共通）
+   */
+  private displayChatSettings(containerEl: HTMLElement): void {
+    // Chat Completions URL
+    new Setting(containerEl)
+      .setName(t('settings.postProcessApiUrl'))
+      .setDesc(t('settings.postProcessApiUrlDesc'))
+      .addText(text => text
+        .setPlaceholder(DEFAULT_POST_PROCESS_URL)
+        .setValue(this.plugin.settings.postProcessApiUrl)
+        .onChange(async (value) => {
+          this.plugin.settings.postProcessApiUrl = value.trim() || DEFAULT_POST_PROCESS_URL;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // API Key（空の場合は文字起こしのAPI Keyを使う）
+    new Setting(containerEl)
+      .setName(t('settings.postProcessApiKey'))
+      .setDesc(t('settings.postProcessApiKeyDesc'))
+      .addText(text => text
+        .setPlaceholder('sk-...')
+        .setValue(this.plugin.settings.postProcessApiKey)
+        .onChange(async (value) => {
+          this.plugin.settings.postProcessApiKey = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    // Model
+    new Setting(containerEl)
+      .setName(t('settings.postProcessModel'))
+      .addText(text => text
+        .setPlaceholder('gpt-4o-mini')
+        .setValue(this.plugin.settings.postProcessModel)
+        .onChange(async (value) => {
+          this.plugin.settings.postProcessModel = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+  }
+
+  /**
+   * 後処理のプリセットを表示
+   */
+  private displayPostProcessPresets(containerEl: HTMLElement): void {
+    const presets = this.plugin.settings.postProcessPresets;
+    presets.forEach((preset, index) => {
+      new Setting(containerEl)
+        .setName(preset.name || preset.id)
+        .setDesc(`{{post.${preset.id}}}`)
+        .addToggle(toggle => toggle
+          .setValue(preset.enabled)
+          .onChange(async (value) => {
+            preset.enabled = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addText(text => text
+          .setPlaceholder(t('settings.postProcessPresetName'))
+          .setValue(preset.name)
+          .onChange(async (value) => {
+            preset.name = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addTextArea(text => text
+          .setPlaceholder(t('settings.postProcessPresetPrompt'))
+          .setValue(preset.prompt)
+          .onChange(async (value) => {
+            preset.prompt = value;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addButton(button => button
+          .setButtonText(t('settings.postProcessPresetDelete'))
+          .setWarning()
+          .onClick(async () => {
+            presets.splice(index, 1);
+            await this.plugin.saveSettings();
+            this.display();
+          })
+        );
+    });
+
+    new Setting(containerEl)
+      .addButton(button => button
+        .setButtonText(t('settings.postProcessPresetAdd'))
+        .onClick(async () => {
+          // IDはテンプレート変数名になるため重複しない連番にする
+          let n = presets.length + 1;
+          while (presets.some(preset => preset.id === `preset_${n}`)) n++;
+          presets.push({ id: `preset_${n}`, name: `Preset ${n}`, prompt: '', enabled: true });
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      )
+      .addButton(button => button
+        .setButtonText(t('settings.postProcessPresetReset'))
+        .onClick(async () => {
+          this.plugin.settings.postProcessPresets = DEFAULT_POST_PROCESS_PRESETS.map(preset => ({ ...preset }));
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+  }
+
   /**
    * 設定をファイルにエクスポート
    */
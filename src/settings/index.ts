@@ -7,4 +7,12 @@ export {
   importSettings, 
   validateSettings 
 } from './PluginSettings';
-export type { PluginSettings, SettingsExport } from './PluginSettings';
+export type { PluginSettings, SettingsExport, ExportedApiProfile } from './PluginSettings';
+export {
+  DEFAULT_PROFILE_ID,
+  getProfile,
+  applyProfile,
+  getFolderProfileId,
+  createProfile
+} from './profiles';
+export type { ApiProfile, FolderProfileRule } from './profiles';
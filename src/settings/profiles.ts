@@ -0,0 +1,98 @@
+// APIプロファイル
+// エンドポイント・モデル・言語などのAPI設定に名前を付けて保持し、録音ごと・フォルダーごとに切り替える
+
+import type { ProviderType } from '../api/providers';
+import type { PluginSettings } from './PluginSettings';
+
+/**
+ * APIプロファイル
+ * 選択すると API設定セクションの同名の設定を置き換える
+ */
+export interface ApiProfile {
+  id: string;
+  name: string;
+  provider: ProviderType;
+  apiKey: string;
+  apiUrl: string;
+  model: string;
+  language: string;
+  initialPrompt: string;
+}
+
+/**
+ * フォルダーごとのデフォルトプロファイル
+ */
+export interface FolderProfileRule {
+  folder: string;      // このフォルダー以下（サブフォルダーを含む）に適用
+  profileId: string;
+}
+
+/**
+ * API設定セクションの設定をそのまま使う場合のID
+ */
+export const DEFAULT_PROFILE_ID = '';
+
+/**
+ * IDからプロファイルを取得（削除済みの場合は null）
+ */
+export function getProfile(settings: PluginSettings, profileId: string): ApiProfile | null {
+  if (profileId === DEFAULT_PROFILE_ID) return null;
+  return settings.profiles.find(profile => profile.id === profileId) ?? null;
+}
+
+/**
+ * プロファイルを適用した設定を取得
+ * プロファイルが見つからない場合は元の設定のまま
+ */
+export function applyProfile(settings: PluginSettings, profileId: string): PluginSettings {
+  const profile = getProfile(settings, profileId);
+  if (!profile) return settings;
+
+  return {
+    ...settings,
+    provider: profile.provider,
+    apiKey: profile.apiKey,
+    apiUrl: profile.apiUrl,
+    model: profile.model,
+    language: profile.language,
+    initialPrompt: profile.initialPrompt
+  };
+}
+
+/**
+ * ファイルのパスからデフォルトのプロファイルIDを取得
+ * 複数のフォルダーが一致する場合は最も深いフォルダーを優先する
+ */
+export function getFolderProfileId(settings: PluginSettings, path: string | null): string {
+  if (!path) return DEFAULT_PROFILE_ID;
+
+  let matched: FolderProfileRule | null = null;
+  for (const rule of settings.folderProfiles) {
+    const folder = rule.folder.replace(/^\/+|\/+$/g, '');
+    if (!folder || !path.startsWith(`${folder}/`) || !getProfile(settings, rule.profileId)) continue;
+    if (!matched || folder.length > matched.folder.length) {
+      matched = { folder, profileId: rule.profileId };
+    }
+  }
+  return matched?.profileId ?? DEFAULT_PROFILE_ID;
+}
+
+/**
+ * 新しいプロファイルを作成
+ * 現在の API設定を初期値とし、IDは重複しない連番にする
+ */
+export function createProfile(settings: PluginSettings): ApiProfile {
+  let n = settings.profiles.length + 1;
+  while (settings.profiles.some(profile => profile.id === `profile_${n}`)) n++;
+
+  return {
+    id: `profile_${n}`,
+    name: `Profile ${n}`,
+    provider: settings.provider,
+    apiKey: settings.apiKey,
+    apiUrl: settings.apiUrl,
+    model: settings.model,
+    language: settings.language,
+    initialPrompt: settings.initialPrompt
+  };
+}
@@ -3,6 +3,16 @@
 
 import type { Vault } from 'obsidian';
 import type { TranscriptionResult } from '../api/TranscriptionService';
+import { getSpeakers, groupSpeakerTurns } from '../api/speakers';
+import {
+  DEFAULT_TEMPLATE,
+  renderTemplate,
+  parseTags,
+  parseFrontmatterFields,
+  type TemplateContext
+} from './TranscriptTemplate';
+import { formatFilenamePattern, type FilenameVariables } from './filenamePattern';
+import { getAudioExtension } from './audioFormats';
 
 /**
  * ストレージ設定
@@ -10,6 +20,11 @@ import type { TranscriptionResult } from '../api/TranscriptionService';
 export interface StorageConfig {
   audioFolder: string;
   transcriptFolder: string;
+  templatePath: string;        // テンプレートファイルのパス（空の場合はデフォルト）
+  customFrontmatter: string;   // 追加のフロントマター（"key: value" 形式の行）
+  tags: string;                // タグ（カンマ区切り）
+  audioFilenamePattern: string;       // 音声ファイル名パターン（"/" でサブフォルダ）
+  transcriptFilenamePattern: string;  // 文字起こしファイル名パターン
 }
 
 /**
@@ -31,6 +46,29 @@ export interface TranscriptMetadata {
   model: string;
   duration: number;
   audioFile: string;      // 音声ファイルへのリンク
+  audioParts?: string[];  // 録音を複数のパートに分けた場合のすべてのパートの音声ファイル（先頭は audioFile）
+  title?: string;         // ユーザーが入力したタイトル
+  sections?: TranscriptSection[];  // 後処理の結果（要約・アクションアイテムなど）
+}
+
+/**
+ * 文字起こしに追加するセクション
+ */
+export interface TranscriptSection {
+  id: string;
+  name: string;           // 見出し
+  content: string;
+}
+
+/**
+ * フロントマターの追加項目
+ */
+export interface FrontmatterOptions {
+  fields?: [string, string][];   // 追加フィールド
+  tags?: string[];               // タグ（省略時は transcription）
+  speakers?: string[];           // 話者（話者分離の結果がある場合のみ）
+  chunkLanguages?: string[];     // チャンクごとに検出された言語（言語の自動検出でチャンク送信した場合のみ）
+  translationLanguage?: string;  // 翻訳先の言語（原文と翻訳を並べる場合のみ）
 }
 
 /**
@@ -49,34 +87,48 @@ export function formatTimestamp(seconds: number): string {
 /**
  * フロントマターを生成
  */
-export function generateFrontmatter(metadata: TranscriptMetadata): string {
+export function generateFrontmatter(metadata: TranscriptMetadata, options: FrontmatterOptions = {}): string {
+  const fields = (options.fields ?? []).map(([key, value]) => `${key}: ${value}\n`).join('');
+  const tagList = options.tags ?? ['transcription'];
+  const tags = tagList.length > 0 ? `tags:\n${tagList.map(tag => `  - ${tag}\n`).join('')}` : '';
+  const speakerList = options.speakers ?? [];
+  const speakers = speakerList.length > 0
+    ? `speakers:\n${speakerList.map(speaker => `  - ${JSON.stringify(speaker)}\n`).join('')}`
+    : '';
+  const chunkLanguageList = options.chunkLanguages ?? [];
+  const chunkLanguages = chunkLanguageList.length > 0
+    ? `chunk_languages:\n${chunkLanguageList.map(language => `  - ${language}\n`).join('')}`
+    : '';
+  const translationLanguage = options.translationLanguage ? `translation_language: ${options.translationLanguage}\n` : '';
+  const audioPartList = metadata.audioParts ?? [];
+  const audioParts = audioPartList.length > 1
+    ? `audio_parts:\n${audioPartList.map(part => `  - "[[${part}]]"\n`).join('')}`
+    : '';
+
   return `---
 date: ${metadata.date}
 language: ${metadata.language}
 model: ${metadata.model}
 duration: ${metadata.duration}
 audio_file: "[[${metadata.audioFile}]]"
-tags:
-  - transcription
----
+${audioParts}${fields}${speakers}${chunkLanguages}${translationLanguage}${tags}---
 `;
 }
 
 /**
- * 現在の日時をファイル名用の形式で取得
+ * 音声ファイルへのリンク先
+ * 空白を含むパスはリンクが切れないよう山括弧で囲む
  */
-function getDateTimeString(): string {
-  const now = new Date();
-  const pad = (n: number): string => n.toString().padStart(2, '0');
-  
-  const year = now.getFullYear();
-  const month = pad(now.getMonth() + 1);
-  const day = pad(now.getDate());
-  const hours = pad(now.getHours());
-  const minutes = pad(now.getMinutes());
-  const seconds = pad(now.getSeconds());
-
-  return `${year}-${month}-${day}_${hours}${minutes}${seconds}`;
+function toAudioLink(path: string): string {
+  return /\s/.test(path) ? `<${path}>` : path;
+}
+
+/**
+ * 文字起こしに埋め込む音声（パートに分けた場合はすべてのパート）
+ */
+function getAudioEmbed(metadata: TranscriptMetadata): string {
+  const paths = metadata.audioParts && metadata.audioParts.length > 1 ? metadata.audioParts : [metadata.audioFile];
+  return paths.map(path => `![[${path}]]`).join('\n');
 }
 
 /**
@@ -107,19 +159,29 @@ export class StorageService {
 
   /**
    * 音声ファイルを保存
+   * @param part - 録音を複数のパートに分けた場合のパート番号（1から。ファイル名に _part{n} を付ける）
+   * @param date - ファイル名の日付（中断された録音を復元する場合は録音開始日時）
    */
-  async saveAudio(blob: Blob, duration: number): Promise<SavedAudioInfo> {
-    // フォルダを確保
-    await this.ensureFolder(this.config.audioFolder);
-
-    // ユニークなファイル名を生成
-    const dateTimeStr = getDateTimeString();
-    const filename = await this.generateUniqueFilename(
+  async saveAudio(
+    blob: Blob,
+    duration: number,
+    variables: FilenameVariables = {},
+    part?: number,
+    date: Date = new Date()
+  ): Promise<SavedAudioInfo> {
+    // パターンからフォルダとファイル名を決定
+    const { folder, prefix } = this.resolvePattern(
       this.config.audioFolder,
-      dateTimeStr,
-      'webm'
+      this.config.audioFilenamePattern,
+      variables,
+      date
     );
-    const path = `${this.config.audioFolder}/${filename}`;
+    await this.ensureFolder(folder);
+
+    // ユニークなファイル名を生成（拡張子は録音の形式に合わせる）
+    const extension = getAudioExtension(blob.type);
+    const filename = await this.generateUniqueFilename(folder, part ? `${prefix}_part${part}` : prefix, extension);
+    const path = `${folder}/${filename}`;
 
     // Blobをバイナリデータに変換して保存
     const arrayBuffer = await blob.arrayBuffer();
@@ -133,27 +195,43 @@ export class StorageService {
     };
   }
 
+  /**
+   * 録音中の一時ファイルのフォルダを取得
+   * ファイル一覧に表示されないよう音声フォルダ内の隠しフォルダにする
+   */
+  getRecordingTempFolder(id: string): string {
+    return `${this.getRecordingTempRoot()}/${id}`;
+  }
+
+  /**
+   * 録音ごとの一時ファイルのフォルダをまとめるフォルダを取得
+   */
+  getRecordingTempRoot(): string {
+    return `${this.config.audioFolder}/.recording`;
+  }
+
   /**
    * 文字起こし結果を保存
    */
   async saveTranscript(
     result: TranscriptionResult,
-    metadata: TranscriptMetadata
+    metadata: TranscriptMetadata,
+    variables: FilenameVariables = {}
   ): Promise<string> {
-    // フォルダを確保
-    await this.ensureFolder(this.config.transcriptFolder);
-
-    // ユニークなファイル名を生成
-    const dateTimeStr = getDateTimeString();
-    const filename = await this.generateUniqueFilename(
+    // パターンからフォルダとファイル名を決定
+    const { folder, prefix } = this.resolvePattern(
       this.config.transcriptFolder,
-      `${dateTimeStr}_transcription`,
-      'md'
+      this.config.transcriptFilenamePattern,
+      { language: metadata.language, title: metadata.title, ...variables }
     );
-    const path = `${this.config.transcriptFolder}/${filename}`;
+    await this.ensureFolder(folder);
+
+    // ユニークなファイル名を生成
+    const filename = await this.generateUniqueFilename(folder, prefix, 'md');
+    const path = `${folder}/${filename}`;
 
     // Markdownコンテンツを生成
-    const content = this.generateTranscriptContent(result, metadata);
+    const content = await this.generateTranscriptContent(result, metadata);
 
     // ファイルを作成
     await this.vault.create(path, content);
@@ -161,28 +239,174 @@ export class StorageService {
     return path;
   }
 
+  /**
+   * ファイル名パターンから保存先フォルダとファイル名（拡張子なし）を決定
+   */
+  private resolvePattern(
+    baseFolder: string,
+    pattern: string,
+    variables: FilenameVariables,
+    date: Date = new Date()
+  ): { folder: string; prefix: string } {
+    const relativePath = formatFilenamePattern(pattern, date, variables);
+    const separator = relativePath.lastIndexOf('/');
+    if (separator < 0) {
+      return { folder: baseFolder, prefix: relativePath };
+    }
+    return {
+      folder: `${baseFolder}/${relativePath.slice(0, separator)}`,
+      prefix: relativePath.slice(separator + 1)
+    };
+  }
+
   /**
    * 文字起こしMarkdownコンテンツを生成
+   * テンプレートファイルが設定されていればそれを使い、なければデフォルトテンプレートで出力する
    */
-  private generateTranscriptContent(
+  private async generateTranscriptContent(
     result: TranscriptionResult,
     metadata: TranscriptMetadata
-  ): string {
-    let content = generateFrontmatter(metadata);
-    content += '\n';
-
-    // セグメントがある場合はタイムスタンプ付きで出力
-    if (result.segments && result.segments.length > 0) {
-      for (const segment of result.segments) {
-        const timestamp = formatTimestamp(segment.start);
-        content += `${timestamp}(${metadata.audioFile}) ${segment.text}\n\n`;
-      }
-    } else {
-      // セグメントがない場合はテキストのみ
-      content += result.text;
+  ): Promise<string> {
+    const template = await this.loadTemplate();
+    return renderTemplate(template, this.createTemplateContext(result, metadata));
+  }
+
+  /**
+   * 既存ノートへの挿入用コンテンツを生成
+   * テンプレートの本文からフロントマターを除き、音声の埋め込みを先頭に付ける
+   */
+  async generateInsertContent(
+    result: TranscriptionResult,
+    metadata: TranscriptMetadata
+  ): Promise<string> {
+    const content = await this.generateTranscriptContent(result, metadata);
+    const body = content.replace(/^---\n[\s\S]*?\n---\n/, '').trim();
+    const embed = getAudioEmbed(metadata);
+
+    // テンプレートに {{audio_embed}} が含まれる場合は重複させない
+    return body.includes(embed) ? `${body}\n` : `${embed}\n\n${body}\n`;
+  }
+
+  /**
+   * テンプレートを読み込む
+   * ファイルが見つからない場合はデフォルトテンプレートを使う
+   */
+  private async loadTemplate(): Promise<string> {
+    const templatePath = this.config.templatePath.trim();
+    if (!templatePath) {
+      return DEFAULT_TEMPLATE;
     }
 
-    return content;
+    const path = templatePath.endsWith('.md') ? templatePath : `${templatePath}.md`;
+    if (!(await this.vault.adapter.exists(path))) {
+      console.warn(`Whisper Transcribe: Template not found: ${path}`);
+      return DEFAULT_TEMPLATE;
+    }
+
+    return this.vault.adapter.read(path);
+  }
+
+  /**
+   * テンプレートに渡す値を作成
+   */
+  private createTemplateContext(
+    result: TranscriptionResult,
+    metadata: TranscriptMetadata
+  ): TemplateContext {
+    const audioLink = toAudioLink(metadata.audioFile);
+    const tags = parseTags(this.config.tags);
+    const speakers = getSpeakers(result.segments ?? []);
+    const audioParts = metadata.audioParts && metadata.audioParts.length > 1 ? metadata.audioParts : [];
+
+    // パートに分けた場合、タイムスタンプはその時間を含むパートの音声ファイルへのリンクとパート内の時間にする
+    const locate = (start: number): { timestamp: string; audioLink?: string } => {
+      const partStarts = result.partStarts;
+      if (audioParts.length === 0 || !partStarts) return { timestamp: formatTimestamp(start) };
+      let part = 0;
+      while (part + 1 < audioParts.length && (partStarts[part + 1] ?? Infinity) <= start) part++;
+      return {
+        timestamp: formatTimestamp(start - (partStarts[part] ?? 0)),
+        audioLink: toAudioLink(audioParts[part])
+      };
+    };
+
+    const context: TemplateContext = {
+      date: metadata.date,
+      language: metadata.language,
+      model: metadata.model,
+      duration: metadata.duration,
+      duration_formatted: formatTimestamp(metadata.duration).slice(1, -1),
+      audio_file: metadata.audioFile,
+      audio_link: audioLink,
+      audio_embed: getAudioEmbed(metadata),
+      audio_parts: audioParts.map((path, index) => ({
+        part: index + 1,
+        audio_file: path,
+        audio_link: toAudioLink(path),
+        audio_embed: `![[${path}]]`
+      })),
+      title: metadata.title ?? '',
+      text: result.text,
+      translation: result.translation?.text ?? '',
+      translation_language: result.translation?.language ?? '',
+      tags: tags.join(', '),
+      speakers: speakers.join(', '),
+      segments: (result.segments ?? []).map(segment => {
+        // 単語タイムスタンプがあれば発話の開始位置をより正確に指せる
+        const start = segment.words?.[0]?.start ?? segment.start;
+        const { timestamp, audioLink } = locate(start);
+        return {
+          timestamp,
+          time: timestamp.slice(1, -1),
+          ...(audioLink && { audio_link: audioLink }),
+          start,
+          end: segment.end,
+          text: segment.text,
+          speaker: segment.speaker ?? '',
+          // 文書の言語と異なる言語で話された部分には言語を付ける
+          language: segment.language ?? metadata.language,
+          language_tag: segment.language && segment.language !== metadata.language ? `[${segment.language}] ` : '',
+          // 全文の翻訳を参照しないよう、翻訳のないセグメントは空にする
+          translation: segment.translation ?? ''
+        };
+      }),
+      // 後処理の結果（元の文字起こしの前に出力する）
+      sections: (metadata.sections ?? []).map(({ id, name, content }) => ({ id, name, content })),
+      post_processed: (metadata.sections ?? []).length > 0,
+      // 話者分離の結果がない場合は空（{{^turns}} でセグメント単位の出力に切り替えられる）
+      turns: speakers.length === 0 ? [] : groupSpeakerTurns(result.segments).map(turn => {
+        const start = turn.segments[0].words?.[0]?.start ?? turn.start;
+        const { timestamp, audioLink } = locate(start);
+        return {
+          speaker: turn.speaker,
+          timestamp,
+          time: timestamp.slice(1, -1),
+          ...(audioLink && { audio_link: audioLink }),
+          start,
+          end: turn.end,
+          text: turn.text,
+          translation: turn.segments.map(segment => segment.translation ?? '').filter(text => text).join(' ')
+        };
+      })
+    };
+
+    // {{post.<id>}} で個別のセクションを参照できる
+    for (const section of metadata.sections ?? []) {
+      context[`post.${section.id}`] = section.content;
+    }
+
+    // 追加フィールドの値にもプレースホルダーを使える
+    const fields = parseFrontmatterFields(this.config.customFrontmatter)
+      .map(([key, value]): [string, string] => [key, renderTemplate(value, context)]);
+    context.frontmatter = generateFrontmatter(metadata, {
+      fields,
+      tags,
+      speakers,
+      chunkLanguages: result.chunkLanguages,
+      translationLanguage: result.translation?.language
+    });
+
+    return context;
   }
 
   /**
@@ -225,14 +449,16 @@ export class StorageService {
     audioPath: string,
     language: string,
     model: string,
-    duration: number
+    duration: number,
+    title?: string
   ): TranscriptMetadata {
     return {
       date: getISODateString(),
       language,
       model,
       duration,
-      audioFile: audioPath
+      audioFile: audioPath,
+      ...(title && { title })
     };
   }
 }
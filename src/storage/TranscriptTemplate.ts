@@ -0,0 +1,103 @@
+// 文字起こしテンプレートモジュール
+// {{変数}} と {{#セクション}}...{{/セクション}} 形式のテンプレートを描画する
+
+/**
+ * テンプレートの値
+ * 配列はセクション（{{#name}}...{{/name}}）で繰り返し描画する
+ */
+export type TemplateValue = string | number | boolean | TemplateContext[];
+
+/**
+ * テンプレートのコンテキスト
+ */
+export interface TemplateContext {
+  [key: string]: TemplateValue;
+}
+
+/**
+ * デフォルトテンプレート
+ * テンプレートファイル未指定時の出力（フロントマター + タイムスタンプ付きセグメント）
+ * 話者分離の結果がある場合は話者の交代ごとにまとめる
+ * 後処理の結果がある場合は各セクションの後に元の文字起こしを続ける
+ * 言語の自動検出で文書の言語と異なる言語のセグメントには [en] のように言語を付ける
+ * 原文と翻訳を並べる場合は各セグメントの下に翻訳を引用で続ける（セグメントがない場合は見出しの下に全文の翻訳）
+ */
+export const DEFAULT_TEMPLATE =
+  '{{frontmatter}}\n' +
+  '{{#sections}}## {{name}}\n\n{{content}}\n\n{{/sections}}' +
+  '{{#post_processed}}## Transcript\n\n{{/post_processed}}' +
+  '{{#turns}}**{{speaker}}** {{timestamp}}({{audio_link}})\n{{text}}\n{{#translation}}> {{translation}}\n{{/translation}}\n{{/turns}}' +
+  '{{^turns}}' +
+  '{{#segments}}{{timestamp}}({{audio_link}}) {{language_tag}}{{text}}\n{{#translation}}> {{translation}}\n{{/translation}}\n{{/segments}}' +
+  '{{^segments}}{{text}}{{#translation}}\n\n## Translation\n\n{{translation}}{{/translation}}{{/segments}}' +
+  '{{/turns}}';
+
+// {{#name}}...{{/name}} / {{^name}}...{{/name}} / {{name}}
+const TOKEN_REGEX = /\{\{([#^])\s*([\w.-]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}|\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * 値が空かどうか（空配列・空文字列・false は空とみなす）
+ */
+function isEmpty(value: TemplateValue | undefined): boolean {
+  if (value === undefined || value === false || value === '') return true;
+  return Array.isArray(value) && value.length === 0;
+}
+
+/**
+ * テンプレートを描画
+ * 未定義の変数はそのまま残す（他のテンプレートプラグインの構文と共存するため）
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+  // 1回の走査で置換し、描画済みのテキスト（文字起こし結果など）は再解釈しない
+  return template.replace(TOKEN_REGEX, (match, type: string | undefined, sectionName: string, inner: string, name: string) => {
+    if (!type) {
+      const value = context[name];
+      if (value === undefined || Array.isArray(value)) return match;
+      return String(value);
+    }
+
+    const value = context[sectionName];
+
+    // 反転セクション: 値が空のときのみ描画
+    if (type === '^') {
+      return isEmpty(value) ? renderTemplate(inner, context) : '';
+    }
+
+    if (isEmpty(value)) return '';
+
+    // 配列は要素ごとに描画（要素の値を優先し、なければ外側の値を参照）
+    if (Array.isArray(value)) {
+      return value.map(item => renderTemplate(inner, { ...context, ...item })).join('');
+    }
+
+    return renderTemplate(inner, context);
+  });
+}
+
+/**
+ * カンマ・改行区切りのタグを配列に変換
+ * 先頭の # は取り除く
+ */
+export function parseTags(tags: string): string[] {
+  return tags
+    .split(/[,\n]/)
+    .map(tag => tag.trim().replace(/^#/, ''))
+    .filter(tag => tag.length > 0);
+}
+
+/**
+ * "key: value" 形式の行をフロントマターのフィールドに変換
+ * 不正な行は無視する
+ */
+export function parseFrontmatterFields(text: string): [string, string][] {
+  const fields: [string, string][] = [];
+
+  for (const line of text.split('\n')) {
+    const match = /^\s*([^:#\s][^:]*?)\s*:\s*(.*)$/.exec(line);
+    if (match) {
+      fields.push([match[1], match[2].trim()]);
+    }
+  }
+
+  return fields;
+}
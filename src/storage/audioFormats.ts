@@ -0,0 +1,38 @@
+// 音声形式モジュール
+// 音声ファイルの拡張子と MIME タイプを対応づける（録音の形式はプラットフォームによって異なる）
+
+/**
+ * 拡張子ごとの MIME タイプ
+ */
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  webm: 'audio/webm',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  flac: 'audio/flac'
+};
+
+/**
+ * 拡張子から MIME タイプを取得（不明な場合は audio/webm）
+ */
+export function getAudioMimeType(extension: string): string {
+  return AUDIO_MIME_TYPES[extension.toLowerCase()] || 'audio/webm';
+}
+
+/**
+ * MIME タイプから拡張子を取得（codecs などのパラメータは無視する、不明な場合は webm）
+ * iOS・Safari の MediaRecorder は audio/mp4 で録音する
+ */
+export function getAudioExtension(mimeType: string): string {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return Object.keys(AUDIO_MIME_TYPES).find(extension => AUDIO_MIME_TYPES[extension] === type) ?? 'webm';
+}
+
+/**
+ * パスの拡張子から MIME タイプを取得
+ */
+export function getAudioMimeTypeForPath(path: string): string {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  return getAudioMimeType(name.includes('.') ? name.slice(name.lastIndexOf('.') + 1) : '');
+}
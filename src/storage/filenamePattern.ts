@@ -0,0 +1,86 @@
+// ファイル名パターンモジュール
+// 日付トークン（YYYY, MM, DD, HH, mm, ss）と {{変数}} からファイルパスを生成する
+
+/**
+ * ファイル名に使う変数
+ */
+export interface FilenameVariables {
+  title?: string;      // ユーザーが入力したタイトル
+  note?: string;       // 録音開始時のアクティブノート名
+  language?: string;   // 文字起こし言語
+}
+
+/**
+ * デフォルトの音声ファイル名パターン
+ */
+export const DEFAULT_AUDIO_FILENAME_PATTERN = 'YYYY-MM-DD_HHmmss';
+
+/**
+ * デフォルトの文字起こしファイル名パターン
+ */
+export const DEFAULT_TRANSCRIPT_FILENAME_PATTERN = 'YYYY-MM-DD_HHmmss[_transcription]';
+
+// [リテラル] / {{変数}} / 日付トークン
+const TOKEN_REGEX = /\[([^\]]*)\]|\{\{\s*(\w+)\s*\}\}|YYYY|YY|MM|DD|HH|mm|ss/g;
+
+// 空の変数の位置を示すマーカー
+const EMPTY_MARKER = '\u0000';
+
+// ファイル名に使えない文字（Obsidianのリンクを壊す文字を含む）
+const INVALID_CHARS_REGEX = /[\\/:*?"<>|#^[\]]/g;
+
+/**
+ * ファイル名として使えない文字を取り除く
+ */
+export function sanitizeFilename(name: string): string {
+  return name.replace(INVALID_CHARS_REGEX, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * パターンからファイルパス（拡張子なし）を生成
+ * "/" を含むパターンはサブフォルダになる（例: YYYY/MM/YYYY-MM-DD_HHmmss）
+ * 空になった変数の前後の区切り文字は取り除く
+ */
+export function formatFilenamePattern(
+  pattern: string,
+  date: Date,
+  variables: FilenameVariables = {}
+): string {
+  const pad = (n: number): string => n.toString().padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+
+  const formatted = pattern.replace(TOKEN_REGEX, (match, literal: string | undefined, name: string | undefined) => {
+    if (literal !== undefined) return literal;
+    if (name !== undefined) {
+      const value = variables[name as keyof FilenameVariables];
+      return value ? sanitizeFilename(value) : EMPTY_MARKER;
+    }
+    return tokens[match];
+  });
+
+  // 空の変数は前後の区切り文字ごと取り除く（両側にあれば1つ残す）
+  const collapsed = formatted.replace(
+    new RegExp(`([\\s_-]*)${EMPTY_MARKER}([\\s_-]*)`, 'g'),
+    (_match, before: string, after: string) => (before && after ? before : '')
+  );
+
+  const segments = collapsed
+    .split('/')
+    .map(segment => sanitizeFilename(segment).replace(/^[\s_.-]+|[\s_.-]+$/g, ''))
+    .filter(segment => segment.length > 0);
+
+  // すべて空になった場合はデフォルトパターンを使う
+  if (segments.length === 0) {
+    return formatFilenamePattern(DEFAULT_AUDIO_FILENAME_PATTERN, date);
+  }
+
+  return segments.join('/');
+}
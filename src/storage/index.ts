@@ -1,4 +1,25 @@
 // ストレージモジュールのエクスポート
 
 export { StorageService, formatTimestamp, generateFrontmatter } from './StorageService';
-export type { StorageConfig, SavedAudioInfo, TranscriptMetadata } from './StorageService';
+export type {
+  StorageConfig,
+  SavedAudioInfo,
+  TranscriptMetadata,
+  TranscriptSection,
+  FrontmatterOptions
+} from './StorageService';
+export {
+  DEFAULT_TEMPLATE,
+  renderTemplate,
+  parseTags,
+  parseFrontmatterFields
+} from './TranscriptTemplate';
+export type { TemplateContext, TemplateValue } from './TranscriptTemplate';
+export {
+  formatFilenamePattern,
+  sanitizeFilename,
+  DEFAULT_AUDIO_FILENAME_PATTERN,
+  DEFAULT_TRANSCRIPT_FILENAME_PATTERN
+} from './filenamePattern';
+export type { FilenameVariables } from './filenamePattern';
+export { getAudioMimeType, getAudioMimeTypeForPath, getAudioExtension } from './audioFormats';
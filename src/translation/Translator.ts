@@ -0,0 +1,239 @@
+// 翻訳モジュール
+// 文字起こし結果を別の言語に翻訳し、翻訳のみ、または原文と翻訳を並べた結果を作成する
+// 英語へは対応プロバイダーの翻訳エンドポイントで音声から直接翻訳し、それ以外は Chat Completions で翻訳する
+
+import type {
+  TranscriptionService,
+  TranscriptionResult,
+  TranscriptionSegment
+} from '../api/TranscriptionService';
+import { TranscriptionCancelledError } from '../api/errors';
+import { getLanguageName } from '../api/languages';
+import type { PostProcessor } from '../postprocess/PostProcessor';
+
+/**
+ * 翻訳の出力形式
+ * - translated: 翻訳のみ
+ * - both: 原文と翻訳を並べる
+ */
+export type TranslationOutput = 'translated' | 'both';
+
+/**
+ * 出力形式の一覧（設定画面の表示順）
+ */
+export const TRANSLATION_OUTPUTS: TranslationOutput[] = ['both', 'translated'];
+
+/**
+ * 翻訳設定
+ */
+export interface TranslationConfig {
+  targetLanguage: string;      // 翻訳先の言語（空の場合は翻訳しない）
+  output: TranslationOutput;
+}
+
+/**
+ * 翻訳の段階
+ * transcribing: 原文の文字起こし / translating: 翻訳
+ */
+export type TranslationStage = 'transcribing' | 'translating';
+
+// 1回のリクエストで翻訳するセグメント数（応答が長くなりすぎないようにする）
+const SEGMENTS_PER_REQUEST = 50;
+
+/**
+ * 翻訳エンドポイントの結果を原文のセグメントに割り当てる
+ * 時間が最も重なる（重ならない場合は最も近い）原文のセグメントに割り当て、同じセグメントの翻訳は連結する
+ */
+export function alignTranslation(segments: TranscriptionSegment[], translated: TranscriptionSegment[]): string[] {
+  const texts: string[][] = segments.map(() => []);
+
+  for (const target of translated) {
+    let best = -1;
+    let bestOverlap = -Infinity;
+    segments.forEach((segment, index) => {
+      const overlap = Math.min(segment.end, target.end) - Math.max(segment.start, target.start);
+      if (overlap > bestOverlap) {
+        best = index;
+        bestOverlap = overlap;
+      }
+    });
+    if (best >= 0 && target.text.trim()) {
+      texts[best].push(target.text.trim());
+    }
+  }
+
+  return texts.map(parts => parts.join(' '));
+}
+
+/**
+ * 原文に翻訳を付ける
+ * segmentTranslations がない場合（セグメントがない場合）は全文の翻訳のみ
+ */
+export function attachTranslation(
+  result: TranscriptionResult,
+  language: string,
+  text: string,
+  segmentTranslations?: string[]
+): TranscriptionResult {
+  return {
+    ...result,
+    segments: segmentTranslations
+      ? result.segments.map((segment, index) => ({ ...segment, translation: segmentTranslations[index] ?? '' }))
+      : result.segments,
+    translation: { language, text }
+  };
+}
+
+/**
+ * 原文を翻訳で置き換える（翻訳のみを出力する場合）
+ * 翻訳のないセグメントは原文のまま残す
+ */
+export function replaceWithTranslation(result: TranscriptionResult): TranscriptionResult {
+  if (!result.translation) return result;
+
+  const { translation, ...rest } = result;
+  return {
+    ...rest,
+    text: translation.text,
+    language: translation.language,
+    segments: result.segments.map(({ translation: segmentTranslation, language: _language, ...segment }) => ({
+      ...segment,
+      text: segmentTranslation || segment.text
+    }))
+  };
+}
+
+/**
+ * 番号付きの行（"1: ..."）の応答を解析
+ * 見つからない番号は空文字列
+ */
+export function parseNumberedLines(content: string, count: number): string[] {
+  const lines: string[] = new Array<string>(count).fill('');
+  for (const line of content.split('\n')) {
+    const match = /^\s*(\d+)\s*[:.)]\s*(.*)$/.exec(line);
+    if (!match) continue;
+    const index = Number(match[1]) - 1;
+    if (index >= 0 && index < count) {
+      lines[index] = match[2].trim();
+    }
+  }
+  return lines;
+}
+
+/**
+ * 翻訳クラス
+ */
+export class Translator {
+  private config: TranslationConfig;
+  private postProcessor: PostProcessor;
+
+  /**
+   * @param postProcessor - 英語以外への翻訳に使う Chat Completions の接続設定
+   */
+  constructor(config: TranslationConfig, postProcessor: PostProcessor) {
+    this.config = config;
+    this.postProcessor = postProcessor;
+  }
+
+  /**
+   * 翻訳が有効か
+   */
+  isEnabled(): boolean {
+    return this.config.targetLanguage !== '';
+  }
+
+  /**
+   * 原文を翻訳で置き換えるか
+   */
+  replacesOriginal(): boolean {
+    return this.isEnabled() && this.config.output === 'translated';
+  }
+
+  /**
+   * 文字起こしして翻訳
+   * 英語へは翻訳エンドポイントを使い、翻訳のみの場合は文字起こしを省略する
+   * 原文の文字起こし後の翻訳に失敗した場合は onTranslationError に通知し、原文のみを返す
+   */
+  async transcribe(
+    service: TranscriptionService,
+    audioBlob: Blob,
+    signal?: AbortSignal,
+    onStage?: (stage: TranslationStage) => void,
+    onTranslationError?: (error: unknown) => void
+  ): Promise<TranscriptionResult> {
+    if (!this.isEnabled()) {
+      return service.transcribe(audioBlob, signal);
+    }
+
+    const { targetLanguage } = this.config;
+    const useEndpoint = service.canTranslateTo(targetLanguage);
+
+    if (useEndpoint && this.replacesOriginal()) {
+      onStage?.('translating');
+      return service.translate(audioBlob, signal);
+    }
+
+    onStage?.('transcribing');
+    const original = await service.transcribe(audioBlob, signal);
+
+    try {
+      onStage?.('translating');
+      let translated: TranscriptionResult;
+      if (useEndpoint) {
+        const result = await service.translate(audioBlob, signal);
+        translated = attachTranslation(
+          original,
+          targetLanguage,
+          result.text,
+          original.segments.length > 0 ? alignTranslation(original.segments, result.segments) : undefined
+        );
+      } else {
+        translated = await this.translate(original, signal);
+      }
+      return this.replacesOriginal() ? replaceWithTranslation(translated) : translated;
+    } catch (error) {
+      if (error instanceof TranscriptionCancelledError) throw error;
+      onTranslationError?.(error);
+      return original;
+    }
+  }
+
+  /**
+   * 文字起こし結果を Chat Completions で翻訳
+   * セグメントがある場合は番号付きの行で送り、セグメントごとの翻訳を取得する
+   */
+  async translate(result: TranscriptionResult, signal?: AbortSignal): Promise<TranscriptionResult> {
+    const { targetLanguage } = this.config;
+    const languageName = getLanguageName(targetLanguage);
+
+    if (result.segments.length === 0) {
+      const text = await this.postProcessor.chat(
+        `Translate the user message, an automatic speech recognition transcript, into ${languageName}. ` +
+        'Output only the translation.',
+        result.text,
+        signal
+      );
+      return attachTranslation(result, targetLanguage, text);
+    }
+
+    const translations: string[] = [];
+    for (let i = 0; i < result.segments.length; i += SEGMENTS_PER_REQUEST) {
+      const batch = result.segments.slice(i, i + SEGMENTS_PER_REQUEST);
+      const content = await this.postProcessor.chat(
+        `Translate each numbered line of the user message into ${languageName}. ` +
+        'The lines are consecutive parts of an automatic speech recognition transcript. ' +
+        'Output exactly one line per input line in the form "<number>: <translation>", keeping the numbers, without any other text.',
+        batch.map((segment, index) => `${index + 1}: ${segment.text.trim().replace(/\s*\n\s*/g, ' ')}`).join('\n'),
+        signal
+      );
+      translations.push(...parseNumberedLines(content, batch.length));
+    }
+
+    return attachTranslation(
+      result,
+      targetLanguage,
+      translations.filter(text => text).join('\n'),
+      translations
+    );
+  }
+}
@@ -0,0 +1,11 @@
+// 翻訳モジュールのエクスポート
+
+export {
+  Translator,
+  TRANSLATION_OUTPUTS,
+  alignTranslation,
+  attachTranslation,
+  replaceWithTranslation,
+  parseNumberedLines
+} from './Translator';
+export type { TranslationConfig, TranslationOutput, TranslationStage } from './Translator';
@@ -0,0 +1,180 @@
+// 音声分割モジュール
+// 長時間音声をデコードし、無音付近で時間ベースに分割して単体で再生可能なMP3に再エンコードする
+
+import { rmsToDb } from './AudioTrimmer';
+import { encodeMp3 } from './mp3';
+
+/**
+ * 分割された音声チャンク
+ */
+export interface AudioChunk {
+  blob: Blob;          // 単体で再生可能な音声（MP3）
+  startTime: number;   // 元音声での開始時間（秒）
+  endTime: number;     // 元音声での終了時間（秒）
+}
+
+/**
+ * 分割範囲
+ */
+export interface SplitRange {
+  start: number;   // 開始時間（秒）
+  end: number;     // 終了時間（秒）
+}
+
+/**
+ * 分割設定
+ */
+export interface SplitConfig {
+  sampleRate: number;      // 再エンコード時のサンプルレート、デフォルト: 16000
+  kbps: number;            // 再エンコード時のビットレート、デフォルト: 64
+  resolution: number;      // 無音探索の解像度（ms）、デフォルト: 200
+  searchWindow: number;    // 分割点を探す範囲（チャンク末尾から遡る秒数）、デフォルト: 30
+}
+
+/**
+ * デフォルト分割設定
+ */
+export const DEFAULT_SPLIT_CONFIG: SplitConfig = {
+  sampleRate: 16000,
+  kbps: 64,
+  resolution: 200,
+  searchWindow: 30
+};
+
+/**
+ * 音声分割インターフェース
+ * TranscriptionService から利用される（テスト時に差し替え可能）
+ */
+export interface AudioChunkSplitter {
+  split(audioBlob: Blob, maxChunkBytes: number): Promise<AudioChunk[]>;
+}
+
+/**
+ * 音声分割クラス
+ */
+export class AudioSplitter implements AudioChunkSplitter {
+  private config: SplitConfig;
+
+  constructor(config?: Partial<SplitConfig>) {
+    this.config = { ...DEFAULT_SPLIT_CONFIG, ...config };
+  }
+
+  /**
+   * 音声を分割
+   * デコード → 無音付近で分割点を決定 → 各チャンクをMP3に再エンコード
+   */
+  async split(audioBlob: Blob, maxChunkBytes: number): Promise<AudioChunk[]> {
+    // Whisperは16kHzモノラルで処理するため、デコード時点でリサンプリングしてメモリを抑える
+    const audioContext = new AudioContext({ sampleRate: this.config.sampleRate });
+
+    try {
+      const arrayBuffer = await audioBlob.arrayBuffer();
+      const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+
+      const sampleRate = audioBuffer.sampleRate;
+      const monoData = this.mixDown(audioBuffer);
+      const levels = this.calculateLevels(monoData, sampleRate);
+      const ranges = this.calculateSplitRanges(
+        levels,
+        audioBuffer.duration,
+        this.getMaxChunkDuration(maxChunkBytes)
+      );
+
+      return ranges.map(range => {
+        const startSample = Math.floor(range.start * sampleRate);
+        const endSample = Math.min(Math.ceil(range.end * sampleRate), monoData.length);
+        return {
+          blob: encodeMp3([monoData.subarray(startSample, endSample)], sampleRate, this.config.kbps),
+          startTime: range.start,
+          endTime: range.end
+        };
+      });
+    } finally {
+      await audioContext.close();
+    }
+  }
+
+  /**
+   * 1チャンクあたりの最大秒数を計算
+   * 再エンコード後のビットレートから逆算し、ヘッダ等の余裕として5%差し引く
+   */
+  getMaxChunkDuration(maxChunkBytes: number): number {
+    const bytesPerSecond = (this.config.kbps * 1000) / 8;
+    return (maxChunkBytes / bytesPerSecond) * 0.95;
+  }
+
+  /**
+   * 解像度ごとの音量（dB）を計算
+   */
+  calculateLevels(channelData: Float32Array, sampleRate: number): number[] {
+    const samplesPerSegment = Math.max(1, Math.floor((this.config.resolution / 1000) * sampleRate));
+    const levels: number[] = [];
+
+    for (let i = 0; i < channelData.length; i += samplesPerSegment) {
+      const end = Math.min(i + samplesPerSegment, channelData.length);
+      let sumSquares = 0;
+      for (let j = i; j < end; j++) {
+        sumSquares += channelData[j] * channelData[j];
+      }
+      levels.push(rmsToDb(Math.sqrt(sumSquares / (end - i))));
+    }
+
+    return levels;
+  }
+
+  /**
+   * 分割範囲を計算
+   * 各チャンクの上限時間の手前 searchWindow 秒の中で最も静かな位置で分割する
+   * @param levels - 解像度ごとの音量（dB）
+   * @param duration - 全体の長さ（秒）
+   * @param maxChunkDuration - 1チャンクあたりの最大秒数
+   */
+  calculateSplitRanges(levels: number[], duration: number, maxChunkDuration: number): SplitRange[] {
+    const segmentDuration = this.config.resolution / 1000;
+    const ranges: SplitRange[] = [];
+    let start = 0;
+
+    while (duration - start > maxChunkDuration) {
+      const limit = start + maxChunkDuration;
+      // チャンクが極端に短くならないよう、探索範囲はチャンク後半に限定
+      const searchStart = Math.max(start + maxChunkDuration / 2, limit - this.config.searchWindow);
+
+      const firstIndex = Math.ceil(searchStart / segmentDuration);
+      const lastIndex = Math.min(Math.floor(limit / segmentDuration) - 1, levels.length - 1);
+
+      let cut = limit;
+      let quietestDb = Infinity;
+      for (let i = firstIndex; i <= lastIndex; i++) {
+        // 同じ音量なら後ろの位置を優先（チャンク数を減らす）
+        if (levels[i] <= quietestDb) {
+          quietestDb = levels[i];
+          cut = (i + 0.5) * segmentDuration;
+        }
+      }
+
+      ranges.push({ start, end: cut });
+      start = cut;
+    }
+
+    ranges.push({ start, end: duration });
+    return ranges;
+  }
+
+  /**
+   * 全チャンネルを平均してモノラル化
+   */
+  private mixDown(audioBuffer: AudioBuffer): Float32Array {
+    if (audioBuffer.numberOfChannels === 1) {
+      return audioBuffer.getChannelData(0);
+    }
+
+    const mono = new Float32Array(audioBuffer.length);
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      const data = audioBuffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        mono[i] += data[i] / audioBuffer.numberOfChannels;
+      }
+    }
+    return mono;
+  }
+}
@@ -1,7 +1,7 @@
 // 音声トリミングモジュール
 // 波形分析、無音検出、トリミング処理を行う
 
-import lamejs from '@breezystack/lamejs';
+import { encodeMp3 } from './mp3';
 
 /**
  * 音声セグメント
@@ -355,7 +355,11 @@ export class AudioTrimmer {
       }
       
       // AudioBufferをMP3 Blobに変換（lamejs使用、即座に完了）
-      const trimmedBlob = this.audioBufferToMp3Blob(trimmedBuffer);
+      const channels: Float32Array[] = [];
+      for (let channel = 0; channel < trimmedBuffer.numberOfChannels; channel++) {
+        channels.push(trimmedBuffer.getChannelData(channel));
+      }
+      const trimmedBlob = encodeMp3(channels, trimmedBuffer.sampleRate, 128);
       
       const stats = this.calculateTrimStats(segments, audioBuffer.duration);
       
@@ -371,56 +375,4 @@ export class AudioTrimmer {
       await audioContext.close();
     }
   }
-
-  /**
-   * AudioBufferをMP3 Blobに変換（lamejs使用、即座に完了）
-   */
-  private audioBufferToMp3Blob(audioBuffer: AudioBuffer): Blob {
-    const numChannels = audioBuffer.numberOfChannels;
-    const sampleRate = audioBuffer.sampleRate;
-    const kbps = 128;
-    const mp3encoder = new lamejs.Mp3Encoder(numChannels, sampleRate, kbps);
-
-    const numFrames = audioBuffer.length;
-    const sampleBlockSize = 1152; // MP3フレームサイズ
-    const mp3Data: Uint8Array[] = [];
-
-    // Float32 → Int16 変換
-    const floatTo16BitPCM = (float32: Float32Array): Int16Array => {
-      const int16 = new Int16Array(float32.length);
-      for (let i = 0; i < float32.length; i++) {
-        const s = Math.max(-1, Math.min(1, float32[i]));
-        int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-      }
-      return int16;
-    };
-
-    const leftData = floatTo16BitPCM(audioBuffer.getChannelData(0));
-    const rightData = numChannels > 1 
-      ? floatTo16BitPCM(audioBuffer.getChannelData(1)) 
-      : undefined;
-
-    for (let i = 0; i < numFrames; i += sampleBlockSize) {
-      const leftChunk = leftData.subarray(i, i + sampleBlockSize);
-      const rightChunk = rightData?.subarray(i, i + sampleBlockSize);
-
-      let mp3buf: Uint8Array;
-      if (rightChunk) {
-        mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk);
-      } else {
-        mp3buf = mp3encoder.encodeBuffer(leftChunk);
-      }
-
-      if (mp3buf.length > 0) {
-        mp3Data.push(mp3buf);
-      }
-    }
-
-    const end: Uint8Array = mp3encoder.flush();
-    if (end.length > 0) {
-      mp3Data.push(end);
-    }
-
-    return new Blob(mp3Data as BlobPart[], { type: 'audio/mpeg' });
-  }
 }
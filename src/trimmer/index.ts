@@ -10,3 +10,12 @@ export {
   type TrimConfig,
   type TrimResult
 } from './AudioTrimmer';
+export {
+  AudioSplitter,
+  DEFAULT_SPLIT_CONFIG,
+  type AudioChunk,
+  type AudioChunkSplitter,
+  type SplitConfig,
+  type SplitRange
+} from './AudioSplitter';
+export { encodeMp3 } from './mp3';
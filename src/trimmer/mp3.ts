@@ -0,0 +1,59 @@
+// MP3エンコードモジュール
+// lamejsを使用してPCMデータをMP3 Blobに変換
+
+import lamejs from '@breezystack/lamejs';
+
+/**
+ * Float32 PCM → Int16 PCM 変換
+ */
+function floatTo16BitPCM(float32: Float32Array): Int16Array {
+  const int16 = new Int16Array(float32.length);
+  for (let i = 0; i < float32.length; i++) {
+    const s = Math.max(-1, Math.min(1, float32[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+  }
+  return int16;
+}
+
+/**
+ * チャンネルデータをMP3 Blobに変換（lamejs使用、即座に完了）
+ * @param channels - チャンネルごとのPCMデータ（1ch または 2ch）
+ * @param sampleRate - サンプルレート
+ * @param kbps - ビットレート
+ */
+export function encodeMp3(channels: Float32Array[], sampleRate: number, kbps: number = 128): Blob {
+  const numChannels = Math.min(2, channels.length);
+  const mp3encoder = new lamejs.Mp3Encoder(numChannels, sampleRate, kbps);
+
+  const numFrames = channels[0]?.length ?? 0;
+  const sampleBlockSize = 1152; // MP3フレームサイズ
+  const mp3Data: Uint8Array[] = [];
+
+  const leftData = floatTo16BitPCM(channels[0] ?? new Float32Array(0));
+  const rightData = numChannels > 1
+    ? floatTo16BitPCM(channels[1])
+    : undefined;
+
+  for (let i = 0; i < numFrames; i += sampleBlockSize) {
+    const leftChunk = leftData.subarray(i, i + sampleBlockSize);
+    const rightChunk = rightData?.subarray(i, i + sampleBlockSize);
+
+    let mp3buf: Uint8Array;
+    if (rightChunk) {
+      mp3buf = mp3encoder.encodeBuffer(leftChunk, rightChunk);
+    } else {
+      mp3buf = mp3encoder.encodeBuffer(leftChunk);
+    }
+
+    if (mp3buf.length > 0) {
+      mp3Data.push(mp3buf);
+    }
+  }
+
+  const end: Uint8Array = mp3encoder.flush();
+  if (end.length > 0) {
+    mp3Data.push(end);
+  }
+
+  return new Blob(mp3Data as BlobPart[], { type: 'audio/mpeg' });
+}
@@ -0,0 +1,108 @@
+// 音声ミニプレーヤービュー
+// 文字起こしのタイムスタンプから音声を指定位置で再生する
+
+import { ItemView, TFile, WorkspaceLeaf } from 'obsidian';
+import type { PlaybackState } from '../player';
+import { t } from '../i18n';
+
+/**
+ * ビュータイプ
+ */
+export const VIEW_TYPE_AUDIO_PLAYER = 'whisper-transcribe-player';
+
+// 再生速度の選択肢
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * 音声ミニプレーヤービュークラス
+ */
+export class AudioPlayerView extends ItemView {
+  private playback: PlaybackState;
+  private audioEl!: HTMLAudioElement;
+  private titleEl!: HTMLElement;
+  private currentPath: string | null = null;
+
+  constructor(leaf: WorkspaceLeaf, playback: PlaybackState) {
+    super(leaf);
+    this.playback = playback;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_AUDIO_PLAYER;
+  }
+
+  getDisplayText(): string {
+    return t('player.title');
+  }
+
+  getIcon(): string {
+    return 'audio-file';
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('whisper-transcribe-player');
+
+    this.titleEl = contentEl.createDiv({ cls: 'player-title', text: t('player.empty') });
+
+    this.audioEl = contentEl.createEl('audio', { attr: { controls: '', preload: 'metadata' } });
+    this.registerDomEvent(this.audioEl, 'timeupdate', () => {
+      this.playback.update({ currentTime: this.audioEl.currentTime });
+    });
+    this.registerDomEvent(this.audioEl, 'play', () => {
+      this.playback.update({ playing: true });
+    });
+    this.registerDomEvent(this.audioEl, 'pause', () => {
+      this.playback.update({ playing: false });
+    });
+
+    // 再生速度
+    const rateEl = contentEl.createDiv({ cls: 'player-rate' });
+    rateEl.createSpan({ text: t('player.rate') });
+    const select = rateEl.createEl('select', { cls: 'dropdown' });
+    for (const rate of PLAYBACK_RATES) {
+      select.createEl('option', { text: `${rate}x`, value: rate.toString() });
+    }
+    select.value = '1';
+    this.registerDomEvent(select, 'change', () => {
+      this.audioEl.playbackRate = Number(select.value);
+    });
+  }
+
+  async onClose(): Promise<void> {
+    this.audioEl?.pause();
+    this.currentPath = null;
+    this.playback.update({ audioPath: null, currentTime: 0, playing: false });
+  }
+
+  /**
+   * 音声ファイルを指定位置から再生
+   */
+  async play(file: TFile, seconds: number): Promise<void> {
+    if (this.currentPath !== file.path) {
+      this.currentPath = file.path;
+      this.titleEl.setText(file.basename);
+      this.audioEl.src = this.app.vault.getResourcePath(file);
+      this.playback.update({ audioPath: file.path, currentTime: 0 });
+      await this.waitForMetadata();
+    }
+
+    this.audioEl.currentTime = seconds;
+    this.playback.update({ currentTime: seconds });
+    await this.audioEl.play();
+  }
+
+  /**
+   * 音声のメタデータ読み込みを待つ（読み込み前はシークできない）
+   */
+  private waitForMetadata(): Promise<void> {
+    if (this.audioEl.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      this.audioEl.addEventListener('loadedmetadata', () => resolve(), { once: true });
+      this.audioEl.addEventListener('error', () => reject(new Error(t('player.loadFailed'))), { once: true });
+    });
+  }
+}
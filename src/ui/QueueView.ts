@@ -0,0 +1,120 @@
+// 文字起こしキュービュー
+// 待機中・失敗したジョブの一覧を表示し、再送信・削除を行う
+
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type { TranscriptionQueue, QueueJob } from '../queue';
+import { t } from '../i18n';
+
+/**
+ * ビュータイプ
+ */
+export const VIEW_TYPE_QUEUE = 'whisper-transcribe-queue';
+
+/**
+ * キュービュークラス
+ */
+export class QueueView extends ItemView {
+  private queue: TranscriptionQueue;
+  private onProcessRequest: () => void;
+  private unsubscribe: (() => void) | null = null;
+  private listEl!: HTMLElement;
+
+  constructor(leaf: WorkspaceLeaf, queue: TranscriptionQueue, onProcessRequest: () => void) {
+    super(leaf);
+    this.queue = queue;
+    this.onProcessRequest = onProcessRequest;
+  }
+
+  getViewType(): string {
+    return VIEW_TYPE_QUEUE;
+  }
+
+  getDisplayText(): string {
+    return t('queue.title');
+  }
+
+  getIcon(): string {
+    return 'list-restart';
+  }
+
+  async onOpen(): Promise<void> {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('whisper-transcribe-queue');
+
+    const header = contentEl.createDiv({ cls: 'queue-header' });
+    header.createEl('h4', { text: t('queue.title') });
+    const processBtn = header.createEl('button', { text: t('queue.processNow') });
+    processBtn.addEventListener('click', () => this.onProcessRequest());
+
+    this.listEl = contentEl.createDiv({ cls: 'queue-list' });
+
+    this.unsubscribe = this.queue.subscribe(() => this.render());
+    this.render();
+  }
+
+  async onClose(): Promise<void> {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * ジョブ一覧を描画
+   */
+  private render(): void {
+    this.listEl.empty();
+
+    const jobs = this.queue.getJobs();
+    if (jobs.length === 0) {
+      this.listEl.createDiv({ cls: 'queue-empty', text: t('queue.empty') });
+      return;
+    }
+
+    for (const job of jobs) {
+      this.renderJob(job);
+    }
+  }
+
+  /**
+   * ジョブを1件描画
+   */
+  private renderJob(job: QueueJob): void {
+    const item = this.listEl.createDiv({ cls: `queue-item is-${job.status}` });
+
+    const pathEl = item.createDiv({ cls: 'queue-item-path' });
+    const link = pathEl.createEl('a', { text: job.audioPath });
+    link.addEventListener('click', () => {
+      void this.app.workspace.openLinkText(job.audioPath, '');
+    });
+
+    item.createDiv({
+      cls: 'queue-item-status',
+      text: `${t(`queue.status.${job.status}`)} · ${t('queue.attempts', { count: job.attempts })}`
+    });
+
+    if (job.status === 'pending' && job.nextAttemptAt > Date.now()) {
+      item.createDiv({
+        cls: 'queue-item-next',
+        text: t('queue.nextAttempt', { time: new Date(job.nextAttemptAt).toLocaleString() })
+      });
+    }
+
+    if (job.lastError) {
+      item.createDiv({ cls: 'queue-item-error', text: job.lastError });
+    }
+
+    const actions = item.createDiv({ cls: 'queue-item-actions' });
+    if (job.status !== 'processing') {
+      const retryBtn = actions.createEl('button', { text: t('queue.retryNow') });
+      retryBtn.addEventListener('click', async () => {
+        await this.queue.retryNow(job.id);
+        this.onProcessRequest();
+      });
+
+      const removeBtn = actions.createEl('button', { text: t('queue.remove') });
+      removeBtn.addEventListener('click', () => {
+        void this.queue.remove(job.id);
+      });
+    }
+  }
+}
@@ -1,12 +1,56 @@
 // 録音モーダルUI
 
-import { App, Modal, Notice } from 'obsidian';
-import { AudioRecorder, type RecorderState } from '../recorder';
-import { TranscriptionService, type TranscriptionProgress } from '../api';
-import { StorageService } from '../storage';
+import { App, Modal, Notice, Platform, type TFile } from 'obsidian';
+import {
+  AudioRecorder,
+  FileRecordingSink,
+  DEFAULT_FLUSH_INTERVAL,
+  InputDeviceStore,
+  listInputDevices,
+  type RecorderState,
+  type InputDevice
+} from '../recorder';
+import {
+  TranscriptionService,
+  TranscriptionCancelledError,
+  getSpeakers,
+  renameSpeakers,
+  isAutoLanguage,
+  isTransientError,
+  transcribeParts,
+  type TranscriptionProgress,
+  type TranscriptionResult
+} from '../api';
+import {
+  StorageService,
+  getAudioMimeTypeForPath,
+  type FilenameVariables,
+  type TranscriptMetadata
+} from '../storage';
+import type { PostProcessor } from '../postprocess';
+import { Translator, type TranslationConfig } from '../translation';
+import type { TranscriptionQueue, QueueJobOptions } from '../queue';
+import { TranscriptOutput, OUTPUT_MODES, type OutputMode } from '../output';
 import { AudioTrimmer, type WaveformData, type AudioSegment, type TrimConfig } from '../trimmer';
+import { promptSpeakerNames } from './SpeakerRenameModal';
+import { showErrorNotice } from './errorNotice';
+import { getInputDeviceOptions } from './inputDeviceOptions';
 import { t } from '../i18n';
-import type { PluginSettings } from '../settings';
+import {
+  DEFAULT_PROFILE_ID,
+  applyProfile,
+  getFolderProfileId,
+  type PluginSettings
+} from '../settings';
+
+/**
+ * 出力前の文字起こし結果
+ */
+interface Transcript {
+  result: TranscriptionResult;
+  metadata: TranscriptMetadata;
+  variables: FilenameVariables;
+}
 
 /**
  * モーダルの表示状態
@@ -22,24 +66,35 @@ interface WakeLockSentinelLike {
  * 録音モーダルクラス
  */
 export class RecorderModal extends Modal {
-  private transcriptionService: TranscriptionService;
+  private createTranscriptionService: (profileId: string) => TranscriptionService;
   private storageService: StorageService;
+  private postProcessor: PostProcessor;
   private settings: PluginSettings;
+  private queue: TranscriptionQueue;
   private onStatusUpdate: (state: {
-    status: 'recording' | 'paused' | 'uploading';
+    status: 'recording' | 'paused' | 'uploading' | 'processing';
     time?: string;
     percentage?: number;
+    cancel?: () => void;
   }) => void;
   private onRecorderChange: (recorder: AudioRecorder | null, state: ModalState, duration: number) => void;
 
   // 既存音声ファイルからの再文字起こし用
   private existingAudioPath: string | null = null;
+  private audioParts: string[] | null = null;  // 録音を複数のパートに分けた場合に保存したすべてのパート
+  private audioPartDurations: number[] = [];   // パートごとの録音時間（秒）
+  private transcript: Transcript | null = null;  // 保存・出力に失敗した文字起こし結果（音声を再送せずに出力だけやり直す）
+  private activeNoteName: string | null = null;
+  private activeNote: TFile | null = null;  // プロンプトに文脈を加えるノート（Markdown の場合のみ）
+  private profileId: string | null = null;  // null の場合はフォルダーのデフォルト
 
   private recorder: AudioRecorder | null = null;
   private state: ModalState = 'ready';
   private audioBlob: Blob | null = null;
   private duration: number = 0;
   private wakeLockSentinel: WakeLockSentinelLike | null = null;
+  private isOpen = false;  // 閉じた後も録音中の recorder のコールバックは残るため、表示中かを区別する
+  private abortController: AbortController | null = null;
 
   // トリミング関連
   private trimmer: AudioTrimmer | null = null;
@@ -51,8 +106,19 @@ export class RecorderModal extends Modal {
   // UI要素
   private statusIcon!: HTMLElement;
   private timeDisplay!: HTMLElement;
+  private titleInput!: HTMLInputElement;
+  private outputSelect!: HTMLSelectElement;
+  private profileSelect: HTMLSelectElement | null = null;
+  private deviceSelect: HTMLSelectElement | null = null;
+  private inputDevices = new InputDeviceStore();
+  private systemAudioToggle: HTMLElement | null = null;
+  private systemAudioCheckbox: HTMLInputElement | null = null;
+  private levelMeters!: HTMLElement;
+  private micLevelLabel!: HTMLElement;
   private levelMeter!: HTMLElement;
   private levelBar!: HTMLElement;
+  private systemLevel!: HTMLElement;
+  private systemLevelBar!: HTMLElement;
   private buttonContainer!: HTMLElement;
   private progressContainer!: HTMLElement;
   private progressText!: HTMLElement;
@@ -67,22 +133,27 @@ export class RecorderModal extends Modal {
 
   constructor(
     app: App,
-    transcriptionService: TranscriptionService,
+    createTranscriptionService: (profileId: string) => TranscriptionService,
     storageService: StorageService,
+    postProcessor: PostProcessor,
     settings: PluginSettings,
+    queue: TranscriptionQueue,
     onStatusUpdate: (state: {
-      status: 'recording' | 'paused' | 'uploading';
+      status: 'recording' | 'paused' | 'uploading' | 'processing';
       time?: string;
       percentage?: number;
+      cancel?: () => void;
     }) => void,
     onRecorderChange: (recorder: AudioRecorder | null, state: ModalState, duration: number) => void,
     existingRecorder?: { recorder: AudioRecorder; state: ModalState; duration: number },
-    existingAudio?: { blob: Blob; path: string }
+    existingAudio?: { blob: Blob; path: string; profileId?: string }
   ) {
     super(app);
-    this.transcriptionService = transcriptionService;
+    this.createTranscriptionService = createTranscriptionService;
     this.storageService = storageService;
+    this.postProcessor = postProcessor;
     this.settings = settings;
+    this.queue = queue;
     this.onStatusUpdate = onStatusUpdate;
     this.onRecorderChange = onRecorderChange;
 
@@ -90,18 +161,21 @@ export class RecorderModal extends Modal {
     if (existingAudio) {
       this.audioBlob = existingAudio.blob;
       this.existingAudioPath = existingAudio.path;
+      this.profileId = existingAudio.profileId ?? null;
     }
 
-    // 既存の録音を引き継ぐ
+    // 既存の録音を引き継ぐ（閉じている間に無音で一時停止・停止した場合があるため録音の状態を優先する）
     if (existingRecorder) {
+      const { status, duration } = existingRecorder.recorder.getState();
       this.recorder = existingRecorder.recorder;
-      this.state = existingRecorder.state;
-      this.duration = existingRecorder.duration;
+      this.state = status === 'idle' ? existingRecorder.state : status;
+      this.duration = status === 'idle' ? existingRecorder.duration : duration;
     }
   }
 
   onOpen(): void {
     const { contentEl } = this;
+    this.isOpen = true;
     contentEl.empty();
     contentEl.addClass('whisper-transcribe-modal');
 
@@ -111,6 +185,63 @@ export class RecorderModal extends Modal {
     // モーダルタイトル
     contentEl.createEl('h2', { text: t('modal.title') });
 
+    // ファイル名・テンプレート用のタイトル入力
+    this.titleInput = contentEl.createEl('input', {
+      type: 'text',
+      cls: 'title-input',
+      attr: { placeholder: t('modal.titlePlaceholder') }
+    });
+
+    // 出力先の選択（デフォルトは設定値）
+    this.outputSelect = contentEl.createEl('select', { cls: 'dropdown output-select' });
+    for (const mode of OUTPUT_MODES) {
+      this.outputSelect.createEl('option', { value: mode, text: t(`output.${mode}`) });
+    }
+    this.outputSelect.value = this.settings.outputMode;
+
+    // {{note}} 用に録音開始時のアクティブノートを記録
+    const activeFile = this.app.workspace.getActiveFile();
+    this.activeNoteName ??= activeFile?.basename ?? null;
+    this.activeNote ??= activeFile?.extension === 'md' ? activeFile : null;
+
+    // APIプロファイルの選択（プロファイルがある場合のみ）
+    // デフォルトは音声ファイル、録音の場合はアクティブノートのフォルダーのプロファイル
+    this.profileId ??= getFolderProfileId(this.settings, this.existingAudioPath ?? activeFile?.path ?? null);
+    if (this.settings.profiles.length > 0) {
+      this.profileSelect = contentEl.createEl('select', { cls: 'dropdown profile-select' });
+      this.profileSelect.createEl('option', { value: DEFAULT_PROFILE_ID, text: t('modal.defaultProfile') });
+      for (const profile of this.settings.profiles) {
+        this.profileSelect.createEl('option', { value: profile.id, text: profile.name });
+      }
+      this.profileSelect.value = this.profileId;
+      this.profileSelect.addEventListener('change', () => {
+        this.profileId = this.profileSelect?.value ?? DEFAULT_PROFILE_ID;
+      });
+    }
+
+    // マイクの選択（新しく録音する場合のみ、選択はこの端末に保存する）
+    if (!this.recorder && !this.existingAudioPath) {
+      this.deviceSelect = contentEl.createEl('select', {
+        cls: 'dropdown device-select',
+        attr: { title: t('settings.inputDevice') }
+      });
+      this.updateDeviceOptions([]);
+      this.deviceSelect.addEventListener('change', () => {
+        this.inputDevices.setDeviceId(this.deviceSelect?.value ?? '');
+      });
+      void listInputDevices().then(devices => this.updateDeviceOptions(devices), (error: unknown) => {
+        console.error('Input device error:', error);
+      });
+
+      // システム音声の録音（画面共有の音声を使うためデスクトップのみ）
+      if (Platform.isDesktopApp) {
+        this.systemAudioToggle = contentEl.createEl('label', { cls: 'system-audio-toggle' });
+        this.systemAudioCheckbox = this.systemAudioToggle.createEl('input', { type: 'checkbox' });
+        this.systemAudioCheckbox.checked = this.settings.captureSystemAudio;
+        this.systemAudioToggle.createSpan({ text: t('modal.captureSystemAudio') });
+      }
+    }
+
     // ステータス表示エリア
     const statusArea = contentEl.createDiv({ cls: 'status-area' });
     
@@ -119,9 +250,14 @@ export class RecorderModal extends Modal {
     this.statusIcon = statusDisplay.createSpan({ cls: 'status-icon', text: '⏺' });
     this.timeDisplay = statusDisplay.createSpan({ cls: 'time-display', text: '00:00:00' });
 
-    // 音量レベルメーター
-    this.levelMeter = statusArea.createDiv({ cls: 'level-meter' });
+    // 音量レベルメーター（システム音声も録音する場合は音源ごとに表示）
+    this.levelMeters = statusArea.createDiv({ cls: 'level-meters' });
+    this.micLevelLabel = this.levelMeters.createDiv({ cls: 'level-label hidden', text: t('modal.microphone') });
+    this.levelMeter = this.levelMeters.createDiv({ cls: 'level-meter' });
     this.levelBar = this.levelMeter.createDiv({ cls: 'level-bar' });
+    this.systemLevel = this.levelMeters.createDiv({ cls: 'hidden' });
+    this.systemLevel.createDiv({ cls: 'level-label', text: t('modal.systemAudio') });
+    this.systemLevelBar = this.systemLevel.createDiv({ cls: 'level-meter' }).createDiv({ cls: 'level-bar' });
 
     // 進捗表示（アップロード時）
     this.progressContainer = statusArea.createDiv({ cls: 'progress-container hidden' });
@@ -188,6 +324,11 @@ export class RecorderModal extends Modal {
     
     this.updateButtons();
 
+    // 閉じている間に無音で自動停止した録音は停止後の画面を表示
+    if (this.recorder && this.state === 'stopped') {
+      void this.restoreStoppedRecording(this.recorder);
+    }
+
     // 既存音声ファイルからの再文字起こしの場合、即座にトリミングフローへ
     if (this.audioBlob && this.existingAudioPath) {
       if (this.settings.enableTrimming) {
@@ -215,12 +356,14 @@ export class RecorderModal extends Modal {
     if (this.state === 'paused') {
       this.statusIcon.setText('⏸');
     }
+    this.showSystemLevelMeter(this.recorder.isCapturingSystemAudio());
 
     // コールバックを再設定
     this.recorder.onStateChange = (state: RecorderState): void => {
       this.duration = state.duration;
       this.updateTimeDisplay(state.duration);
-      this.updateLevelMeter(state.audioLevel);
+      this.updateLevelMeter(state.audioLevel, state.systemAudioLevel);
+      this.syncRecordingStatus(state.status);
       
       if (state.status === 'recording') {
         this.onStatusUpdate({
@@ -239,9 +382,21 @@ export class RecorderModal extends Modal {
       console.error('Recording error:', error);
       new Notice(t('notice.transcriptionFailed', { error: error.message }));
     };
+    this.recorder.onAutoStop = (blob: Blob): void => {
+      void this.handleAutoStop(blob);
+    };
+  }
+
+  /**
+   * 閉じている間に無音で自動停止した録音を引き継ぐ
+   */
+  private async restoreStoppedRecording(recorder: AudioRecorder): Promise<void> {
+    this.audioBlob = await recorder.readPart(recorder.getPartCount() - 1);
+    await this.showStoppedRecording();
   }
 
   onClose(): void {
+    this.isOpen = false;
     this.containerEl.removeEventListener('click', this.handleBackgroundClick, true);
     document.removeEventListener('visibilitychange', this.handleVisibilityChange);
 
@@ -262,18 +417,55 @@ export class RecorderModal extends Modal {
     this.onRecorderChange(null, 'ready', 0);
   }
 
+  /**
+   * マイクの選択肢を更新
+   */
+  private updateDeviceOptions(devices: InputDevice[]): void {
+    if (!this.deviceSelect) return;
+    const deviceId = this.inputDevices.getDeviceId();
+    this.deviceSelect.empty();
+    for (const [value, text] of Object.entries(getInputDeviceOptions(devices, deviceId))) {
+      this.deviceSelect.createEl('option', { value, text });
+    }
+    this.deviceSelect.value = deviceId;
+  }
+
   /**
    * 録音開始
    */
   private async startRecording(): Promise<void> {
     try {
-      this.recorder = new AudioRecorder();
+      // 録音データは一時ファイルに書き出し、設定した分数ごとに新しいパートに切り替える
+      const startedAt = Date.now();
+      const sink = new FileRecordingSink(
+        this.app.vault.adapter,
+        this.storageService.getRecordingTempFolder(startedAt.toString()),
+        DEFAULT_FLUSH_INTERVAL,
+        startedAt
+      );
+      const deviceId = this.inputDevices.getDeviceId();
+      this.recorder = new AudioRecorder({
+        partDuration: this.settings.recordingPartMinutes * 60,
+        deviceId,
+        gain: this.inputDevices.getGain(deviceId),
+        echoCancellation: this.settings.echoCancellation,
+        noiseSuppression: this.settings.noiseSuppression,
+        autoGainControl: this.settings.autoGainControl,
+        captureSystemAudio: this.systemAudioCheckbox?.checked ?? false,
+        silenceThresholdDb: this.settings.silenceThresholdDb,
+        autoPauseDuration: this.settings.autoPauseSeconds,
+        autoStopDuration: this.settings.autoStopMinutes * 60
+      }, sink);
+      this.recorder.onPartComplete = (part: number): void => {
+        new Notice(t('notice.recordingPartStarted', { part: part + 2 }));
+      };
       
       // 状態変更コールバック
       this.recorder.onStateChange = (state: RecorderState): void => {
         this.duration = state.duration;
         this.updateTimeDisplay(state.duration);
-        this.updateLevelMeter(state.audioLevel);
+        this.updateLevelMeter(state.audioLevel, state.systemAudioLevel);
+        this.syncRecordingStatus(state.status);
         
         // ステータスバー更新
         if (state.status === 'recording') {
@@ -295,7 +487,19 @@ export class RecorderModal extends Modal {
         new Notice(t('notice.transcriptionFailed', { error: error.message }));
       };
 
+      // 無音が続いて自動停止した
+      this.recorder.onAutoStop = (blob: Blob): void => {
+        void this.handleAutoStop(blob);
+      };
+
       await this.recorder.start();
+      if (this.recorder.isUsingFallbackDevice()) {
+        new Notice(t('notice.inputDeviceFallback'));
+      }
+      if (this.recorder.isSystemAudioUnavailable()) {
+        new Notice(t('notice.systemAudioUnavailable'));
+      }
+      this.showSystemLevelMeter(this.recorder.isCapturingSystemAudio());
       this.state = 'recording';
       this.updateButtons();
       await this.requestWakeLock();
@@ -338,6 +542,17 @@ export class RecorderModal extends Modal {
     }
   }
 
+  /**
+   * 無音での自動一時停止・再開を表示に反映
+   */
+  private syncRecordingStatus(status: RecorderState['status']): void {
+    if ((status !== 'recording' && status !== 'paused') || status === this.state) return;
+    if (this.state !== 'recording' && this.state !== 'paused') return;
+    this.state = status;
+    this.statusIcon.setText(status === 'paused' ? '⏸' : '⏺');
+    this.updateButtons();
+  }
+
   /**
    * 停止
    */
@@ -347,9 +562,41 @@ export class RecorderModal extends Modal {
       await this.releaseWakeLock();
       
       new Notice(t('notice.recordingStopped'));
+      await this.showStoppedRecording();
+    }
+  }
+
+  /**
+   * 無音が続いて自動停止した
+   * モーダルを閉じている場合は録音を main.ts に預け、次に開いた時に停止後の画面を表示する
+   */
+  private async handleAutoStop(blob: Blob): Promise<void> {
+    this.audioBlob = blob;
+    await this.releaseWakeLock();
+    new Notice(t('notice.autoStopped', { minutes: this.settings.autoStopMinutes }));
+
+    if (this.isOpen) {
+      await this.showStoppedRecording();
+    } else if (this.recorder) {
+      this.onRecorderChange(this.recorder, 'stopped', this.duration);
+    }
+  }
 
-      // トリミング機能が有効で、録音時間が自動スキップ閾値を超えている場合
-      if (this.settings.enableTrimming && this.duration > this.settings.autoSkipDuration) {
+  /**
+   * 停止後の画面を表示（トリミングするか送信・キャンセルを選ぶ）
+   */
+  private async showStoppedRecording(): Promise<void> {
+    if (this.recorder) {
+      // パートに分けた録音はトリミングしない
+      const partCount = this.recorder.getPartCount();
+      if (partCount > 1) {
+        if (this.settings.enableTrimming) {
+          new Notice(t('trimming.skippedParts', { count: partCount }));
+        }
+        this.state = 'stopped';
+        this.updateButtons();
+      } else if (this.settings.enableTrimming && this.duration > this.settings.autoSkipDuration) {
+        // トリミング機能が有効で、録音時間が自動スキップ閾値を超えている場合
         await this.startTrimming();
       } else {
         if (this.settings.enableTrimming && this.duration <= this.settings.autoSkipDuration) {
@@ -371,10 +618,12 @@ export class RecorderModal extends Modal {
     }
     void this.releaseWakeLock();
     this.audioBlob = null;
+    this.transcript = null;
     this.state = 'ready';
     this.duration = 0;
     this.updateTimeDisplay(0);
     this.updateLevelMeter(0);
+    this.showSystemLevelMeter(false);
     this.updateButtons();
     
     new Notice(t('notice.recordingCancelled'));
@@ -387,7 +636,8 @@ export class RecorderModal extends Modal {
     if (!this.audioBlob) return;
 
     // トリミング済みBlobがあり、オリジナルを使わない場合はそれを使う
-    const blobToSend = (!useOriginal && this.trimmedBlob) ? this.trimmedBlob : this.audioBlob;
+    const useTrimmed = !useOriginal && this.trimmedBlob !== null;
+    const blobToSend = (useTrimmed && this.trimmedBlob) ? this.trimmedBlob : this.audioBlob;
 
     this.state = 'uploading';
     this.updateButtons();
@@ -395,66 +645,326 @@ export class RecorderModal extends Modal {
     this.hideTrimmingUI();
     await this.requestWakeLock();
 
+    let audioPath: string | null = null;
+    let transcribed = false;  // 文字起こしが終わった（以降の失敗は保存・出力の失敗）
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+
     try {
-      // 進捗コールバック
-      this.transcriptionService.onProgress = (progress: TranscriptionProgress): void => {
+      // 選択されたプロファイルで送信する
+      const profileId = this.getProfileId();
+      const profileSettings = applyProfile(this.settings, profileId);
+      const transcriptionService = this.createTranscriptionService(profileId);
+      const noteContext = this.getNoteContext();
+      if (noteContext) {
+        transcriptionService.updateConfig({ noteContext });
+      }
+
+      // 進捗コールバック（ステータスバーからもキャンセルできる）
+      transcriptionService.onProgress = (progress: TranscriptionProgress): void => {
+        if (signal.aborted) return;
         this.updateProgress(progress);
         this.onStatusUpdate({
-          status: 'uploading',
-          percentage: progress.percentage
+          status: progress.phase === 'processing' ? 'processing' : 'uploading',
+          percentage: progress.percentage,
+          cancel: this.cancelUpload
         });
       };
 
       // 音声ファイルを保存（既存ファイルからの再文字起こしの場合はスキップ）
-      let audioPath: string;
       if (this.existingAudioPath) {
         audioPath = this.existingAudioPath;
+      } else if (this.recorder && this.recorder.getPartCount() > 1) {
+        this.audioParts = await this.saveAudioParts(this.recorder, this.audioBlob);
+        this.audioPartDurations = this.recorder.getPartDurations();
+        audioPath = this.audioParts[0];
       } else {
-        const audioInfo = await this.storageService.saveAudio(this.audioBlob, this.duration);
+        const audioInfo = await this.storageService.saveAudio(this.audioBlob, this.duration, this.getFilenameVariables());
         new Notice(t('notice.audioSaved', { path: audioInfo.path }));
         audioPath = audioInfo.path;
       }
+      // 音声ファイルに保存したら一時ファイルは不要（以降に中断しても復元の対象にしない）
+      if (this.recorder) {
+        await this.recorder.discardData();
+      }
 
-      // オフラインチェック
+      // オフラインの場合はキューに追加して後で自動送信
       if (!navigator.onLine) {
+        await this.queue.enqueue(audioPath, this.duration, this.createQueueJobOptions(useTrimmed));
         new Notice(t('notice.offlineMode'));
+        await this.releaseWakeLock();
         this.close();
         return;
       }
 
-      // 文字起こし実行（トリミング済みまたはオリジナルを送信）
-      const result = await this.transcriptionService.transcribe(blobToSend);
+      // 文字起こし実行（トリミング済みまたはオリジナルを送信、翻訳が有効な場合は翻訳も行う）
+      // パートに分けた録音はパートごとに文字起こししてマージする
+      const translator = new Translator(this.getTranslationConfig(), this.postProcessor);
+      const transcribe = (blob: Blob): Promise<TranscriptionResult> =>
+        translator.transcribe(transcriptionService, blob, signal, (stage) => {
+          if (stage === 'translating') {
+            this.progressText.setText(t('modal.translating'));
+          }
+        }, (error) => {
+          // 翻訳に失敗しても原文は保存する
+          console.error('Translation error:', error);
+          showErrorNotice(this.app, t('notice.translationFailed', { error: (error as Error).message }), error);
+        });
+      const audioParts = this.audioParts;
+      let result = audioParts
+        ? await transcribeParts(audioParts.length, async (part) => {
+          this.progressText.setText(t('modal.transcribingPart', { current: part + 1, total: audioParts.length }));
+          return transcribe(await this.readAudio(audioParts[part]));
+        }, this.audioPartDurations)
+        : await transcribe(blobToSend);
+      transcribed = true;
+
+      // 話者分離の結果があれば話者名を入力してもらう
+      if (getSpeakers(result.segments).length > 0) {
+        const names = await promptSpeakerNames(this.app, result.segments);
+        if (names) {
+          result = renameSpeakers(result, names);
+        }
+      }
 
-      // メタデータを作成
+      // メタデータを作成（自動検出・翻訳のみの場合は結果の言語を記録する）
+      const variables = this.getFilenameVariables();
       const metadata = this.storageService.createMetadata(
         audioPath,
-        this.settings.language,
-        this.settings.model,
-        this.duration
+        isAutoLanguage(profileSettings.language) || translator.replacesOriginal() ? result.language : profileSettings.language,
+        profileSettings.model,
+        this.duration,
+        variables.title
       );
+      if (audioParts) {
+        metadata.audioParts = audioParts;
+      }
 
-      // 結果を保存
-      const transcriptPath = await this.storageService.saveTranscript(result, metadata);
-
-      // 成功通知
-      new Notice(t('notice.transcriptionComplete'));
+      // 要約・アクションアイテムなどの後処理
+      await this.runPostProcess(result, metadata, signal);
 
-      // 作成したファイルを開く
-      await this.app.workspace.openLinkText(transcriptPath, '');
+      // 出力に失敗しても再送しないよう、書き込む前に結果を保持する
+      this.transcript = { result, metadata, variables };
+      await this.writeTranscript(this.transcript);
 
       await this.releaseWakeLock();
 
       this.close();
     } catch (error) {
+      // 保存済みの音声（パートに分けた場合は this.audioParts）から再送信する（一時ファイルは破棄済みのため、再度保存すると重複する）
+      if (audioPath) {
+        this.existingAudioPath = audioPath;
+      }
+
+      // キャンセル時は再送信できる状態に戻す
+      if (error instanceof TranscriptionCancelledError) {
+        new Notice(t('notice.transcriptionCancelled'));
+        this.state = 'stopped';
+        this.hideProgress();
+        this.updateButtons();
+        this.onRecorderChange(null, this.state, 0);
+        await this.releaseWakeLock();
+        return;
+      }
+
       console.error('Transcription error:', error);
-      new Notice(t('notice.transcriptionFailed', { error: (error as Error).message }));
+      showErrorNotice(
+        this.app,
+        t(transcribed ? 'notice.outputFailed' : 'notice.transcriptionFailed', { error: (error as Error).message }),
+        error
+      );
+
+      // 音声が保存済みで、時間をおけば成功する可能性がある失敗ならキューに追加して自動再送信
+      // 文字起こし済みの場合は再送すると二重に課金され、文字起こし結果も重複するため追加しない
+      // 認証エラー（AuthenticationError）などは通知のみとし、設定を直してから再送信できるよう停止状態に戻す
+      if (audioPath && !transcribed && isTransientError(error)) {
+        try {
+          await this.queue.enqueue(audioPath, this.duration, this.createQueueJobOptions(useTrimmed));
+          new Notice(t('notice.queuedForRetry'));
+          await this.releaseWakeLock();
+          this.close();
+          return;
+        } catch (queueError) {
+          console.error('Queue error:', queueError);
+        }
+      }
+
       this.state = 'stopped';
       this.hideProgress();
       this.updateButtons();
       await this.releaseWakeLock();
+    } finally {
+      this.abortController = null;
     }
   }
 
+  /**
+   * 文字起こし結果を選択された出力先に書き込む
+   */
+  private async writeTranscript({ result, metadata, variables }: Transcript): Promise<void> {
+    const mode = this.outputSelect.value as OutputMode;
+    const output = await new TranscriptOutput(this.app, this.storageService).write(mode, result, metadata, variables);
+    this.transcript = null;
+
+    // 成功通知
+    if (output.mode !== mode) {
+      new Notice(t('notice.outputFallback'));
+    }
+    new Notice(t(output.mode === 'clipboard' ? 'notice.copiedToClipboard' : 'notice.transcriptionComplete'));
+
+    // 新規ノート・デイリーノートに書き込んだ場合はそのファイルを開く
+    if (output.path && (output.mode === 'new-note' || output.mode === 'daily-note')) {
+      await this.app.workspace.openLinkText(output.path, '');
+    }
+  }
+
+  /**
+   * 保存に失敗した文字起こし結果を書き込み直す（音声は再送しない）
+   */
+  private async retryTranscript(): Promise<void> {
+    if (!this.transcript) return;
+
+    this.state = 'analyzing';
+    this.updateButtons();
+
+    try {
+      await this.writeTranscript(this.transcript);
+      this.close();
+    } catch (error) {
+      console.error('Output error:', error);
+      showErrorNotice(this.app, t('notice.outputFailed', { error: (error as Error).message }), error);
+      this.state = 'stopped';
+      this.updateButtons();
+    }
+  }
+
+  /**
+   * パートごとの録音データを音声ファイルとして保存
+   * 最後のパートは停止時に取得した録音データを使う
+   */
+  private async saveAudioParts(recorder: AudioRecorder, lastPart: Blob): Promise<string[]> {
+    const count = recorder.getPartCount();
+    const durations = recorder.getPartDurations();
+    const paths: string[] = [];
+    for (let part = 0; part < count; part++) {
+      const blob = part === count - 1 ? lastPart : await recorder.readPart(part);
+      const audioInfo = await this.storageService.saveAudio(blob, durations[part] ?? 0, this.getFilenameVariables(), part + 1);
+      paths.push(audioInfo.path);
+    }
+    new Notice(t('notice.audioSaved', { path: paths.join(', ') }));
+    return paths;
+  }
+
+  /**
+   * 保存済みの音声ファイルを読み込む
+   */
+  private async readAudio(path: string): Promise<Blob> {
+    return new Blob([await this.app.vault.adapter.readBinary(path)], { type: getAudioMimeTypeForPath(path) });
+  }
+
+  /**
+   * 後処理を実行してメタデータにセクションを追加
+   * 失敗・キャンセルしても文字起こし結果は保存できるよう、通知のみ行う
+   */
+  private async runPostProcess(
+    result: TranscriptionResult,
+    metadata: TranscriptMetadata,
+    signal: AbortSignal
+  ): Promise<void> {
+    if (!this.settings.postProcessEnabled || this.postProcessor.getEnabledPresets().length === 0) return;
+
+    try {
+      metadata.sections = await this.postProcessor.process(result, (preset, index, total) => {
+        this.progressText.setText(t('modal.postProcessing', { name: preset.name, current: index + 1, total }));
+      }, signal);
+    } catch (error) {
+      // 文字起こしは完了済みのため、キャンセルは後処理を省略するだけにする（結果を破棄すると再送信で二重に課金される）
+      if (error instanceof TranscriptionCancelledError) {
+        new Notice(t('notice.postProcessCancelled'));
+        return;
+      }
+      console.error('Post-processing error:', error);
+      showErrorNotice(this.app, t('notice.postProcessFailed', { error: (error as Error).message }), error);
+    }
+  }
+
+  /**
+   * 送信をキャンセル
+   * 送信中のリクエストを中止し、チャンク送信の場合は次のチャンクを送らない
+   */
+  private cancelUpload = (): void => {
+    if (!this.abortController || this.abortController.signal.aborted) return;
+    this.abortController.abort();
+    this.progressText.setText(t('modal.cancelling'));
+  };
+
+  /**
+   * キュー投入用のオプションを作成
+   */
+  private createQueueJobOptions(useTrimmed: boolean): QueueJobOptions {
+    const profileId = this.getProfileId();
+    const profileSettings = applyProfile(this.settings, profileId);
+    return {
+      trim: useTrimmed
+        ? {
+          thresholdDb: this.currentThresholdDb,
+          minSilenceDuration: this.settings.minSilenceDuration,
+          silenceMargin: this.settings.silenceMargin
+        }
+        : null,
+      transcription: {
+        model: profileSettings.model,
+        language: profileSettings.language,
+        temperature: profileSettings.temperature,
+        initialPrompt: profileSettings.initialPrompt,
+        noteContext: this.getNoteContext() ?? undefined
+      },
+      profileId,
+      ...(this.audioParts && { audioParts: this.audioParts, audioPartDurations: this.audioPartDurations }),
+      translation: this.getTranslationConfig(),
+      naming: this.getFilenameVariables()
+    };
+  }
+
+  /**
+   * 翻訳設定を取得
+   */
+  private getTranslationConfig(): TranslationConfig {
+    return {
+      targetLanguage: this.settings.translationLanguage,
+      output: this.settings.translationOutput
+    };
+  }
+
+  /**
+   * 選択中のプロファイルIDを取得
+   */
+  private getProfileId(): string {
+    return this.profileId ?? DEFAULT_PROFILE_ID;
+  }
+
+  /**
+   * プロンプトに加えるノートのタイトルと見出しを取得
+   * 録音中に書き足した見出しも使えるよう、送信時に読み込む
+   */
+  private getNoteContext(): string[] | null {
+    if (!this.settings.noteContextPrompt || !this.activeNote) return null;
+    const headings = this.app.metadataCache.getFileCache(this.activeNote)?.headings ?? [];
+    return [...new Set([this.activeNote.basename, ...headings.map(heading => heading.heading.trim())])]
+      .filter(item => item);
+  }
+
+  /**
+   * ファイル名パターン用の変数を取得
+   */
+  private getFilenameVariables(): FilenameVariables {
+    const title = this.titleInput.value.trim();
+    return {
+      ...(title && { title }),
+      ...(this.activeNoteName && { note: this.activeNoteName })
+    };
+  }
+
   /**
    * トリミング開始
    */
@@ -595,7 +1105,7 @@ export class RecorderModal extends Modal {
   private showTrimmingUI(): void {
     // 録音UIを非表示
     this.statusIcon.parentElement?.addClass('hidden');
-    this.levelMeter.addClass('hidden');
+    this.levelMeters.addClass('hidden');
 
     // タイトルを変更
     const titleEl = this.contentEl.querySelector('h2');
@@ -615,7 +1125,7 @@ export class RecorderModal extends Modal {
 
     // 録音UIを表示
     this.statusIcon.parentElement?.removeClass('hidden');
-    this.levelMeter.removeClass('hidden');
+    this.levelMeters.removeClass('hidden');
 
     // タイトルを戻す
     const titleEl = this.contentEl.querySelector('h2');
@@ -738,6 +1248,9 @@ export class RecorderModal extends Modal {
    */
   private updateButtons(): void {
     this.buttonContainer.empty();
+    // 録音を始めたらマイク・システム音声の録音は変更できない
+    this.deviceSelect?.toggleClass('hidden', this.state !== 'ready');
+    this.systemAudioToggle?.toggleClass('hidden', this.state !== 'ready');
 
     switch (this.state) {
       case 'ready':
@@ -752,7 +1265,12 @@ export class RecorderModal extends Modal {
         this.createButton(t('modal.stop'), () => this.stopRecording());
         break;
       case 'stopped':
-        this.createButton(t('modal.send'), () => this.sendRecording(true), true);
+        // 文字起こし済みの場合は音声を再送せずに保存だけやり直す
+        if (this.transcript) {
+          this.createButton(t('modal.saveTranscript'), () => this.retryTranscript(), true);
+        } else {
+          this.createButton(t('modal.send'), () => this.sendRecording(true), true);
+        }
         this.createButton(t('modal.cancel'), () => this.cancelRecording());
         break;
       case 'analyzing':
@@ -763,7 +1281,7 @@ export class RecorderModal extends Modal {
         this.createButton(t('trimming.send'), () => this.sendTrimmedRecording(), true);
         break;
       case 'uploading':
-        // ボタンなし
+        this.createButton(t('modal.cancel'), () => this.cancelUpload());
         break;
     }
   }
@@ -789,16 +1307,24 @@ export class RecorderModal extends Modal {
   /**
    * レベルメーターを更新
    */
-  private updateLevelMeter(level: number): void {
-    const percentage = Math.min(100, level * 100);
-    this.levelBar.style.width = `${percentage}%`;
+  private updateLevelMeter(level: number, systemLevel: number = 0): void {
+    this.levelBar.style.width = `${Math.min(100, level * 100)}%`;
+    this.systemLevelBar.style.width = `${Math.min(100, systemLevel * 100)}%`;
+  }
+
+  /**
+   * システム音声のレベルメーターの表示を切り替える
+   */
+  private showSystemLevelMeter(show: boolean): void {
+    this.micLevelLabel.toggleClass('hidden', !show);
+    this.systemLevel.toggleClass('hidden', !show);
   }
 
   /**
    * 進捗を表示
    */
   private showProgress(): void {
-    this.levelMeter.addClass('hidden');
+    this.levelMeters.addClass('hidden');
     this.progressContainer.removeClass('hidden');
   }
 
@@ -807,7 +1333,7 @@ export class RecorderModal extends Modal {
    */
   private hideProgress(): void {
     this.progressContainer.addClass('hidden');
-    this.levelMeter.removeClass('hidden');
+    this.levelMeters.removeClass('hidden');
   }
 
   /**
@@ -817,13 +1343,22 @@ export class RecorderModal extends Modal {
     const uploadedMB = (progress.uploadedBytes / (1024 * 1024)).toFixed(1);
     const totalMB = (progress.totalBytes / (1024 * 1024)).toFixed(1);
     
-    this.progressText.setText(
-      t('modal.uploading', {
+    // 再試行の待機中・送信完了後（サーバー側の処理待ち）は割合の代わりに状態を表示
+    if (progress.phase === 'retrying') {
+      this.progressText.setText(t('modal.retrying', {
+        seconds: Math.ceil((progress.retryDelay ?? 0) / 1000),
+        attempt: progress.retryAttempt ?? 1,
+        max: progress.maxRetries ?? 1
+      }));
+    } else if (progress.phase === 'processing') {
+      this.progressText.setText(t('modal.processing'));
+    } else {
+      this.progressText.setText(t('modal.uploading', {
         percentage: progress.percentage,
         uploaded: uploadedMB,
         total: totalMB
-      })
-    );
+      }));
+    }
 
     const fill = this.progressBar.querySelector('.progress-fill') as HTMLElement;
     if (fill) {
@@ -852,6 +1387,14 @@ export class RecorderModal extends Modal {
       .whisper-transcribe-modal {
         min-width: 300px;
       }
+      .whisper-transcribe-modal .title-input {
+        width: 100%;
+      }
+      .whisper-transcribe-modal .output-select,
+      .whisper-transcribe-modal .device-select {
+        width: 100%;
+        margin-top: 8px;
+      }
       .whisper-transcribe-modal .status-area {
         text-align: center;
         padding: 20px 0;
@@ -864,6 +1407,17 @@ export class RecorderModal extends Modal {
         margin-right: 10px;
         color: #e74c3c;
       }
+      .whisper-transcribe-modal .system-audio-toggle {
+        display: flex;
+        align-items: center;
+        gap: 6px;
+        margin-top: 8px;
+      }
+      .whisper-transcribe-modal .level-label {
+        font-size: 12px;
+        color: var(--text-muted);
+        text-align: left;
+      }
       .whisper-transcribe-modal .level-meter {
         height: 10px;
         background: var(--background-modifier-border);
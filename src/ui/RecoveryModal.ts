@@ -0,0 +1,106 @@
+// 中断された録音の復元モーダル
+// アプリの終了・クラッシュで残った録音を音声ファイルとして保存するか、破棄するかを選んでもらう
+
+import { App, Modal, Setting } from 'obsidian';
+import type { InterruptedRecording } from '../recorder';
+import { formatTimestamp } from '../storage';
+import { showErrorNotice } from './errorNotice';
+import { t } from '../i18n';
+
+/**
+ * 復元モーダルの操作
+ */
+export interface RecoveryActions {
+  recover: (recording: InterruptedRecording, transcribe: boolean) => Promise<void>;  // 音声ファイルとして保存
+  discard: (recording: InterruptedRecording) => Promise<void>;                       // 一時ファイルを削除
+}
+
+/**
+ * 中断された録音の復元モーダルクラス
+ * 選ばずに閉じた録音は次回の起動時に再度表示する
+ */
+export class RecoveryModal extends Modal {
+  private recordings: InterruptedRecording[];
+  private actions: RecoveryActions;
+
+  constructor(app: App, recordings: InterruptedRecording[], actions: RecoveryActions) {
+    super(app);
+    this.recordings = [...recordings];
+    this.actions = actions;
+  }
+
+  onOpen(): void {
+    this.render();
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+  }
+
+  /**
+   * 録音の一覧を描画
+   */
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('whisper-transcribe-recovery');
+
+    contentEl.createEl('h2', { text: t('recovery.title') });
+    contentEl.createEl('p', { text: t('recovery.desc'), cls: 'setting-item-description' });
+
+    for (const recording of this.recordings) {
+      const setting = new Setting(contentEl)
+        .setName(recording.startedAt !== null
+          ? new Date(recording.startedAt).toLocaleString()
+          : recording.folder.split('/').pop() ?? recording.folder)
+        .setDesc(this.describe(recording));
+
+      const run = async (action: () => Promise<void>): Promise<void> => {
+        setting.setDisabled(true);
+        try {
+          await action();
+          this.recordings = this.recordings.filter(item => item !== recording);
+        } catch (error) {
+          // 失敗した録音は一覧に残し、やり直せるようにする
+          console.error('Recovery error:', error);
+          showErrorNotice(this.app, t('recovery.failed', { error: (error as Error).message }), error);
+        }
+        if (this.recordings.length === 0) {
+          this.close();
+        } else {
+          this.render();
+        }
+      };
+
+      setting
+        .addButton(button => button
+          .setButtonText(t('recovery.discard'))
+          .setWarning()
+          .onClick(() => void run(() => this.actions.discard(recording)))
+        )
+        .addButton(button => button
+          .setButtonText(t('recovery.save'))
+          .onClick(() => void run(() => this.actions.recover(recording, false)))
+        )
+        .addButton(button => button
+          .setButtonText(t('recovery.saveAndTranscribe'))
+          .setCta()
+          .onClick(() => void run(() => this.actions.recover(recording, true)))
+        );
+    }
+  }
+
+  /**
+   * 録音の長さ・パート数・サイズを表示用にまとめる
+   */
+  private describe(recording: InterruptedRecording): string {
+    const details = [
+      formatTimestamp(recording.duration).slice(1, -1),
+      t('recovery.size', { size: (recording.size / 1024 / 1024).toFixed(1) })
+    ];
+    if (recording.parts.length > 1) {
+      details.push(t('recovery.parts', { count: recording.parts.length }));
+    }
+    return details.join(' · ');
+  }
+}
@@ -0,0 +1,84 @@
+// 話者名変更モーダル
+// 話者分離の結果の "Speaker 1" などのラベルを実際の名前に置き換える
+
+import { App, Modal, Setting } from 'obsidian';
+import { getSpeakers, type TranscriptionSegment } from '../api';
+import { t } from '../i18n';
+
+// 話者の例として表示する発言の最大文字数
+const SAMPLE_LENGTH = 60;
+
+/**
+ * 話者名変更モーダルクラス
+ */
+export class SpeakerRenameModal extends Modal {
+  private segments: TranscriptionSegment[];
+  private onSubmit: (names: Record<string, string> | null) => void;
+  private names: Record<string, string> = {};
+  private submitted = false;
+
+  constructor(
+    app: App,
+    segments: TranscriptionSegment[],
+    onSubmit: (names: Record<string, string> | null) => void
+  ) {
+    super(app);
+    this.segments = segments;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass('whisper-transcribe-speakers');
+
+    contentEl.createEl('h2', { text: t('speakers.title') });
+    contentEl.createEl('p', { text: t('speakers.desc'), cls: 'setting-item-description' });
+
+    for (const speaker of getSpeakers(this.segments)) {
+      // 誰の発言か判断しやすいよう最初の発言を表示
+      const sample = this.segments.find(segment => segment.speaker === speaker)?.text ?? '';
+      new Setting(contentEl)
+        .setName(speaker)
+        .setDesc(sample.length > SAMPLE_LENGTH ? `${sample.slice(0, SAMPLE_LENGTH)}…` : sample)
+        .addText(text => text
+          .setPlaceholder(speaker)
+          .onChange(value => {
+            this.names[speaker] = value;
+          })
+        );
+    }
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText(t('speakers.skip'))
+        .onClick(() => this.close())
+      )
+      .addButton(button => button
+        .setButtonText(t('speakers.save'))
+        .setCta()
+        .onClick(() => {
+          this.submitted = true;
+          this.close();
+        })
+      );
+  }
+
+  onClose(): void {
+    this.contentEl.empty();
+    this.onSubmit(this.submitted ? this.names : null);
+  }
+}
+
+/**
+ * 話者名変更モーダルを開き、入力された名前を返す
+ * スキップした場合は null
+ */
+export function promptSpeakerNames(
+  app: App,
+  segments: TranscriptionSegment[]
+): Promise<Record<string, string> | null> {
+  return new Promise(resolve => {
+    new SpeakerRenameModal(app, segments, resolve).open();
+  });
+}
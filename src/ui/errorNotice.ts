@@ -0,0 +1,47 @@
+// エラー通知
+// 失敗の種類に応じて、通知に解決のための操作を添える
+
+import { App, Notice } from 'obsidian';
+import { TranscriptionError } from '../api';
+import { t } from '../i18n';
+
+// 設定タブのID（manifest.json の id）
+const PLUGIN_ID = 'whisper-transcribe';
+
+// 操作付きの通知の表示時間（ミリ秒）
+const ACTION_NOTICE_DURATION = 10000;
+
+// Obsidian の設定画面（公開APIには含まれない）
+interface SettingManager {
+  open: () => void;
+  openTabById: (id: string) => void;
+}
+
+/**
+ * このプラグインの設定タブを開く
+ */
+export function openPluginSettings(app: App): void {
+  const setting = (app as App & { setting?: SettingManager }).setting;
+  setting?.open();
+  setting?.openTabById(PLUGIN_ID);
+}
+
+/**
+ * エラーを通知
+ * 認証エラーの場合はAPIキーを確認できるよう「設定を開く」ボタンを添える
+ */
+export function showErrorNotice(app: App, message: string, error: unknown): void {
+  if (!(error instanceof TranscriptionError) || error.code !== 'auth') {
+    new Notice(message);
+    return;
+  }
+
+  let notice: Notice | null = null;
+  const fragment = document.createDocumentFragment();
+  fragment.createDiv({ text: message });
+  fragment.createEl('button', { text: t('notice.openSettings') }).addEventListener('click', () => {
+    notice?.hide();
+    openPluginSettings(app);
+  });
+  notice = new Notice(fragment, ACTION_NOTICE_DURATION);
+}
@@ -1,3 +1,9 @@
 // UIモジュールのエクスポート
 
 export { RecorderModal, type ModalState } from './RecorderModal';
+export { QueueView, VIEW_TYPE_QUEUE } from './QueueView';
+export { AudioPlayerView, VIEW_TYPE_AUDIO_PLAYER } from './AudioPlayerView';
+export { SpeakerRenameModal, promptSpeakerNames } from './SpeakerRenameModal';
+export { RecoveryModal, type RecoveryActions } from './RecoveryModal';
+export { showErrorNotice, openPluginSettings } from './errorNotice';
+export { getInputDeviceOptions } from './inputDeviceOptions';
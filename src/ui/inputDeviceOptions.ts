@@ -0,0 +1,21 @@
+// 入力デバイスの選択肢
+// 設定画面と録音モーダルのマイクのドロップダウンで共通に使う
+
+import type { InputDevice } from '../recorder';
+import { t } from '../i18n';
+
+/**
+ * 入力デバイスの選択肢（デバイスID -> 表示名）を作成
+ * 名前が取得できないデバイス（権限の許可前）は番号で表示し、
+ * 選択中のデバイスが見つからない場合（取り外した場合など）も選択肢に残す
+ */
+export function getInputDeviceOptions(devices: InputDevice[], selectedId: string): Record<string, string> {
+  const options: Record<string, string> = { '': t('settings.inputDeviceDefault') };
+  devices.forEach((device, index) => {
+    options[device.deviceId] = device.label || t('settings.inputDeviceUnnamed', { index: index + 1 });
+  });
+  if (selectedId && !(selectedId in options)) {
+    options[selectedId] = t('settings.inputDeviceMissing');
+  }
+  return options;
+}